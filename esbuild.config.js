@@ -20,6 +20,15 @@ await build({
     "src/lib/file-store.ts",
     "src/lib/local-state-store.ts",
     "src/lib/manifest-store.ts",
+    "src/lib/ignore-rules.ts",
+    "src/lib/chunk-index.ts",
+    "src/lib/trash-store.ts",
+    "src/lib/gc.ts",
+    "src/lib/hash-cache.ts",
+    "src/lib/bandwidth.ts",
+    "src/lib/download-queue.ts",
+    "src/lib/selective-sync.ts",
+    "src/lib/placeholders.ts",
   ],
   outbase: "src/lib",
 });
@@ -31,6 +40,7 @@ await build({
     "src/ring-buffer.ts",
     "src/api-types.ts",
     "src/last-folder-config.ts",
+    "src/folder-registry.ts",
   ],
   outbase: "src",
 });
@@ -58,6 +68,10 @@ const nodeToBareMappings = [
   // Fix cross-references: src/engine-*.ts import from ./lib/*.js but output is flat
   ['"./lib/manifest-store.js"', '"./manifest-store.js"'],
   ['"./lib/sync-engine.js"', '"./sync-engine.js"'],
+  ['"./lib/ignore-rules.js"', '"./ignore-rules.js"'],
+  ['"./lib/file-utils.js"', '"./file-utils.js"'],
+  ['"./lib/bandwidth.js"', '"./bandwidth.js"'],
+  ['"./lib/selective-sync.js"', '"./selective-sync.js"'],
 ];
 
 async function patchDir(dir) {
@@ -3,9 +3,8 @@ import Runtime from 'pear-electron'
 import Bridge from 'pear-bridge'
 import { spawn as spawnProcess } from 'bare-subprocess'
 import os from 'bare-os'
-import { startEngine, resolveFolder, startupConflictPolicies } from './lib/engine-manager.js'
-import { EngineBridge } from './lib/engine-bridge.js'
-import { saveLastFolder, loadLastFolder } from './lib/last-folder-config.js'
+import { startEngine, resolveFolder, startupConflictPolicies, folderModes, peerRoles } from './lib/engine-manager.js'
+import { FolderRegistry } from './lib/folder-registry.js'
 
 Pear.updates((update) => {
   console.log('Application update available:', update)
@@ -19,18 +18,23 @@ const runtime = new Runtime()
 const pipe = await runtime.start({ bridge })
 pipe.on('close', () => Pear.exit())
 
-// Engine state
-let engine = null
-let engineBridge = null
-let store = null
-let resolvedFolder = null
-let currentStartupConflictPolicy = null
-let removePushListener = null
+// Sync folders, each with its own engine
+const registry = new FolderRegistry()
+const removePushListeners = new Map()
+
+function addSession (folder, result, persist) {
+  const session = registry.add(folder, result, persist)
+  removePushListeners.set(session.id, session.bridge.addPushListener((msg) => {
+    pipeLog('>>', `push:${msg.type}`)
+    pipeSend(msg)
+  }))
+  return session
+}
 
 // JSON-RPC over pipe (newline-delimited JSON)
-// Request:  { id, method: "get"|"post", params: { path, body?, query? } }
+// Request:  { id, method: "get"|"post"|"put", params: { path, body?, query? } }
 // Response: { id, result } or { id, error }
-// Push:     { type, payload, timestamp } (same shape as WsMessage)
+// Push:     { type, payload, timestamp, folderId } (same shape as WsMessage)
 
 const PIPE_DEBUG = typeof Pear !== 'undefined' && Pear.config?.args?.includes('--pipe-debug')
 function pipeLog (dir, summary, detail) {
@@ -84,38 +88,96 @@ async function handlePipeLine (line) {
   }
 }
 
+function isStringArray (value) {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+async function setupFolder (body) {
+  const { folder, mode, inviteCode, startupConflictPolicy, folderMode, excluded, onDemand } = body || {}
+  if (!folder || !mode) throw new Error('folder and mode are required')
+  if (startupConflictPolicy && !startupConflictPolicies.includes(startupConflictPolicy)) {
+    throw new Error('invalid startupConflictPolicy')
+  }
+  if (folderMode && !folderModes.includes(folderMode)) {
+    throw new Error('invalid folderMode')
+  }
+  if (excluded !== undefined && !isStringArray(excluded)) {
+    throw new Error('excluded must be an array of paths')
+  }
+  if (onDemand !== undefined && typeof onDemand !== 'boolean') {
+    throw new Error('onDemand must be a boolean')
+  }
+  const resolvedFolder = resolveFolder(folder)
+  if (registry.has(resolvedFolder)) throw new Error('Folder is already syncing')
+  const overlapping = registry.overlapping(resolvedFolder)
+  if (overlapping) throw new Error(`Folder overlaps ${overlapping}, which is already syncing`)
+  const result = await startEngine(resolvedFolder, mode, inviteCode, undefined, startupConflictPolicy, folderMode, excluded, onDemand)
+  const session = addSession(resolvedFolder, result, true)
+  return { ok: true, id: session.id, writerKey: session.engine.getManifest().writerKey }
+}
+
 async function handleRequest (method, path, body, query) {
-  if (method === 'get' && path === '/api/status') {
-    if (engineBridge) return engineBridge.getStatus()
-    return { state: 'setup', folder: null, startupConflictPolicy: null }
+  if (method === 'get' && path === '/api/folders') {
+    return registry.list().map((session) => registry.info(session))
+  }
+
+  if (method === 'post' && path === '/api/folders') {
+    return setupFolder(body)
   }
 
   if (method === 'post' && path === '/api/setup') {
-    if (engine) throw new Error('Already configured')
-    const { folder, mode, inviteCode, startupConflictPolicy } = body || {}
-    if (!folder || !mode) throw new Error('folder and mode are required')
-    if (startupConflictPolicy && !startupConflictPolicies.includes(startupConflictPolicy)) {
-      throw new Error('invalid startupConflictPolicy')
-    }
-    resolvedFolder = resolveFolder(folder)
-    const result = await startEngine(resolvedFolder, mode, inviteCode, undefined, startupConflictPolicy)
-    engine = result.engine
-    store = result.store
-    currentStartupConflictPolicy = result.startupConflictPolicy
-    engineBridge = new EngineBridge(engine, resolvedFolder, currentStartupConflictPolicy)
-    engineBridge.attach()
-    removePushListener = engineBridge.addPushListener((msg) => {
-      pipeLog('>>', `push:${msg.type}`)
-      pipeSend(msg)
-    })
-    saveLastFolder(resolvedFolder)
-    return { ok: true, writerKey: engine.getManifest().writerKey }
+    if (registry.primary()) throw new Error('Already configured')
+    return setupFolder(body)
+  }
+
+  const removeRoute = /^\/api\/folders\/([^/]+)\/remove$/.exec(path)
+  if (method === 'post' && removeRoute) {
+    const id = decodeURIComponent(removeRoute[1])
+    removePushListeners.get(id)?.()
+    removePushListeners.delete(id)
+    if (!(await registry.remove(id))) throw new Error('Unknown folder')
+    return { ok: true }
+  }
+
+  if (method === 'post' && path === '/api/shutdown') {
+    // Schedule teardown after the response has flushed through the pipe.
+    // setTimeout(0) lets the caller's pipe.write() complete first.
+    setTimeout(async () => {
+      for (const remove of removePushListeners.values()) remove()
+      removePushListeners.clear()
+      await registry.closeAll()
+      Pear.exit()
+    }, 50)
+    return { ok: true }
+  }
+
+  if (method === 'get' && path === '/api/pick-folder') {
+    return pickFolder()
+  }
+
+  // Everything else acts on one folder: /api/folders/:id/..., or the first folder at /api/...
+  const scoped = /^\/api\/folders\/([^/]+)(\/.*)$/.exec(path)
+  const session = scoped ? registry.get(decodeURIComponent(scoped[1])) : registry.primary()
+  if (scoped && !session) throw new Error('Unknown folder')
+  return handleFolderRequest(session, method, scoped ? '/api' + scoped[2] : path, body, query)
+}
+
+async function handleFolderRequest (session, method, path, body, query) {
+  const engine = session?.engine ?? null
+  const engineBridge = session?.bridge ?? null
+
+  if (method === 'get' && path === '/api/status') {
+    if (engineBridge) return engineBridge.getStatus()
+    return { state: 'setup', folder: null, startupConflictPolicy: null, folderMode: null, onDemand: false, divergedPaths: 0, paused: false }
   }
 
   if (method === 'post' && path === '/api/invite') {
     if (!engine) throw new Error('Not configured')
-    const inviteCode = await engine.getManifest().createInvite()
-    return { inviteCode }
+    const role = body?.role ?? 'writer'
+    if (!peerRoles.includes(role)) throw new Error('invalid role')
+    if (engine.isReadOnly()) throw new Error('Read-only peers cannot create invites')
+    const inviteCode = await engine.getManifest().createInvite({ readOnly: role === 'read-only' })
+    return { inviteCode, role }
   }
 
   if (method === 'get' && path === '/api/files') {
@@ -123,6 +185,112 @@ async function handleRequest (method, path, body, query) {
     return await engineBridge.getFiles()
   }
 
+  if (method === 'get' && path === '/api/transfers') {
+    return engineBridge ? engineBridge.getTransfers() : []
+  }
+
+  if (method === 'post' && path === '/api/transfers/prioritize') {
+    if (!engine) throw new Error('Not configured')
+    if (typeof body?.path !== 'string') throw new Error('path is required')
+    engine.prioritizeDownload(body.path)
+    return { ok: true }
+  }
+
+  if (method === 'post' && path === '/api/hydrate') {
+    if (!engine) throw new Error('Not configured')
+    if (typeof body?.path !== 'string') throw new Error('path is required')
+    await engine.hydrate(body.path)
+    return { ok: true }
+  }
+
+  if (method === 'post' && path === '/api/evict') {
+    if (!engine) throw new Error('Not configured')
+    if (typeof body?.path !== 'string') throw new Error('path is required')
+    await engine.evict(body.path)
+    return { ok: true }
+  }
+
+  if (method === 'get' && path === '/api/selective-sync') {
+    if (!engineBridge) throw new Error('Not configured')
+    return await engineBridge.getSelectiveSync()
+  }
+
+  if (method === 'put' && path === '/api/selective-sync') {
+    if (!engine) throw new Error('Not configured')
+    if (!isStringArray(body?.excluded)) throw new Error('excluded must be an array of paths')
+    await engine.setSelectiveSync(body.excluded)
+    return await engineBridge.getSelectiveSync()
+  }
+
+  const fileRoute = /^\/api\/files\/([^/]+)\/(history|restore)$/.exec(path)
+  if (method === 'get' && fileRoute?.[2] === 'history') {
+    if (!engineBridge) throw new Error('Not configured')
+    return await engineBridge.getFileHistory(decodeURIComponent(fileRoute[1]))
+  }
+
+  if (method === 'post' && fileRoute?.[2] === 'restore') {
+    if (!engine) throw new Error('Not configured')
+    const { seq, writerKey } = body || {}
+    if (typeof seq !== 'number' || typeof writerKey !== 'string') {
+      throw new Error('seq and writerKey are required')
+    }
+    const restored = await engine.restoreRevision(decodeURIComponent(fileRoute[1]), { seq, writerKey })
+    return { ok: true, seq: restored.seq, hash: restored.hash }
+  }
+
+  if (method === 'post' && path === '/api/revert') {
+    if (!engine) throw new Error('Not configured')
+    const paths = body?.paths
+    if (paths !== undefined && !isStringArray(paths)) throw new Error('paths must be an array of strings')
+    return { reverted: await engine.revertLocalChanges(paths) }
+  }
+
+  if (method === 'post' && path === '/api/override') {
+    if (!engine) throw new Error('Not configured')
+    const paths = body?.paths
+    if (paths !== undefined && !isStringArray(paths)) throw new Error('paths must be an array of strings')
+    return { overridden: await engine.overrideRemoteChanges(paths) }
+  }
+
+  if (method === 'post' && path === '/api/pause') {
+    if (!engine) throw new Error('Not configured')
+    engine.pause()
+    return { ok: true }
+  }
+
+  if (method === 'post' && path === '/api/resume') {
+    if (!engine) throw new Error('Not configured')
+    await engine.resume()
+    return { ok: true }
+  }
+
+  if (method === 'get' && path === '/api/storage') {
+    if (!engine) throw new Error('Not configured')
+    return await engine.getStorageStats()
+  }
+
+  if (method === 'post' && path === '/api/storage/gc') {
+    if (!engine) throw new Error('Not configured')
+    return await engine.collectGarbage()
+  }
+
+  if (method === 'post' && path === '/api/rehash') {
+    if (!engine) throw new Error('Not configured')
+    return { ok: true, files: await engine.rehash() }
+  }
+
+  if (method === 'get' && path === '/api/trash') {
+    return engine ? engine.getTrash() : []
+  }
+
+  if (method === 'post' && path === '/api/trash/restore') {
+    if (!engine) throw new Error('Not configured')
+    const id = body?.id
+    if (typeof id !== 'string') throw new Error('id is required')
+    const entry = await engine.restoreFromTrash(id)
+    return { ok: true, path: entry.path }
+  }
+
   if (method === 'get' && path === '/api/peers') {
     if (!engineBridge) return []
     return await engineBridge.getPeers()
@@ -134,26 +302,6 @@ async function handleRequest (method, path, body, query) {
     return engineBridge ? engineBridge.getEvents(offset, limit) : []
   }
 
-  if (method === 'post' && path === '/api/shutdown') {
-    // Schedule teardown after the response has flushed through the pipe.
-    // setTimeout(0) lets the caller's pipe.write() complete first.
-    setTimeout(async () => {
-      if (removePushListener) removePushListener()
-      if (engineBridge) engineBridge.detach()
-      if (engine) {
-        await engine.stop()
-        await engine.close()
-      }
-      if (store) await store.close()
-      Pear.exit()
-    }, 50)
-    return { ok: true }
-  }
-
-  if (method === 'get' && path === '/api/pick-folder') {
-    return pickFolder()
-  }
-
   throw new Error(`Unknown route: ${method} ${path}`)
 }
 
@@ -194,26 +342,16 @@ function pickFolder () {
 }
 
 // Auto-start from saved config
-const savedFolder = loadLastFolder()
-if (savedFolder) {
+for (const saved of registry.savedFolders()) {
   try {
-    resolvedFolder = resolveFolder(savedFolder)
+    const resolvedFolder = resolveFolder(saved.folder)
+    if (registry.has(resolvedFolder)) continue
+    const overlapping = registry.overlapping(resolvedFolder)
+    if (overlapping) throw new Error(`Folder overlaps ${overlapping}, which is already syncing`)
     const result = await startEngine(resolvedFolder, 'create')
-    engine = result.engine
-    store = result.store
-    currentStartupConflictPolicy = result.startupConflictPolicy
-    engineBridge = new EngineBridge(engine, resolvedFolder, currentStartupConflictPolicy)
-    engineBridge.attach()
-    removePushListener = engineBridge.addPushListener((msg) => {
-      pipeLog('>>', `push:${msg.type}`)
-      pipeSend(msg)
-    })
+    addSession(resolvedFolder, result, false)
     console.log('[auto-start] Restored sync folder:', resolvedFolder)
   } catch (err) {
-    console.error('[auto-start] Failed to restore previous session:', err.message)
-    engine = null
-    engineBridge = null
-    store = null
-    resolvedFolder = null
+    console.error(`[auto-start] Failed to restore ${saved.folder}:`, err.message)
   }
 }
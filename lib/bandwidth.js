@@ -0,0 +1,248 @@
+const BURST_SECONDS = 1;
+const RATE_WINDOW_SECONDS = 5;
+const METER_INTERVAL_MS = 100;
+function parseTime(value) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+function isScheduleActive(entry, now) {
+  const start = parseTime(entry.start);
+  const end = parseTime(entry.end);
+  if (start === null || end === null) return false;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  let day = now.getDay();
+  if (start < end) {
+    if (minutes < start || minutes >= end) return false;
+  } else if (minutes < end) {
+    day = (day + 6) % 7;
+  } else if (minutes < start) {
+    return false;
+  }
+  return entry.days === void 0 || entry.days.includes(day);
+}
+function optionalRate(value) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : void 0;
+}
+function parseRateLimits(raw) {
+  const limits = {};
+  const upload = optionalRate(raw.uploadBytesPerSec);
+  const download = optionalRate(raw.downloadBytesPerSec);
+  if (upload !== void 0) limits.uploadBytesPerSec = upload;
+  if (download !== void 0) limits.downloadBytesPerSec = download;
+  return limits;
+}
+function isRecord(value) {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+function parseBandwidthOptions(raw) {
+  if (!isRecord(raw)) return void 0;
+  const options = parseRateLimits(raw);
+  if (isRecord(raw.peers)) {
+    options.peers = {};
+    for (const [writerKey, limits] of Object.entries(raw.peers)) {
+      if (isRecord(limits)) options.peers[writerKey] = parseRateLimits(limits);
+    }
+  }
+  if (Array.isArray(raw.schedule)) {
+    options.schedule = [];
+    for (const entry of raw.schedule) {
+      if (!isRecord(entry) || typeof entry.start !== "string" || typeof entry.end !== "string") {
+        continue;
+      }
+      if (parseTime(entry.start) === null || parseTime(entry.end) === null) continue;
+      const parsed = {
+        start: entry.start,
+        end: entry.end,
+        ...parseRateLimits(entry)
+      };
+      if (Array.isArray(entry.days)) {
+        parsed.days = entry.days.filter(
+          (day) => Number.isInteger(day) && day >= 0 && day <= 6
+        );
+      }
+      options.schedule.push(parsed);
+    }
+  }
+  return options;
+}
+class TokenBucket {
+  /** Starts full once a limit applies */
+  tokens = null;
+  updatedAt = Date.now();
+  rate;
+  constructor(rate) {
+    this.rate = rate;
+  }
+  /** Spend `bytes`; returns how many ms the sender should wait before sending more. */
+  take(bytes, now) {
+    const delay = this.wait(now);
+    if (this.tokens === null) return delay;
+    this.tokens -= bytes;
+    return this.wait(now);
+  }
+  /** How many ms until the bucket is out of debt. */
+  wait(now) {
+    const rate = this.rate();
+    if (rate <= 0) {
+      this.tokens = null;
+      return 0;
+    }
+    const burst = rate * BURST_SECONDS;
+    const refill = (now - this.updatedAt) / 1e3 * rate;
+    this.tokens = this.tokens === null ? burst : Math.min(burst, this.tokens + refill);
+    this.updatedAt = now;
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / rate * 1e3);
+  }
+}
+class RateMeter {
+  slots = new Array(RATE_WINDOW_SECONDS).fill(0);
+  second = Math.floor(Date.now() / 1e3);
+  add(bytes, now) {
+    this.advance(now);
+    this.slots[this.second % RATE_WINDOW_SECONDS] += bytes;
+  }
+  rate(now) {
+    this.advance(now);
+    const total = this.slots.reduce((sum, bytes) => sum + bytes, 0);
+    return Math.round(total / RATE_WINDOW_SECONDS);
+  }
+  advance(now) {
+    const second = Math.floor(now / 1e3);
+    const elapsed = Math.min(second - this.second, RATE_WINDOW_SECONDS);
+    for (let i = 1; i <= elapsed; i++) this.slots[(this.second + i) % RATE_WINDOW_SECONDS] = 0;
+    if (second > this.second) this.second = second;
+  }
+}
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms).unref?.());
+}
+class BandwidthLimiter {
+  options;
+  global;
+  peerBuckets = /* @__PURE__ */ new Map();
+  peerBySwarmKey = /* @__PURE__ */ new Map();
+  meters = {
+    upload: new RateMeter(),
+    download: new RateMeter()
+  };
+  releases = /* @__PURE__ */ new Set();
+  constructor(options) {
+    this.options = options ?? {};
+    this.global = {
+      upload: new TokenBucket(() => this.limits().uploadBytesPerSec ?? 0),
+      download: new TokenBucket(() => this.limits().downloadBytesPerSec ?? 0)
+    };
+  }
+  /** The global limits in effect at `now`, with any active schedule entry applied. */
+  limits(now = /* @__PURE__ */ new Date()) {
+    const base = {
+      uploadBytesPerSec: this.options.uploadBytesPerSec,
+      downloadBytesPerSec: this.options.downloadBytesPerSec
+    };
+    const active = this.options.schedule?.find((entry) => isScheduleActive(entry, now));
+    if (!active) return base;
+    return {
+      uploadBytesPerSec: active.uploadBytesPerSec ?? base.uploadBytesPerSec,
+      downloadBytesPerSec: active.downloadBytesPerSec ?? base.downloadBytesPerSec
+    };
+  }
+  /** Refresh which swarm key belongs to which peer. */
+  setPeers(peers) {
+    this.peerBySwarmKey.clear();
+    for (const peer of peers) {
+      if (peer.swarmKey) this.peerBySwarmKey.set(peer.swarmKey, peer.writerKey);
+    }
+  }
+  /**
+   * Meter a connection and enforce the limits on it. While it is over the upload limit or its
+   * peer's download limit, the connection is corked: our writes queue up, and with them the
+   * requests that make the peer send data. The global download limit is applied where blocks
+   * are requested instead, see {@link reserveDownload}.
+   */
+  throttle(stream) {
+    const swarmKey = stream.remotePublicKey?.toString("hex") ?? null;
+    let read = stream.rawBytesRead;
+    let written = stream.rawBytesWritten;
+    let corked = false;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const received = stream.rawBytesRead - read;
+      const sent = stream.rawBytesWritten - written;
+      read = stream.rawBytesRead;
+      written = stream.rawBytesWritten;
+      this.meters.download.add(received, now);
+      this.meters.upload.add(sent, now);
+      const delay = Math.max(
+        this.global.upload.take(sent, now),
+        this.peerDelay("upload", swarmKey, sent, now),
+        this.peerDelay("download", swarmKey, received, now)
+      );
+      const hold = delay > 0;
+      if (hold === corked) return;
+      corked = hold;
+      if (corked) stream.cork();
+      else stream.uncork();
+    }, METER_INTERVAL_MS);
+    timer.unref?.();
+    const release = () => {
+      clearInterval(timer);
+      this.releases.delete(release);
+      if (corked) stream.uncork();
+    };
+    this.releases.add(release);
+    stream.once("close", () => {
+      corked = false;
+      release();
+    });
+  }
+  /**
+   * Charge `bytes` about to be requested to the global download limit. Resolves once the limit
+   * allows them, so fetches are paced by what they download rather than by how many there are.
+   */
+  async reserveDownload(bytes) {
+    for (; ; ) {
+      const delay = this.global.download.wait(Date.now());
+      if (delay === 0) break;
+      await sleep(delay);
+    }
+    this.global.download.take(bytes, Date.now());
+  }
+  /** Stop metering every connection and uncork the ones being held back. */
+  close() {
+    for (const release of [...this.releases]) release();
+  }
+  rates() {
+    const now = Date.now();
+    return {
+      uploadRate: this.meters.upload.rate(now),
+      downloadRate: this.meters.download.rate(now)
+    };
+  }
+  /** Charge a peer's own limit, if it has one; returns how many ms to hold its connection. */
+  peerDelay(direction, swarmKey, bytes, now) {
+    const writerKey = swarmKey ? this.peerBySwarmKey.get(swarmKey) : void 0;
+    if (!writerKey || !this.options.peers?.[writerKey]) return 0;
+    return this.peerBucket(writerKey)[direction].take(bytes, now);
+  }
+  peerBucket(writerKey) {
+    let buckets = this.peerBuckets.get(writerKey);
+    if (!buckets) {
+      buckets = {
+        upload: new TokenBucket(() => this.options.peers?.[writerKey]?.uploadBytesPerSec ?? 0),
+        download: new TokenBucket(() => this.options.peers?.[writerKey]?.downloadBytesPerSec ?? 0)
+      };
+      this.peerBuckets.set(writerKey, buckets);
+    }
+    return buckets;
+  }
+}
+export {
+  BandwidthLimiter,
+  isScheduleActive,
+  parseBandwidthOptions
+};
+//# sourceMappingURL=bandwidth.js.map
@@ -0,0 +1,61 @@
+import { DEFAULT_BLOCK_SIZE } from "./file-store";
+function fileChunks(metadata) {
+  if (metadata.chunks) return metadata.chunks;
+  if (!metadata.blocks) return [];
+  const sources = [];
+  for (let i = 0; i < metadata.blocks.length; i++) {
+    sources.push({
+      hash: metadata.blockHashes?.[i] ?? null,
+      // Legacy entries use fixed-size blocks; only the last one can be short.
+      size: Math.min(DEFAULT_BLOCK_SIZE, metadata.size - DEFAULT_BLOCK_SIZE * i),
+      writerKey: metadata.writerKey,
+      index: metadata.blocks.offset + i
+    });
+  }
+  return sources;
+}
+class ChunkIndex {
+  chunks = /* @__PURE__ */ new Map();
+  localWriterKey;
+  constructor(localWriterKey) {
+    this.localWriterKey = localWriterKey ?? null;
+  }
+  get size() {
+    return this.chunks.size;
+  }
+  get(hash) {
+    return this.chunks.get(hash) ?? null;
+  }
+  add(ref) {
+    const existing = this.chunks.get(ref.hash);
+    if (existing) {
+      const upgradesToLocal = ref.writerKey === this.localWriterKey && existing.writerKey !== this.localWriterKey;
+      if (!upgradesToLocal) return;
+    }
+    this.chunks.set(ref.hash, ref);
+  }
+  /** Index every hashed chunk referenced by a file entry. */
+  addFile(metadata) {
+    if (metadata.chunks) {
+      for (const ref of metadata.chunks) this.add(ref);
+      return;
+    }
+    if (!metadata.blocks || !metadata.blockHashes) return;
+    const blockCount = metadata.blocks.length;
+    for (let i = 0; i < blockCount; i++) {
+      const hash = metadata.blockHashes[i];
+      if (!hash) continue;
+      this.add({
+        hash,
+        size: Math.min(DEFAULT_BLOCK_SIZE, metadata.size - DEFAULT_BLOCK_SIZE * i),
+        writerKey: metadata.writerKey,
+        index: metadata.blocks.offset + i
+      });
+    }
+  }
+}
+export {
+  ChunkIndex,
+  fileChunks
+};
+//# sourceMappingURL=chunk-index.js.map
@@ -0,0 +1,74 @@
+const DEFAULT_RECENT_WINDOW_MS = 60 * 60 * 1e3;
+class DownloadQueue {
+  concurrency;
+  recentWindowMs;
+  /** When each bumped path was bumped; kept until the path is downloaded */
+  bumped = /* @__PURE__ */ new Map();
+  waiting = [];
+  constructor(options) {
+    this.concurrency = Math.max(1, options?.concurrency ?? 4);
+    this.recentWindowMs = options?.recentWindowMs ?? DEFAULT_RECENT_WINDOW_MS;
+  }
+  /** Move `path` ahead of everything not bumped, now or whenever it is next queued. */
+  prioritize(path) {
+    this.bumped.set(path, Date.now());
+    const index = this.waiting.findIndex((request) => request.path === path);
+    if (index > 0) this.waiting.unshift(...this.waiting.splice(index, 1));
+  }
+  /** Paths still waiting for a slot, in the order they will start. */
+  pending() {
+    return this.waiting.map((request) => request.path);
+  }
+  /**
+   * Run `task` for each request in priority order, at most `concurrency` at a time. A failed
+   * task does not stop the others; resolves with the errors of the failed ones, by path.
+   */
+  async run(requests, task) {
+    const now = Date.now();
+    const queued = [...requests].sort((a, b) => this.compare(a, b, now));
+    this.waiting.push(...queued);
+    const mine = new Set(queued);
+    const failures = /* @__PURE__ */ new Map();
+    const next = () => {
+      const index = this.waiting.findIndex((request) => mine.has(request));
+      if (index === -1) return null;
+      return this.waiting.splice(index, 1)[0];
+    };
+    const worker = async () => {
+      for (let request = next(); request; request = next()) {
+        try {
+          await task(request);
+          this.bumped.delete(request.path);
+        } catch (error) {
+          failures.set(request.path, error);
+        }
+      }
+    };
+    try {
+      const workers = Math.min(this.concurrency, queued.length);
+      await Promise.all(Array.from({ length: workers }, worker));
+    } finally {
+      this.waiting = this.waiting.filter((request) => !mine.has(request));
+    }
+    return failures;
+  }
+  compare(a, b, now) {
+    const bumpA = this.bumped.get(a.path);
+    const bumpB = this.bumped.get(b.path);
+    if (bumpA !== void 0 || bumpB !== void 0) {
+      if (bumpA === void 0) return 1;
+      if (bumpB === void 0) return -1;
+      if (bumpA !== bumpB) return bumpB - bumpA;
+    }
+    const recentA = now - a.mtime <= this.recentWindowMs;
+    const recentB = now - b.mtime <= this.recentWindowMs;
+    if (recentA !== recentB) return recentA ? -1 : 1;
+    if (a.size !== b.size) return a.size - b.size;
+    return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+  }
+}
+export {
+  DEFAULT_RECENT_WINDOW_MS,
+  DownloadQueue
+};
+//# sourceMappingURL=download-queue.js.map
@@ -1,5 +1,8 @@
-import { isFileMetadata, isPeerMetadata } from "./manifest-store.js";
+import { normalizePath } from "./file-utils.js";
+import { isFileMetadata, isPeerMetadata, isTombstone } from "./manifest-store.js";
+import { isExcluded, listFolders } from "./selective-sync.js";
 import { RingBuffer } from "./ring-buffer.js";
+const PROGRESS_INTERVAL_MS = 250;
 class EngineBridge {
   engine;
   folder;
@@ -9,10 +12,13 @@ class EngineBridge {
   nextEventId = 1;
   startTime;
   statsInterval = null;
+  progressTimer = null;
   startupConflictPolicy;
-  constructor(engine, folder, startupConflictPolicy) {
+  folderId;
+  constructor(engine, folder, startupConflictPolicy, folderId) {
     this.engine = engine;
     this.folder = folder;
+    this.folderId = folderId;
     this.startupConflictPolicy = startupConflictPolicy;
     this.events = new RingBuffer(1e3);
     this.startTime = Date.now();
@@ -21,6 +27,7 @@ class EngineBridge {
     this.engine.on("sync", this.onSync);
     this.engine.on("audit", this.onAudit);
     this.engine.on("error", this.onError);
+    this.engine.on("progress", this.onProgress);
     this.statsInterval = setInterval(() => {
       this.broadcast({
         type: "stats",
@@ -33,10 +40,15 @@ class EngineBridge {
     this.engine.removeListener("sync", this.onSync);
     this.engine.removeListener("audit", this.onAudit);
     this.engine.removeListener("error", this.onError);
+    this.engine.removeListener("progress", this.onProgress);
     if (this.statsInterval) {
       clearInterval(this.statsInterval);
       this.statsInterval = null;
     }
+    if (this.progressTimer) {
+      clearTimeout(this.progressTimer);
+      this.progressTimer = null;
+    }
   }
   addWsClient(ws) {
     this.wsClients.add(ws);
@@ -48,15 +60,17 @@ class EngineBridge {
     this.pushListeners.add(fn);
     return () => this.pushListeners.delete(fn);
   }
+  /** Send a message to every client, tagged with this bridge's folder. */
   broadcast(msg) {
-    const data = JSON.stringify(msg);
+    const tagged = { ...msg, folderId: this.folderId };
+    const data = JSON.stringify(tagged);
     for (const ws of this.wsClients) {
       if (ws.readyState === 1) {
         ws.send(data);
       }
     }
     for (const fn of this.pushListeners) {
-      fn(msg);
+      fn(tagged);
     }
   }
   getEvents(offset, limit) {
@@ -66,6 +80,9 @@ class EngineBridge {
     const manifest = this.engine.getManifest();
     const entries = await manifest.list();
     const files = [];
+    const localChanges = new Map(this.engine.getLocalChanges().map((c) => [c.path, c]));
+    const transferring = new Set(this.engine.getTransfers().map((t) => t.path));
+    const excluded = this.engine.getSelectiveSync();
     for (const { path, metadata } of entries) {
       if (path.startsWith("__")) continue;
       if (!isFileMetadata(metadata)) continue;
@@ -78,38 +95,108 @@ class EngineBridge {
         mtime: metadata.mtime,
         writerKey: metadata.writerKey,
         peerName,
-        syncState: isConflict ? "conflict" : "synced"
+        syncState: localChanges.has(path) ? "locally-changed" : isExcluded(excluded, path) ? "excluded" : transferring.has(path) ? "syncing" : isConflict ? "conflict" : "synced",
+        hydrated: this.engine.isHydrated(path)
+      });
+      localChanges.delete(path);
+    }
+    const localWriterKey = this.engine.getFileStore().core.key.toString("hex");
+    for (const change of localChanges.values()) {
+      if (change.hash === null) continue;
+      files.push({
+        path: change.path,
+        size: change.size,
+        hash: change.hash,
+        mtime: change.mtime,
+        writerKey: localWriterKey,
+        peerName: await this.engine.getPeerName(localWriterKey),
+        syncState: "locally-changed",
+        hydrated: true
       });
     }
     return files;
   }
+  async getFileHistory(path) {
+    const current = await this.engine.getManifest().get(normalizePath(path));
+    const currentEntry = current && (isFileMetadata(current) || isTombstone(current)) ? current : null;
+    const revisions = [];
+    for (const { entry } of await this.engine.getFileHistory(path)) {
+      revisions.push({
+        seq: entry.seq,
+        writerKey: entry.writerKey,
+        peerName: await this.engine.getPeerName(entry.writerKey),
+        mtime: entry.mtime,
+        hash: isFileMetadata(entry) ? entry.hash : null,
+        size: isFileMetadata(entry) ? entry.size : 0,
+        current: currentEntry?.seq === entry.seq && currentEntry.writerKey === entry.writerKey
+      });
+    }
+    return revisions;
+  }
   async getPeers() {
     const manifest = this.engine.getManifest();
     const myWriterKey = manifest.writerKey;
     const entries = await manifest.list();
     const peers = [];
+    const known = /* @__PURE__ */ new Set();
     for (const { path, metadata } of entries) {
       if (!path.startsWith("__peer:")) continue;
       if (!isPeerMetadata(metadata)) continue;
+      if (metadata.swarmKey) known.add(metadata.swarmKey);
       peers.push({
         writerKey: metadata.writerKey,
         name: metadata.name,
         isLocal: metadata.writerKey === myWriterKey,
-        isConnected: true
+        isConnected: true,
+        role: await manifest.isWriter(metadata.writerKey) ? "writer" : "read-only"
+      });
+    }
+    if (this.engine.isReadOnly()) {
+      peers.push({
+        writerKey: myWriterKey,
+        name: myWriterKey.slice(0, 8),
+        isLocal: true,
+        isConnected: true,
+        role: "read-only"
+      });
+    }
+    for (const swarmKey of manifest.connectedSwarmKeys()) {
+      if (known.has(swarmKey)) continue;
+      known.add(swarmKey);
+      peers.push({
+        writerKey: swarmKey,
+        name: swarmKey.slice(0, 8),
+        isLocal: false,
+        isConnected: true,
+        role: "read-only"
       });
     }
     return peers;
   }
+  async getSelectiveSync() {
+    const entries = await this.engine.getManifest().list();
+    const paths = entries.filter(({ path, metadata }) => !path.startsWith("__") && isFileMetadata(metadata)).map(({ path }) => path);
+    return { excluded: this.engine.getSelectiveSync(), folders: listFolders(paths) };
+  }
+  getTransfers() {
+    return this.engine.getTransfers().map(({ startedAt: _startedAt, ...transfer }) => transfer);
+  }
   getStatus() {
     return {
-      state: "watching",
+      state: this.engine.isPaused() ? "idle" : "watching",
       folder: this.folder,
-      startupConflictPolicy: this.startupConflictPolicy
+      startupConflictPolicy: this.startupConflictPolicy,
+      folderMode: this.engine.getFolderMode(),
+      onDemand: this.engine.isOnDemand(),
+      divergedPaths: this.engine.getDivergedPaths().length,
+      paused: this.engine.isPaused()
     };
   }
   getStatsPayload() {
     return {
-      uptime: Date.now() - this.startTime
+      uptime: Date.now() - this.startTime,
+      ...this.engine.getTransferStats(),
+      ...this.engine.getTransferRates()
     };
   }
   pushEvent(event) {
@@ -119,6 +206,8 @@ class EngineBridge {
     let type;
     if (syncEvent.type === "conflict") {
       type = "conflict";
+    } else if (syncEvent.type === "rename") {
+      type = "rename";
     } else if (syncEvent.type === "delete") {
       type = "delete";
     } else if (syncEvent.direction === "local-to-remote") {
@@ -134,6 +223,8 @@ class EngineBridge {
     } else if (type === "delete") {
       const dir = syncEvent.direction === "local-to-remote" ? "locally" : "remotely";
       detail = `Deleted ${syncEvent.path} (${dir})`;
+    } else if (type === "rename") {
+      detail = `Renamed ${syncEvent.fromPath} \u2192 ${syncEvent.path}`;
     } else {
       detail = `Conflict: ${syncEvent.path} \u2192 ${syncEvent.conflictPath}`;
     }
@@ -151,11 +242,21 @@ class EngineBridge {
         direction: syncEvent.direction === "local-to-remote" ? "up" : "down",
         action: syncEvent.type,
         path: syncEvent.path,
-        conflictPath: syncEvent.conflictPath
+        conflictPath: syncEvent.conflictPath,
+        fromPath: syncEvent.fromPath
       },
       timestamp: Date.now()
     });
   };
+  /** Engine progress events arrive per block; clients get a snapshot at most every 250ms. */
+  onProgress = () => {
+    if (this.progressTimer) return;
+    this.progressTimer = setTimeout(() => {
+      this.progressTimer = null;
+      const payload = { transfers: this.getTransfers() };
+      this.broadcast({ type: "progress", payload, timestamp: Date.now() });
+    }, PROGRESS_INTERVAL_MS);
+  };
   onError = (err) => {
     const event = {
       id: this.nextEventId++,
@@ -171,7 +272,7 @@ class EngineBridge {
     });
   };
   onAudit = (audit) => {
-    const detail = `Startup policy ${audit.policy} affected ${audit.affectedPaths} path(s)`;
+    const detail = "kind" in audit ? `Rescan checked ${audit.scannedFiles} file(s), found ${audit.discrepancies} missed change(s)` : `Startup policy ${audit.policy} affected ${audit.affectedPaths} path(s)`;
     const event = {
       id: this.nextEventId++,
       timestamp: Date.now(),
@@ -181,12 +282,7 @@ class EngineBridge {
     this.pushEvent(event);
     this.broadcast({
       type: "status",
-      payload: {
-        eventType: "audit",
-        detail,
-        policy: audit.policy,
-        affectedPaths: audit.affectedPaths
-      },
+      payload: { eventType: "audit", detail, ...audit },
       timestamp: Date.now()
     });
   };
@@ -1,28 +1,56 @@
-import { createHash } from "bare-crypto";
 import { mkdir } from "bare-fs/promises";
 import { homedir } from "bare-os";
 import { join } from "bare-path";
 import Corestore from "corestore";
 import Localdrive from "localdrive";
+import { parseBandwidthOptions } from "./bandwidth.js";
+import { hashStream } from "./file-utils.js";
+import { IGNORE_FILE, IgnoreMatcher, isSyncIgnored } from "./ignore-rules.js";
 import {
   isConfigMetadata,
   isFileMetadata,
   isTombstone,
   ManifestStore
 } from "./manifest-store.js";
+import { listFolders } from "./selective-sync.js";
 import { SyncEngine } from "./sync-engine.js";
 const startupConflictPolicies = [
   "remote-wins",
   "local-wins",
   "keep-both"
 ];
+const folderModes = ["send-receive", "receive-only", "send-only"];
+const peerRoles = ["writer", "read-only"];
 function resolveFolder(folder) {
   if (folder.startsWith("~/") || folder === "~") {
     return join(homedir(), folder.slice(2));
   }
   return folder;
 }
-async function resolvePolicyState(manifest, startupConflictPolicy) {
+function readPeerFolderModes(settings) {
+  const raw = settings.peerFolderModes;
+  const modes = {};
+  if (typeof raw !== "object" || raw === null) return modes;
+  for (const [writerKey, mode] of Object.entries(raw)) {
+    if (typeof mode === "string" && folderModes.includes(mode)) {
+      modes[writerKey] = mode;
+    }
+  }
+  return modes;
+}
+function readPeerOnDemand(settings) {
+  const raw = settings.peerOnDemand;
+  const onDemand = {};
+  if (typeof raw !== "object" || raw === null) return onDemand;
+  for (const [writerKey, enabled] of Object.entries(raw)) {
+    if (typeof enabled === "boolean") onDemand[writerKey] = enabled;
+  }
+  return onDemand;
+}
+function optionalNumber(value) {
+  return typeof value === "number" ? value : void 0;
+}
+async function resolvePolicyState(manifest, startupConflictPolicy, folderMode, onDemand) {
   const existingConfig = await manifest.get("__config");
   const existingSettings = existingConfig && isConfigMetadata(existingConfig) ? existingConfig.settings ?? {} : {};
   let resolvedPolicy = null;
@@ -33,28 +61,72 @@ async function resolvePolicyState(manifest, startupConflictPolicy) {
   if (startupConflictPolicy) {
     resolvedPolicy = startupConflictPolicy;
   }
+  const resolvedFolderMode = folderMode ?? readPeerFolderModes(existingSettings)[manifest.writerKey] ?? null;
+  const resolvedOnDemand = onDemand ?? readPeerOnDemand(existingSettings)[manifest.writerKey] ?? null;
   return {
     resolvedPolicy,
+    resolvedFolderMode,
+    resolvedOnDemand,
     existingConfig,
     existingSettings
   };
 }
 async function persistConfig(manifest, folder, policyState) {
+  const settings = { ...policyState.existingSettings };
+  if (policyState.resolvedPolicy !== null) {
+    settings.startupConflictPolicy = policyState.resolvedPolicy;
+  }
+  if (policyState.resolvedFolderMode !== null) {
+    settings.peerFolderModes = {
+      ...readPeerFolderModes(policyState.existingSettings),
+      [manifest.writerKey]: policyState.resolvedFolderMode
+    };
+  }
+  if (policyState.resolvedOnDemand !== null) {
+    settings.peerOnDemand = {
+      ...readPeerOnDemand(policyState.existingSettings),
+      [manifest.writerKey]: policyState.resolvedOnDemand
+    };
+  }
   await manifest.putConfig({
     ...policyState.existingConfig && isConfigMetadata(policyState.existingConfig) ? { peerName: policyState.existingConfig.peerName } : {},
     syncFolder: folder,
-    settings: policyState.resolvedPolicy === null ? policyState.existingSettings : { ...policyState.existingSettings, startupConflictPolicy: policyState.resolvedPolicy }
+    settings
   });
 }
-async function startEngineFromManifest(folder, store, manifest, startupConflictPolicy) {
+async function startEngineFromManifest(folder, store, manifest, startupConflictPolicy, folderMode, excluded, onDemand) {
   await manifest.ready();
-  const policyState = await resolvePolicyState(manifest, startupConflictPolicy);
-  await persistConfig(manifest, folder, policyState);
+  const policyState = await resolvePolicyState(
+    manifest,
+    startupConflictPolicy,
+    folderMode,
+    onDemand
+  );
+  if (manifest.writable) await persistConfig(manifest, folder, policyState);
+  const settings = policyState.existingSettings;
+  const syncIgnoreFile = settings.syncIgnoreFile;
   const engine = new SyncEngine(store, folder, {
     manifest,
-    startupConflictPolicy: policyState.resolvedPolicy ?? void 0
+    startupConflictPolicy: policyState.resolvedPolicy ?? void 0,
+    folderMode: policyState.resolvedFolderMode ?? void 0,
+    syncIgnoreFile: typeof syncIgnoreFile === "boolean" ? syncIgnoreFile : void 0,
+    trashRetention: {
+      maxAgeMs: optionalNumber(settings.trashMaxAgeMs),
+      maxBytes: optionalNumber(settings.trashMaxBytes)
+    },
+    historyRetentionMs: optionalNumber(settings.historyRetentionMs),
+    historyMaxRevisions: optionalNumber(settings.historyMaxRevisions),
+    gcIntervalMs: optionalNumber(settings.gcIntervalMs),
+    gcGraceMs: optionalNumber(settings.gcGraceMs),
+    tombstoneRetentionMs: optionalNumber(settings.tombstoneRetentionMs),
+    settleWindowMs: optionalNumber(settings.settleWindowMs),
+    rescanIntervalMs: optionalNumber(settings.rescanIntervalMs),
+    bandwidth: parseBandwidthOptions(settings.bandwidth),
+    downloadConcurrency: optionalNumber(settings.downloadConcurrency),
+    onDemand: policyState.resolvedOnDemand ?? void 0
   });
   await engine.ready();
+  if (excluded) await engine.setSelectiveSync(excluded);
   await engine.start();
   return { engine, store, startupConflictPolicy: policyState.resolvedPolicy };
 }
@@ -69,12 +141,20 @@ async function prepareJoinPreview(folder, inviteCode, bootstrap) {
     manifest = await ManifestStore.pair(store, inviteCode, { bootstrap });
     await manifest.ready();
     drive = new Localdrive(folder);
+    const ignoreData = await drive.get(IGNORE_FILE);
+    const ignoreRules = IgnoreMatcher.parse(ignoreData ? ignoreData.toString("utf-8") : "");
+    const config = await manifest.get("__config");
+    const syncIgnoreFile = config && isConfigMetadata(config) ? config.settings?.syncIgnoreFile : void 0;
+    const ignored = (path) => isSyncIgnored(
+      path,
+      ignoreRules,
+      typeof syncIgnoreFile === "boolean" ? syncIgnoreFile : void 0
+    );
     const localHashes = /* @__PURE__ */ new Map();
     for await (const entry of drive.list("/")) {
-      if (entry.key.startsWith("/.pearsync/")) continue;
-      const data = await drive.get(entry.key);
-      if (!data) continue;
-      const hash = createHash("sha256").update(data).digest("hex");
+      if (ignored(entry.key)) continue;
+      if (!entry.value.blob) continue;
+      const { hash } = await hashStream(drive.createReadStream(entry.key));
       localHashes.set(entry.key, hash);
     }
     const localFiles = localHashes.size;
@@ -87,12 +167,15 @@ async function prepareJoinPreview(folder, inviteCode, bootstrap) {
     const fileConflictPaths = [];
     const tombstoneConflictPaths = [];
     const remoteOnlyPaths = [];
+    const remotePaths = [];
     const entries = await manifest.list();
     const seenLocal = /* @__PURE__ */ new Set();
     for (const { path, metadata } of entries) {
       if (path.startsWith("__")) continue;
+      if (ignored(path)) continue;
       if (isFileMetadata(metadata)) {
         remoteFiles += 1;
+        remotePaths.push(path);
         const localHash = localHashes.get(path);
         if (localHash === void 0) {
           remoteOnlyFiles += 1;
@@ -157,7 +240,8 @@ async function prepareJoinPreview(folder, inviteCode, bootstrap) {
         tombstoneConflicts: tombstoneConflictPaths,
         localOnly: localOnlyPaths,
         remoteOnly: remoteOnlyPaths
-      }
+      },
+      folders: listFolders(remotePaths)
     };
     return {
       folder,
@@ -175,15 +259,18 @@ async function prepareJoinPreview(folder, inviteCode, bootstrap) {
     if (drive) await drive.close();
   }
 }
-async function startEngineFromPreparedJoin(prepared, startupConflictPolicy) {
+async function startEngineFromPreparedJoin(prepared, startupConflictPolicy, folderMode, excluded, onDemand) {
   return startEngineFromManifest(
     prepared.folder,
     prepared.store,
     prepared.manifest,
-    startupConflictPolicy
+    startupConflictPolicy,
+    folderMode,
+    excluded,
+    onDemand
   );
 }
-async function startEngine(folder, mode, inviteCode, bootstrap, startupConflictPolicy) {
+async function startEngine(folder, mode, inviteCode, bootstrap, startupConflictPolicy, folderMode, excluded, onDemand) {
   await mkdir(folder, { recursive: true });
   const storePath = join(folder, ".pearsync", "corestore");
   await mkdir(storePath, { recursive: true });
@@ -194,9 +281,19 @@ async function startEngine(folder, mode, inviteCode, bootstrap, startupConflictP
   } else {
     manifest = ManifestStore.create(store, { bootstrap });
   }
-  return startEngineFromManifest(folder, store, manifest, startupConflictPolicy);
+  return startEngineFromManifest(
+    folder,
+    store,
+    manifest,
+    startupConflictPolicy,
+    folderMode,
+    excluded,
+    onDemand
+  );
 }
 export {
+  folderModes,
+  peerRoles,
   prepareJoinPreview,
   resolveFolder,
   startEngine,
@@ -1,12 +1,14 @@
 import { createHash } from "bare-crypto";
+import { cdcChunkStream, chunkStream, hashBuffer } from "./file-utils";
 const DEFAULT_BLOCK_SIZE = 64 * 1024;
+const APPEND_BATCH_BYTES = 4 * 1024 * 1024;
 class FileStore {
   store;
   _core;
   blockSize;
   constructor(store, options) {
     this.store = store;
-    this.blockSize = options?.blockSize ?? DEFAULT_BLOCK_SIZE;
+    this.blockSize = options?.blockSize ?? null;
     this._core = store.get({ name: options?.name ?? "file-data" });
   }
   get core() {
@@ -15,21 +17,69 @@ class FileStore {
   async ready() {
     await this._core.ready();
   }
-  async writeFile(data) {
-    const hash = createHash("sha256").update(data).digest("hex");
-    if (data.length === 0) {
-      return { offset: this._core.length, length: 0, size: 0, hash };
-    }
+  /**
+   * Store a file as chunks. When a chunk index is given, chunks it already knows about
+   * (from any file, version or writer) and repeats within the file are referenced instead
+   * of appended again. Without one, every chunk is appended in order.
+   */
+  async writeFile(data, chunkIndex) {
+    return this.writeStream([data], chunkIndex);
+  }
+  /**
+   * Store a file from a byte stream, like `writeFile`. New chunks are appended in batches
+   * of about `APPEND_BATCH_BYTES`, so memory stays bounded regardless of file size.
+   */
+  async writeStream(source, chunkIndex) {
+    const writerKey = this._core.key.toString("hex");
+    const fileHash = createHash("sha256");
     const chunks = [];
-    for (let i = 0; i < data.length; i += this.blockSize) {
-      chunks.push(data.subarray(i, i + this.blockSize));
+    let size = 0;
+    let offset = -1;
+    let appended = 0;
+    let batch = [];
+    let batchBytes = 0;
+    let batchRefs = [];
+    const batchByHash = /* @__PURE__ */ new Map();
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await this._core.append(batch);
+      const first = result.length - batch.length;
+      if (offset === -1) offset = first;
+      appended += batch.length;
+      batchRefs.forEach((ref, slot) => {
+        ref.index = first + slot;
+        chunkIndex?.add(ref);
+      });
+      batch = [];
+      batchBytes = 0;
+      batchRefs = [];
+      batchByHash.clear();
+    };
+    const pieces = this.blockSize === null ? cdcChunkStream(source) : chunkStream(source, this.blockSize);
+    for await (const piece of pieces) {
+      fileHash.update(piece);
+      size += piece.length;
+      const pieceHash = hashBuffer(piece);
+      const known = chunkIndex ? chunkIndex.get(pieceHash) ?? batchByHash.get(pieceHash) : null;
+      if (known) {
+        chunks.push(known);
+        continue;
+      }
+      const ref = { hash: pieceHash, size: piece.length, writerKey, index: -1 };
+      batch.push(piece);
+      batchBytes += piece.length;
+      batchRefs.push(ref);
+      batchByHash.set(pieceHash, ref);
+      chunks.push(ref);
+      if (batchBytes >= APPEND_BATCH_BYTES) await flush();
     }
-    const result = await this._core.append(chunks);
+    await flush();
     return {
-      offset: result.length - chunks.length,
-      length: chunks.length,
-      size: data.length,
-      hash
+      offset: offset === -1 ? this._core.length : offset,
+      length: appended,
+      size,
+      hash: fileHash.digest("hex"),
+      chunks
     };
   }
   async readFile(offset, length) {
@@ -46,11 +96,38 @@ class FileStore {
     }
     return Buffer.concat(blocks);
   }
+  /**
+   * Drop the local copies of the given blocks, skipping any that are already gone.
+   * Returns how many blocks and bytes were freed.
+   */
+  async clearBlocks(indices) {
+    const sorted = [...indices].sort((a, b) => a - b);
+    let blocks = 0;
+    let bytes = 0;
+    let runStart = -1;
+    let runEnd = -1;
+    for (const index of sorted) {
+      if (index >= this._core.length || !await this._core.has(index)) continue;
+      const block = await this._core.get(index, { wait: false });
+      bytes += block?.length ?? 0;
+      blocks += 1;
+      if (index === runEnd) {
+        runEnd += 1;
+        continue;
+      }
+      if (runStart !== -1) await this._core.clear(runStart, runEnd);
+      runStart = index;
+      runEnd = index + 1;
+    }
+    if (runStart !== -1) await this._core.clear(runStart, runEnd);
+    return { blocks, bytes };
+  }
   async close() {
     await this._core.close();
   }
 }
 export {
+  DEFAULT_BLOCK_SIZE,
   FileStore
 };
 //# sourceMappingURL=file-store.js.map
@@ -1,5 +1,5 @@
 import { createHash } from "bare-crypto";
-import { readFile } from "bare-fs/promises";
+import { createReadStream } from "bare-fs";
 const BLOCK_SIZE = 64 * 1024;
 function chunkBuffer(data, blockSize = BLOCK_SIZE) {
   const chunks = [];
@@ -8,9 +8,79 @@ function chunkBuffer(data, blockSize = BLOCK_SIZE) {
   }
   return chunks;
 }
+async function* chunkStream(source, blockSize = BLOCK_SIZE) {
+  yield* splitStream(source, blockSize, (data) => Math.min(blockSize, data.length));
+}
+const CDC_MIN_SIZE = 16 * 1024;
+const CDC_AVG_SIZE = 64 * 1024;
+const CDC_MAX_SIZE = 256 * 1024;
+const CDC_MASK_SMALL = 4294950912 >>> 0;
+const CDC_MASK_LARGE = 4294705152 >>> 0;
+const GEAR = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = createHash("sha256").update(`pearsync-gear-${i}`).digest().readUInt32BE(0);
+  }
+  return table;
+})();
+function cdcCutPoint(data, start) {
+  const remaining = data.length - start;
+  if (remaining <= CDC_MIN_SIZE) return remaining;
+  const end = Math.min(remaining, CDC_MAX_SIZE);
+  const normal = Math.min(remaining, CDC_AVG_SIZE);
+  let fp = 0;
+  let i = CDC_MIN_SIZE;
+  for (; i < normal; i++) {
+    fp = (fp << 1) + GEAR[data[start + i]] >>> 0;
+    if ((fp & CDC_MASK_SMALL) === 0) return i + 1;
+  }
+  for (; i < end; i++) {
+    fp = (fp << 1) + GEAR[data[start + i]] >>> 0;
+    if ((fp & CDC_MASK_LARGE) === 0) return i + 1;
+  }
+  return end;
+}
+function cdcChunkBuffer(data) {
+  const chunks = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const length = cdcCutPoint(data, offset);
+    chunks.push(data.subarray(offset, offset + length));
+    offset += length;
+  }
+  return chunks;
+}
+async function* cdcChunkStream(source) {
+  yield* splitStream(source, CDC_MAX_SIZE, (data) => cdcCutPoint(data, 0));
+}
+async function* splitStream(source, window, cut) {
+  let pending = Buffer.alloc(0);
+  for await (const data of source) {
+    pending = pending.length === 0 ? data : Buffer.concat([pending, data]);
+    while (pending.length >= window) {
+      const length = cut(pending);
+      yield pending.subarray(0, length);
+      pending = pending.subarray(length);
+    }
+  }
+  while (pending.length > 0) {
+    const length = cut(pending);
+    yield pending.subarray(0, length);
+    pending = pending.subarray(length);
+  }
+}
+async function hashStream(source) {
+  const hasher = createHash("sha256");
+  let size = 0;
+  for await (const data of source) {
+    hasher.update(data);
+    size += data.length;
+  }
+  return { hash: hasher.digest("hex"), size };
+}
 async function hashFile(filePath) {
-  const data = await readFile(filePath);
-  return createHash("sha256").update(data).digest("hex");
+  const { hash } = await hashStream(createReadStream(filePath));
+  return hash;
 }
 function hashBuffer(data) {
   return createHash("sha256").update(data).digest("hex");
@@ -25,10 +95,17 @@ function normalizePath(p) {
   return `/${p.replace(/\\/g, "/").replace(/^\/+/, "")}`;
 }
 export {
+  CDC_AVG_SIZE,
+  CDC_MAX_SIZE,
+  CDC_MIN_SIZE,
+  cdcChunkBuffer,
+  cdcChunkStream,
   chunkBuffer,
+  chunkStream,
   formatBytes,
   hashBuffer,
   hashFile,
+  hashStream,
   normalizePath
 };
 //# sourceMappingURL=file-utils.js.map
@@ -0,0 +1,110 @@
+import { isAbsolute, relative, sep } from "bare-path";
+import { EngineBridge } from "./engine-bridge.js";
+import { folderIdFor, loadFolders, saveFolders } from "./last-folder-config.js";
+class FolderRegistry {
+  sessions = /* @__PURE__ */ new Map();
+  /** Folders remembered in the user config, including ones that are not running */
+  saved;
+  configPath;
+  constructor(configPath) {
+    this.configPath = configPath;
+    this.saved = loadFolders(configPath);
+  }
+  list() {
+    return [...this.sessions.values()];
+  }
+  get(id) {
+    return this.sessions.get(id) ?? null;
+  }
+  /** The first folder, which the unscoped `/api/...` routes act on. */
+  primary() {
+    return this.sessions.values().next().value ?? null;
+  }
+  has(folder) {
+    return this.sessions.has(folderIdFor(folder));
+  }
+  /** A running folder that `folder` is inside of or contains, if any. */
+  overlapping(folder) {
+    for (const session of this.sessions.values()) {
+      if (session.folder === folder) continue;
+      if (contains(session.folder, folder) || contains(folder, session.folder)) {
+        return session.folder;
+      }
+    }
+    return null;
+  }
+  /** Folders remembered across restarts, whether or not they started. */
+  savedFolders() {
+    return [...this.saved];
+  }
+  /**
+   * Register a started engine. With `persist`, the folder is remembered across restarts.
+   * Throws if the folder overlaps a running one (see {@link overlapping}); callers check
+   * first so they do not start an engine for nothing.
+   */
+  add(folder, started, persist = true) {
+    const other = this.overlapping(folder);
+    if (other) throw new Error(`Folder overlaps ${other}, which is already syncing`);
+    const id = folderIdFor(folder);
+    const bridge = new EngineBridge(started.engine, folder, started.startupConflictPolicy, id);
+    bridge.attach();
+    const session = {
+      id,
+      folder,
+      engine: started.engine,
+      store: started.store,
+      bridge
+    };
+    this.sessions.set(id, session);
+    if (persist && !this.saved.some((entry) => entry.id === id)) {
+      this.saved.push({ id, folder });
+      this.save();
+    }
+    return session;
+  }
+  /**
+   * Stop syncing a folder and forget it, also when it is only remembered because it failed
+   * to start. Its files and sync state stay on disk.
+   */
+  async remove(id) {
+    const session = this.sessions.get(id);
+    const saved = this.saved.some((entry) => entry.id === id);
+    if (!session && !saved) return false;
+    if (saved) {
+      this.saved = this.saved.filter((entry) => entry.id !== id);
+      this.save();
+    }
+    if (session) {
+      this.sessions.delete(id);
+      await closeSession(session);
+    }
+    return true;
+  }
+  async closeAll() {
+    const sessions = this.list();
+    this.sessions.clear();
+    for (const session of sessions) await closeSession(session);
+  }
+  info(session) {
+    return { id: session.id, ...session.bridge.getStatus() };
+  }
+  save() {
+    saveFolders(this.saved, this.configPath);
+  }
+}
+function contains(parent, folder) {
+  const rel = relative(parent, folder);
+  return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+async function closeSession(session) {
+  session.bridge.detach();
+  const manifest = session.engine.getManifest();
+  await session.engine.stop();
+  await session.engine.close();
+  await manifest.close();
+  await session.store.close();
+}
+export {
+  FolderRegistry
+};
+//# sourceMappingURL=folder-registry.js.map
@@ -0,0 +1,69 @@
+import { DEFAULT_BLOCK_SIZE } from "./file-store";
+import { isFileMetadata } from "./manifest-store";
+function partitionRevisions(current, revisions, now, retentionMs, maxRevisions) {
+  const byPath = /* @__PURE__ */ new Map();
+  for (const revision of revisions) {
+    const history = byPath.get(revision.path) ?? [];
+    history.push(revision);
+    byPath.set(revision.path, history);
+  }
+  const kept = [];
+  const expired = [];
+  for (const [path, history] of byPath) {
+    history.sort((a, b) => b.entry.seq - a.entry.seq || b.entry.mtime - a.entry.mtime);
+    const head = current.get(path);
+    let superseded = 0;
+    for (let i = 0; i < history.length; i++) {
+      const entry = history[i].entry;
+      if (head && head.seq === entry.seq && head.writerKey === entry.writerKey) {
+        kept.push(history[i]);
+        continue;
+      }
+      superseded++;
+      const next = history[i - 1];
+      const tooOld = next && now - (next.publishedAt ?? next.entry.mtime) >= retentionMs;
+      if (tooOld || superseded > maxRevisions) expired.push(history[i]);
+      else kept.push(history[i]);
+    }
+  }
+  return { kept, expired };
+}
+function retainedFiles(current, revisions, now, retentionMs, maxRevisions = Number.POSITIVE_INFINITY) {
+  const retained = [];
+  for (const entry of current.values()) {
+    if (isFileMetadata(entry)) retained.push(entry);
+  }
+  const { kept } = partitionRevisions(current, revisions, now, retentionMs, maxRevisions);
+  for (const { path, entry } of kept) {
+    const head = current.get(path);
+    if (head && head.seq === entry.seq && head.writerKey === entry.writerKey) continue;
+    if (isFileMetadata(entry)) retained.push(entry);
+  }
+  return retained;
+}
+function expiredRevisions(current, revisions, now, retentionMs, maxRevisions = Number.POSITIVE_INFINITY) {
+  return partitionRevisions(current, revisions, now, retentionMs, maxRevisions).expired;
+}
+function referencedBlocks(writerKey, files) {
+  const blocks = /* @__PURE__ */ new Map();
+  for (const file of files) {
+    if (file.chunks) {
+      for (const chunk of file.chunks) {
+        if (chunk.writerKey === writerKey) blocks.set(chunk.index, chunk.size);
+      }
+      continue;
+    }
+    if (!file.blocks || file.writerKey !== writerKey) continue;
+    for (let i = 0; i < file.blocks.length; i++) {
+      const size = Math.min(DEFAULT_BLOCK_SIZE, file.size - DEFAULT_BLOCK_SIZE * i);
+      blocks.set(file.blocks.offset + i, size);
+    }
+  }
+  return blocks;
+}
+export {
+  expiredRevisions,
+  referencedBlocks,
+  retainedFiles
+};
+//# sourceMappingURL=gc.js.map
@@ -0,0 +1,128 @@
+import { randomBytes } from "bare-crypto";
+import { createReadStream } from "bare-fs";
+import { mkdir, readFile, rename, stat, writeFile } from "bare-fs/promises";
+import { dirname, join } from "bare-path";
+import { hashStream } from "./file-utils";
+const RACY_WINDOW_MS = 2e3;
+const SAVE_DELAY_MS = 1e3;
+function sameStat(a, b) {
+  return a.size === b.size && a.mtimeMs === b.mtimeMs && a.ctimeMs === b.ctimeMs && a.ino === b.ino;
+}
+class HashCache {
+  entries = /* @__PURE__ */ new Map();
+  filePath;
+  saveTimer = null;
+  writeQueue = Promise.resolve();
+  constructor(syncFolder) {
+    this.filePath = join(syncFolder, ".pearsync", "hash-cache.json");
+  }
+  /** Load the cache; a missing or unreadable file starts an empty one. */
+  async load() {
+    this.entries = /* @__PURE__ */ new Map();
+    let raw;
+    try {
+      raw = JSON.parse(await readFile(this.filePath, "utf-8"));
+    } catch (err) {
+      if (err instanceof SyntaxError || err.code === "ENOENT") return;
+      throw err;
+    }
+    if (typeof raw !== "object" || raw === null) return;
+    for (const [path, value] of Object.entries(raw)) {
+      const entry = value;
+      if (typeof entry?.size === "number" && typeof entry.mtimeMs === "number" && typeof entry.ctimeMs === "number" && typeof entry.ino === "number" && typeof entry.hash === "string") {
+        this.entries.set(path, {
+          size: entry.size,
+          mtimeMs: entry.mtimeMs,
+          ctimeMs: entry.ctimeMs,
+          ino: entry.ino,
+          hash: entry.hash
+        });
+      }
+    }
+  }
+  /**
+   * Hash the file at `absPath` (tracked as `path`), reusing the cached hash while its stat
+   * is unchanged. Returns null if there is no file.
+   */
+  async hash(path, absPath) {
+    const before = await this.stat(absPath);
+    if (!before) {
+      this.forget(path);
+      return null;
+    }
+    const cached = this.entries.get(path);
+    if (cached && sameStat(cached, before)) {
+      return { hash: cached.hash, size: cached.size };
+    }
+    const startedAt = Date.now();
+    const result = await hashStream(createReadStream(absPath));
+    const after = await this.stat(absPath);
+    const unchanged = after !== null && after.size === result.size && sameStat(after, before);
+    if (unchanged && startedAt - before.mtimeMs >= RACY_WINDOW_MS) {
+      this.entries.set(path, { ...before, hash: result.hash });
+    } else {
+      this.entries.delete(path);
+    }
+    this.scheduleSave();
+    return result;
+  }
+  forget(path) {
+    if (this.entries.delete(path)) this.scheduleSave();
+  }
+  /** Drop every cached hash so each file is read again. */
+  clear() {
+    this.entries.clear();
+    this.scheduleSave();
+  }
+  get size() {
+    return this.entries.size;
+  }
+  /** Write pending changes now. */
+  async flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.persist();
+    }
+    await this.writeQueue;
+  }
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.persist().catch(() => {
+      });
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+  /** Atomic write of the cache, serialized via queue. */
+  persist() {
+    this.writeQueue = this.writeQueue.catch(() => {
+    }).then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${randomBytes(4).toString("hex")}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+      await rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+  async stat(absPath) {
+    try {
+      const stats = await stat(absPath);
+      if (!stats.isFile()) return null;
+      return {
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+        ctimeMs: stats.ctimeMs,
+        ino: stats.ino
+      };
+    } catch (err) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+}
+export {
+  HashCache
+};
+//# sourceMappingURL=hash-cache.js.map
@@ -0,0 +1,143 @@
+import { isPlaceholder } from "./placeholders";
+const IGNORE_FILE = "/.pearsyncignore";
+function escapeRegex(ch) {
+  return /[.+^${}()|[\]\\]/.test(ch) ? `\\${ch}` : ch;
+}
+function globToRegex(glob) {
+  let out = "";
+  let i = 0;
+  while (i < glob.length) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        if (atSegmentStart && glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 3;
+          continue;
+        }
+        if (atSegmentStart && i + 2 === glob.length) {
+          out += ".*";
+          i += 2;
+          continue;
+        }
+        out += "[^/]*";
+        i += 2;
+        continue;
+      }
+      out += "[^/]*";
+      i += 1;
+    } else if (ch === "?") {
+      out += "[^/]";
+      i += 1;
+    } else if (ch === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        out += "\\[";
+        i += 1;
+        continue;
+      }
+      let body = glob.slice(i + 1, close);
+      if (body.startsWith("!")) body = `^${body.slice(1)}`;
+      out += `[${body.replace(/\\/g, "\\\\")}]`;
+      i = close + 1;
+    } else if (ch === "\\" && i + 1 < glob.length) {
+      out += escapeRegex(glob[i + 1]);
+      i += 2;
+    } else {
+      out += escapeRegex(ch);
+      i += 1;
+    }
+  }
+  return out;
+}
+function parseRule(line) {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (pattern === "" || pattern.startsWith("#")) return null;
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, "");
+  }
+  if (pattern === "") return null;
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+  const body = globToRegex(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+  return { negate, dirOnly, regex };
+}
+class IgnoreMatcher {
+  rules;
+  constructor(rules) {
+    this.rules = rules;
+  }
+  static parse(source) {
+    const rules = [];
+    for (const line of source.split(/\r?\n/)) {
+      const rule = parseRule(line);
+      if (rule) rules.push(rule);
+    }
+    return new IgnoreMatcher(rules);
+  }
+  static empty() {
+    return new IgnoreMatcher([]);
+  }
+  get size() {
+    return this.rules.length;
+  }
+  /** Check a normalized file path (e.g. "/src/app.ts"). */
+  ignores(path) {
+    if (this.rules.length === 0) return false;
+    const segments = path.replace(/^\/+/, "").split("/");
+    for (let i = 1; i < segments.length; i++) {
+      if (this.match(segments.slice(0, i).join("/"), true)) return true;
+    }
+    return this.match(segments.join("/"), false);
+  }
+  match(relativePath, isDir) {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.regex.test(relativePath)) ignored = !rule.negate;
+    }
+    return ignored;
+  }
+}
+const TEMP_FILE_PATTERNS = [
+  "*.tmp",
+  "*.swp",
+  "*.swx",
+  "*~",
+  ".#*",
+  ".~lock.*#",
+  "~$*",
+  "*.crdownload",
+  "*.part",
+  ".goutputstream-*"
+];
+const tempFiles = IgnoreMatcher.parse(TEMP_FILE_PATTERNS.join("\n"));
+function isTempFile(path) {
+  return tempFiles.ignores(path);
+}
+function isSyncIgnored(path, rules, syncIgnoreFile, excluded) {
+  if (path.startsWith("/.pearsync/")) return true;
+  if (isTempFile(path) || isPlaceholder(path)) return true;
+  if (path === IGNORE_FILE) return syncIgnoreFile === false;
+  if (excluded?.(path)) return true;
+  return rules.ignores(path);
+}
+export {
+  IGNORE_FILE,
+  IgnoreMatcher,
+  TEMP_FILE_PATTERNS,
+  isSyncIgnored,
+  isTempFile
+};
+//# sourceMappingURL=ignore-rules.js.map
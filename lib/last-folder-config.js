@@ -1,24 +1,41 @@
+import { createHash } from "bare-crypto";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "bare-fs";
 import { homedir } from "bare-os";
 import { dirname, join } from "bare-path";
 const CONFIG_PATH = join(homedir(), ".pearsync", "config.json");
-function saveLastFolder(folder) {
-  const dir = dirname(CONFIG_PATH);
-  mkdirSync(dir, { recursive: true });
-  writeFileSync(CONFIG_PATH, JSON.stringify({ folder }), "utf-8");
+function folderIdFor(folder) {
+  return createHash("sha256").update(folder).digest("hex").slice(0, 8);
 }
-function loadLastFolder() {
+function saveFolders(folders, configPath = CONFIG_PATH) {
+  mkdirSync(dirname(configPath), { recursive: true });
+  writeFileSync(configPath, JSON.stringify({ folders }), "utf-8");
+}
+function loadFolders(configPath = CONFIG_PATH) {
+  let data;
   try {
-    if (!existsSync(CONFIG_PATH)) return null;
-    const data = JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
-    if (typeof data?.folder === "string" && data.folder) return data.folder;
-    return null;
+    if (!existsSync(configPath)) return [];
+    data = JSON.parse(readFileSync(configPath, "utf-8"));
   } catch {
-    return null;
+    return [];
+  }
+  if (typeof data !== "object" || data === null) return [];
+  const raw = data;
+  if (typeof raw.folder === "string" && raw.folder && !Array.isArray(raw.folders)) {
+    const folders = [{ id: folderIdFor(raw.folder), folder: raw.folder }];
+    try {
+      saveFolders(folders, configPath);
+    } catch {
+    }
+    return folders;
   }
+  if (!Array.isArray(raw.folders)) return [];
+  return raw.folders.filter(
+    (entry) => typeof entry?.id === "string" && typeof entry?.folder === "string" && entry.folder !== ""
+  );
 }
 export {
-  loadLastFolder,
-  saveLastFolder
+  folderIdFor,
+  loadFolders,
+  saveFolders
 };
 //# sourceMappingURL=last-folder-config.js.map
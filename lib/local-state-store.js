@@ -1,30 +1,58 @@
-import { mkdir, readFile, rename, writeFile } from "bare-fs/promises";
-import { dirname, join } from "bare-path";
+import { mkdir, open, readFile, rename, rm } from "bare-fs/promises";
+import { join } from "bare-path";
+const LEGACY_CHECKPOINT_KEY = "__manifestCheckpoint";
+const COMPACT_MIN_RECORDS = 1e3;
+const BATCH_MAX_RECORDS = 500;
 let persistCounter = 0;
 class LocalStateStore {
   state = /* @__PURE__ */ new Map();
-  filePath;
+  /** Tracked paths by `lastSyncedHash`, so rename detection need not scan every path */
+  byHash = /* @__PURE__ */ new Map();
+  checkpoint = null;
+  /** Paths whose remote changes up to the checkpoint are not applied yet */
+  unapplied = [];
+  snapshotPath;
   backupPath;
+  journalPath;
+  legacyPath;
+  legacyBackupPath;
+  pending = [];
+  journalRecords = 0;
+  batchDepth = 0;
   writeQueue = Promise.resolve();
   constructor(syncFolder) {
-    this.filePath = join(syncFolder, ".pearsync", "state.json");
-    this.backupPath = join(syncFolder, ".pearsync", "state.json.bak");
+    const dir = join(syncFolder, ".pearsync");
+    this.snapshotPath = join(dir, "state.snapshot.json");
+    this.backupPath = join(dir, "state.snapshot.json.bak");
+    this.journalPath = join(dir, "state.journal");
+    this.legacyPath = join(dir, "state.json");
+    this.legacyBackupPath = join(dir, "state.json.bak");
   }
-  /** Load state from disk. Creates the file if it doesn't exist. */
+  /**
+   * Load the snapshot (or its backup) and replay the journal. Without a snapshot, state is
+   * migrated from a legacy state.json (or its backup). Creates the files if none exist.
+   */
   async load() {
-    const primary = await this.tryLoadFromPath(this.filePath);
-    if (primary) {
-      this.state = primary;
-      return;
+    this.pending = [];
+    const snapshot = await this.tryLoad(this.snapshotPath, (data) => this.parseSnapshot(data)) ?? await this.tryLoad(this.backupPath, (data) => this.parseSnapshot(data));
+    let migrated = false;
+    if (snapshot) {
+      ({ state: this.state, checkpoint: this.checkpoint, unapplied: this.unapplied } = snapshot);
+    } else {
+      const legacy = await this.tryLoad(this.legacyPath, (data) => this.parseLegacy(data)) ?? await this.tryLoad(this.legacyBackupPath, (data) => this.parseLegacy(data));
+      this.state = legacy?.state ?? /* @__PURE__ */ new Map();
+      this.checkpoint = legacy?.checkpoint ?? null;
+      this.unapplied = [];
+      migrated = legacy !== null;
     }
-    const backup = await this.tryLoadFromPath(this.backupPath);
-    if (backup) {
-      this.state = backup;
-      await this.persist();
-      return;
+    this.byHash = /* @__PURE__ */ new Map();
+    for (const [path, state] of this.state) this.indexHash(path, state.lastSyncedHash);
+    await this.replayJournal();
+    await this.compact();
+    if (migrated) {
+      await rm(this.legacyPath, { force: true });
+      await rm(this.legacyBackupPath, { force: true });
     }
-    this.state = /* @__PURE__ */ new Map();
-    await this.persist();
   }
   /** Get the tracked state for a file path. */
   get(path) {
@@ -32,13 +60,13 @@ class LocalStateStore {
   }
   /** Update state for a file path and persist to disk. */
   async set(path, state) {
-    this.state.set(path, state);
-    await this.persist();
+    this.setState(path, state);
+    await this.append({ op: "set", path, state });
   }
   /** Remove state for a file path and persist to disk. */
   async remove(path) {
-    this.state.delete(path);
-    await this.persist();
+    this.deleteState(path);
+    await this.append({ op: "remove", path });
   }
   /** Check if a path is tracked. */
   has(path) {
@@ -48,27 +76,172 @@ class LocalStateStore {
   paths() {
     return [...this.state.keys()];
   }
-  /** Atomic write: write to uniquely-named .tmp, then rename over the real file. Serialized via queue. */
-  persist() {
-    this.writeQueue = this.writeQueue.then(() => this.doPersist());
-    return this.writeQueue;
+  /** Tracked paths whose last synced content has the given hash. */
+  pathsWithHash(hash) {
+    return [...this.byHash.get(hash) ?? []];
+  }
+  /** The manifest position up to which remote changes have been processed. */
+  getCheckpoint() {
+    return this.checkpoint;
+  }
+  /** Paths whose remote changes up to the checkpoint failed to apply, to retry next pass. */
+  getUnapplied() {
+    return this.unapplied;
+  }
+  /**
+   * Record the manifest position up to which remote changes have been processed, except
+   * for the `unapplied` paths.
+   */
+  async setCheckpoint(checkpoint, unapplied = []) {
+    this.checkpoint = checkpoint;
+    this.unapplied = unapplied;
+    await this.append({
+      op: "checkpoint",
+      checkpoint,
+      ...unapplied.length > 0 ? { unapplied } : {}
+    });
+  }
+  /**
+   * Run `fn`, journaling the changes it makes with one fsync when it finishes instead of one
+   * per change. Changes made inside resolve before they are on disk, so a crash can lose the
+   * last few hundred; they must be safe to redo, as a rescan or a repeated remote pass does.
+   */
+  async batch(fn) {
+    this.batchDepth++;
+    try {
+      return await fn();
+    } finally {
+      if (--this.batchDepth === 0) await this.flush();
+    }
+  }
+  /** Write the current state as a new snapshot and empty the journal. */
+  compact() {
+    return this.enqueue(async () => {
+      await this.writeJournal();
+      await this.writeSnapshot();
+    });
+  }
+  setState(path, state) {
+    this.deleteState(path);
+    this.state.set(path, state);
+    this.indexHash(path, state.lastSyncedHash);
+  }
+  deleteState(path) {
+    const previous = this.state.get(path);
+    if (!previous) return;
+    this.state.delete(path);
+    const paths = this.byHash.get(previous.lastSyncedHash);
+    paths?.delete(path);
+    if (paths?.size === 0) this.byHash.delete(previous.lastSyncedHash);
   }
-  async doPersist() {
-    const dir = dirname(this.filePath);
-    await mkdir(dir, { recursive: true });
-    const serialized = JSON.stringify(this.toObject(), null, 2);
+  indexHash(path, hash) {
+    let paths = this.byHash.get(hash);
+    if (!paths) {
+      paths = /* @__PURE__ */ new Set();
+      this.byHash.set(hash, paths);
+    }
+    paths.add(path);
+  }
+  append(record) {
+    this.pending.push(record);
+    if (this.batchDepth > 0 && this.pending.length < BATCH_MAX_RECORDS) return Promise.resolve();
+    return this.flush();
+  }
+  flush() {
+    return this.enqueue(async () => {
+      await this.writeJournal();
+      if (this.journalRecords > Math.max(COMPACT_MIN_RECORDS, this.state.size)) {
+        await this.writeSnapshot();
+      }
+    });
+  }
+  /** Serialize writes; a failed write rejects its callers without blocking later ones. */
+  enqueue(task) {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  /** Append every pending record in one write and fsync it. */
+  async writeJournal() {
+    if (this.pending.length === 0) return;
+    const records = this.pending;
+    this.pending = [];
+    await mkdir(join(this.journalPath, ".."), { recursive: true });
+    const handle = await open(this.journalPath, "a");
+    try {
+      await handle.write(records.map((record) => `${JSON.stringify(record)}
+`).join(""));
+      await handle.datasync();
+    } finally {
+      await handle.close();
+    }
+    this.journalRecords += records.length;
+  }
+  /**
+   * Atomically replace the snapshot and its backup, then truncate the journal. A crash
+   * before the truncate only replays records the snapshot already contains.
+   */
+  async writeSnapshot() {
+    await mkdir(join(this.snapshotPath, ".."), { recursive: true });
+    const files = {};
+    for (const [path, state] of this.state) files[path] = state;
+    const serialized = JSON.stringify({
+      version: 1,
+      files,
+      checkpoint: this.checkpoint,
+      ...this.unapplied.length > 0 ? { unapplied: this.unapplied } : {}
+    });
     const id = ++persistCounter;
-    const tmpPath = `${this.filePath}.${id}.tmp`;
-    await writeFile(tmpPath, serialized);
-    await rename(tmpPath, this.filePath);
-    const tmpBackupPath = `${this.backupPath}.${id}.tmp`;
-    await writeFile(tmpBackupPath, serialized);
-    await rename(tmpBackupPath, this.backupPath);
-  }
-  async tryLoadFromPath(path) {
+    for (const path of [this.snapshotPath, this.backupPath]) {
+      const tmpPath = `${path}.${id}.tmp`;
+      const handle = await open(tmpPath, "w");
+      try {
+        await handle.writeFile(serialized);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await rename(tmpPath, path);
+    }
+    const journal = await open(this.journalPath, "w");
+    await journal.close();
+    this.journalRecords = 0;
+  }
+  /** Apply journal records in order, stopping at the first unreadable one. */
+  async replayJournal() {
+    let data;
+    try {
+      data = await readFile(this.journalPath, "utf-8");
+    } catch (err) {
+      if (err.code === "ENOENT") return;
+      throw err;
+    }
+    for (const line of data.split("\n")) {
+      if (line === "") continue;
+      let record;
+      try {
+        record = this.parseRecord(JSON.parse(line));
+      } catch {
+        record = null;
+      }
+      if (!record) break;
+      if (record.op === "set") this.setState(record.path, record.state);
+      else if (record.op === "remove") this.deleteState(record.path);
+      else {
+        this.checkpoint = record.checkpoint;
+        this.unapplied = record.unapplied ?? [];
+      }
+    }
+  }
+  async tryLoad(path, parse) {
     try {
       const data = await readFile(path, "utf-8");
-      return this.parseState(data);
+      return parse(data);
     } catch (err) {
       if (this.isRecoverableLoadError(err)) return null;
       throw err;
@@ -79,36 +252,91 @@ class LocalStateStore {
     if (err instanceof Error && err.name === "StateFormatError") return true;
     return err.code === "ENOENT";
   }
-  parseState(data) {
+  parseSnapshot(data) {
+    const parsed = JSON.parse(data);
+    if (!this.isObject(parsed) || parsed.version !== 1 || !this.isObject(parsed.files)) {
+      throw this.stateFormatError("Snapshot must be a version 1 object with files");
+    }
+    const state = /* @__PURE__ */ new Map();
+    for (const [path, value] of Object.entries(parsed.files)) {
+      state.set(path, this.parseFileState(path, value));
+    }
+    const unapplied = this.parseUnapplied(parsed.unapplied);
+    return {
+      state,
+      checkpoint: unapplied ? this.parseCheckpoint(parsed.checkpoint) : null,
+      unapplied: unapplied ?? []
+    };
+  }
+  /** state.json from before the journal: one object keyed by path. */
+  parseLegacy(data) {
     const parsed = JSON.parse(data);
     if (!this.isObject(parsed)) {
       throw this.stateFormatError("State file root must be an object");
     }
-    const next = /* @__PURE__ */ new Map();
+    let checkpoint = null;
+    const state = /* @__PURE__ */ new Map();
     for (const [path, value] of Object.entries(parsed)) {
-      if (!this.isObject(value)) {
-        throw this.stateFormatError(`Invalid state object for path ${path}`);
+      if (path === LEGACY_CHECKPOINT_KEY) {
+        checkpoint = this.parseCheckpoint(value);
+        continue;
       }
-      if (typeof value.lastSyncedHash !== "string" || typeof value.lastSyncedMtime !== "number" || typeof value.lastManifestHash !== "string" || typeof value.lastManifestWriterKey !== "string") {
-        throw this.stateFormatError(`Invalid state fields for path ${path}`);
+      state.set(path, this.parseFileState(path, value));
+    }
+    return { state, checkpoint, unapplied: [] };
+  }
+  parseRecord(value) {
+    if (!this.isObject(value)) return null;
+    try {
+      if (value.op === "set" && typeof value.path === "string") {
+        return { op: "set", path: value.path, state: this.parseFileState(value.path, value.state) };
       }
-      next.set(path, {
-        lastSyncedHash: value.lastSyncedHash,
-        lastSyncedMtime: value.lastSyncedMtime,
-        lastManifestHash: value.lastManifestHash,
-        lastManifestWriterKey: value.lastManifestWriterKey
-      });
+    } catch {
+      return null;
+    }
+    if (value.op === "remove" && typeof value.path === "string") {
+      return { op: "remove", path: value.path };
+    }
+    if (value.op === "checkpoint") {
+      const unapplied = this.parseUnapplied(value.unapplied);
+      return {
+        op: "checkpoint",
+        checkpoint: unapplied ? this.parseCheckpoint(value.checkpoint) : null,
+        unapplied: unapplied ?? []
+      };
+    }
+    return null;
+  }
+  parseFileState(path, value) {
+    if (!this.isObject(value)) {
+      throw this.stateFormatError(`Invalid state object for path ${path}`);
+    }
+    if (typeof value.lastSyncedHash !== "string" || typeof value.lastSyncedMtime !== "number" || typeof value.lastManifestHash !== "string" || typeof value.lastManifestWriterKey !== "string") {
+      throw this.stateFormatError(`Invalid state fields for path ${path}`);
+    }
+    return {
+      lastSyncedHash: value.lastSyncedHash,
+      lastSyncedMtime: value.lastSyncedMtime,
+      lastManifestHash: value.lastManifestHash,
+      lastManifestWriterKey: value.lastManifestWriterKey
+    };
+  }
+  /** A malformed checkpoint only costs one full manifest scan. */
+  parseCheckpoint(value) {
+    if (this.isObject(value) && typeof value.length === "number" && typeof value.treeHash === "string") {
+      return { length: value.length, treeHash: value.treeHash };
     }
-    return next;
+    return null;
+  }
+  /** Null when malformed; the checkpoint is then dropped too, costing one full manifest scan. */
+  parseUnapplied(value) {
+    if (value === void 0) return [];
+    if (Array.isArray(value) && value.every((path) => typeof path === "string")) return value;
+    return null;
   }
   isObject(value) {
     return typeof value === "object" && value !== null;
   }
-  toObject() {
-    const obj = {};
-    for (const [k, v] of this.state) obj[k] = v;
-    return obj;
-  }
   stateFormatError(message) {
     const err = new Error(message);
     err.name = "StateFormatError";
@@ -1,5 +1,6 @@
 import { EventEmitter } from "bare-events";
 import Autopass from "autopass";
+import { encode as encodeCommand } from "autopass/spec/hyperdispatch/index.js";
 function isTombstone(value) {
   return value.kind === "tombstone" && value.deleted === true;
 }
@@ -12,6 +13,9 @@ function isPeerMetadata(value) {
 function isConfigMetadata(value) {
   return value.kind === "config";
 }
+function isRevisionMetadata(value) {
+  return value.kind === "revision";
+}
 function isRecord(value) {
   return typeof value === "object" && value !== null;
 }
@@ -29,7 +33,98 @@ function assertNullableString(value, label) {
   if (value === null) return null;
   return assertString(value, label);
 }
+function assertStringArray(path, value, label) {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid manifest value for ${path}: ${label} must be array`);
+  }
+  return value.map((item) => assertString(item, `${label}[]`));
+}
+const FILE_FORMAT_VERSION = 2;
+function isSingleRun(writerKey, chunks) {
+  return chunks.every(
+    (chunk, i) => chunk.writerKey === writerKey && chunk.index === chunks[0].index + i
+  );
+}
+function encodeChunks(writerKey, chunks) {
+  const writers = [];
+  const runs = [];
+  for (const chunk of chunks) {
+    let writer = writers.indexOf(chunk.writerKey);
+    if (writer === -1) writer = writers.push(chunk.writerKey) - 1;
+    const last = runs[runs.length - 1];
+    if (last && last[0] === writer && last[1] + last[2] === chunk.index) {
+      last[2] += 1;
+    } else {
+      runs.push([writer, chunk.index, 1]);
+    }
+  }
+  let blocks;
+  if (isSingleRun(writerKey, chunks)) {
+    blocks = { offset: chunks[0]?.index ?? 0, length: chunks.length };
+  }
+  return {
+    v: FILE_FORMAT_VERSION,
+    blocks,
+    blockHashes: chunks.map((chunk) => chunk.hash),
+    chunkSizes: chunks.map((chunk) => chunk.size),
+    chunkWriters: writers,
+    chunkRuns: runs
+  };
+}
+function decodeChunks(path, raw) {
+  const hashes = assertStringArray(path, raw.blockHashes, "blockHashes");
+  const writers = assertStringArray(path, raw.chunkWriters, "chunkWriters");
+  if (!Array.isArray(raw.chunkSizes) || !Array.isArray(raw.chunkRuns)) {
+    throw new Error(`Invalid manifest value for ${path}: chunkSizes and chunkRuns must be arrays`);
+  }
+  const sizes = raw.chunkSizes.map((size) => assertNumber(size, "chunkSizes[]"));
+  const chunks = [];
+  for (const run of raw.chunkRuns) {
+    if (!Array.isArray(run) || run.length !== 3) {
+      throw new Error(`Invalid manifest value for ${path}: chunk run must be a triple`);
+    }
+    const [writer, offset, length] = run.map((n) => assertNumber(n, "chunkRuns[]"));
+    const writerKey = writers[writer];
+    if (writerKey === void 0) {
+      throw new Error(`Invalid manifest value for ${path}: unknown chunk writer ${writer}`);
+    }
+    if (chunks.length + length > hashes.length) {
+      throw new Error(`Invalid manifest value for ${path}: more chunk runs than hashes`);
+    }
+    for (let i = 0; i < length; i++) {
+      const n = chunks.length;
+      chunks.push({ hash: hashes[n], size: sizes[n], writerKey, index: offset + i });
+    }
+  }
+  if (chunks.length !== hashes.length || sizes.length !== hashes.length) {
+    throw new Error(`Invalid manifest value for ${path}: chunk runs, hashes and sizes differ`);
+  }
+  return chunks;
+}
+function encodeManifestValue(value) {
+  return JSON.stringify(storedValue(value));
+}
+function storedValue(value) {
+  if (isRevisionMetadata(value)) return { ...value, entry: storedValue(value.entry) };
+  if (!isFileMetadata(value) || !value.chunks) return value;
+  const { chunks, ...rest } = value;
+  return { ...rest, ...encodeChunks(value.writerKey, chunks) };
+}
+const REVISION_PREFIX = "__rev:";
+function revisionKey(path, entry) {
+  return `${REVISION_PREFIX}${path}:${String(entry.seq).padStart(10, "0")}:${entry.writerKey}`;
+}
 function assertPathCompatibility(path, metadata) {
+  if (path.startsWith(REVISION_PREFIX)) {
+    if (!isRevisionMetadata(metadata)) {
+      throw new Error(`Invalid manifest path/type pair: ${path} requires revision metadata`);
+    }
+    const expectedPath = revisionKey(metadata.path, metadata.entry);
+    if (path !== expectedPath) {
+      throw new Error(`Invalid revision key: expected ${expectedPath}, got ${path}`);
+    }
+    return;
+  }
   if (path.startsWith("__peer:")) {
     if (!isPeerMetadata(metadata)) {
       throw new Error(`Invalid manifest path/type pair: ${path} requires peer metadata`);
@@ -63,23 +158,38 @@ function parseManifestValue(path, raw) {
   const kind = assertString(raw.kind, "kind");
   let value;
   if (kind === "file") {
-    const blocksRaw = raw.blocks;
-    if (!isRecord(blocksRaw)) {
-      throw new Error(`Invalid manifest value for ${path}: blocks must be object`);
-    }
-    value = {
+    const file = {
       kind: "file",
       size: assertNumber(raw.size, "size"),
       mtime: assertNumber(raw.mtime, "mtime"),
       hash: assertString(raw.hash, "hash"),
       baseHash: assertNullableString(raw.baseHash, "baseHash"),
       seq: assertNumber(raw.seq, "seq"),
-      writerKey: assertString(raw.writerKey, "writerKey"),
-      blocks: {
+      writerKey: assertString(raw.writerKey, "writerKey")
+    };
+    if (raw.v !== void 0) {
+      const version = assertNumber(raw.v, "v");
+      if (version !== FILE_FORMAT_VERSION) {
+        throw new Error(`Invalid manifest value for ${path}: unsupported file format ${version}`);
+      }
+      file.chunks = decodeChunks(path, raw);
+    } else {
+      const blocksRaw = raw.blocks;
+      if (!isRecord(blocksRaw)) {
+        throw new Error(`Invalid manifest value for ${path}: blocks must be object`);
+      }
+      file.blocks = {
         offset: assertNumber(blocksRaw.offset, "blocks.offset"),
         length: assertNumber(blocksRaw.length, "blocks.length")
+      };
+      if (raw.blockHashes !== void 0) {
+        file.blockHashes = assertStringArray(path, raw.blockHashes, "blockHashes");
       }
-    };
+    }
+    if (raw.movedFrom !== void 0) {
+      file.movedFrom = assertString(raw.movedFrom, "movedFrom");
+    }
+    value = file;
   } else if (kind === "tombstone") {
     if (raw.deleted !== true) {
       throw new Error(`Invalid manifest value for ${path}: tombstone.deleted must be true`);
@@ -97,7 +207,10 @@ function parseManifestValue(path, raw) {
       kind: "peer",
       writerKey: assertString(raw.writerKey, "writerKey"),
       name: assertString(raw.name, "name"),
-      updatedAt: assertNumber(raw.updatedAt, "updatedAt")
+      updatedAt: assertNumber(raw.updatedAt, "updatedAt"),
+      watermark: raw.watermark === void 0 ? void 0 : assertNumber(raw.watermark, "watermark"),
+      swarmKey: raw.swarmKey === void 0 ? void 0 : assertString(raw.swarmKey, "swarmKey"),
+      fileFormat: raw.fileFormat === void 0 ? void 0 : assertNumber(raw.fileFormat, "fileFormat")
     };
   } else if (kind === "config") {
     let settings;
@@ -113,6 +226,16 @@ function parseManifestValue(path, raw) {
       syncFolder: raw.syncFolder === void 0 ? void 0 : assertString(raw.syncFolder, "syncFolder"),
       settings
     };
+  } else if (kind === "revision") {
+    const revisionPath = assertString(raw.path, "path");
+    const entry = parseManifestValue(revisionPath, raw.entry);
+    if (!isFileMetadata(entry) && !isTombstone(entry)) {
+      throw new Error(`Invalid manifest value for ${path}: revision entry must be file/tombstone`);
+    }
+    value = { kind: "revision", path: revisionPath, entry };
+    if (raw.publishedAt !== void 0) {
+      value.publishedAt = assertNumber(raw.publishedAt, "publishedAt");
+    }
   } else {
     throw new Error(`Invalid manifest value for ${path}: unsupported kind ${kind}`);
   }
@@ -139,9 +262,26 @@ class ManifestStore extends EventEmitter {
   async close() {
     await this.pass.close();
   }
+  /** Write an entry. Files and tombstones are also recorded in the path's revision history. */
   async put(path, metadata) {
     assertPathCompatibility(path, metadata);
-    await this.pass.add(path, JSON.stringify(metadata));
+    if (isFileMetadata(metadata) || isTombstone(metadata)) {
+      const revision = {
+        kind: "revision",
+        path,
+        entry: metadata,
+        publishedAt: Date.now()
+      };
+      await this.pass.base.append([
+        encodeCommand("@autopass/put", {
+          key: revisionKey(path, metadata),
+          value: encodeManifestValue(revision)
+        }),
+        encodeCommand("@autopass/put", { key: path, value: encodeManifestValue(metadata) })
+      ]);
+      return;
+    }
+    await this.pass.add(path, encodeManifestValue(metadata));
   }
   async putTombstone(path, writerKey, opts) {
     const existing = await this.get(path);
@@ -157,12 +297,24 @@ class ManifestStore extends EventEmitter {
     };
     await this.put(path, tombstone);
   }
-  async putPeer(writerKey, name) {
+  /**
+   * Register or refresh a peer; its tombstone watermark, swarm key and file format are kept unless
+   * new ones are given.
+   */
+  async putPeer(writerKey, name, opts) {
+    const existing = await this.get(`__peer:${writerKey}`);
+    const previous = existing && isPeerMetadata(existing) ? existing : null;
+    const watermark = opts?.watermark ?? previous?.watermark;
+    const swarmKey = opts?.swarmKey ?? previous?.swarmKey;
+    const fileFormat = opts?.fileFormat ?? previous?.fileFormat;
     const metadata = {
       kind: "peer",
       writerKey,
       name,
-      updatedAt: Date.now()
+      updatedAt: Date.now(),
+      ...watermark === void 0 ? {} : { watermark },
+      ...swarmKey === void 0 ? {} : { swarmKey },
+      ...fileFormat === void 0 ? {} : { fileFormat }
     };
     await this.put(`__peer:${writerKey}`, metadata);
   }
@@ -178,18 +330,107 @@ class ManifestStore extends EventEmitter {
     if (result === null) return null;
     return parseManifestValue(path, JSON.parse(result.value));
   }
+  /** Current entries; revision records are left out (see getHistory). */
   async list() {
-    const records = await this.pass.list().toArray();
+    const records = [
+      ...await this.findRecords({ lt: { key: REVISION_PREFIX } }),
+      ...await this.findRecords({ gte: { key: "__rev;" } })
+    ];
     return records.map((record) => ({
       path: record.key,
       metadata: parseManifestValue(record.key, JSON.parse(record.value))
     }));
   }
+  /** Every recorded version of a user path, newest first. */
+  async getHistory(path) {
+    const prefix = `${REVISION_PREFIX}${path}:`;
+    const records = await this.findRecords({
+      gte: { key: prefix },
+      lt: { key: `${prefix}\uFFFF` }
+    });
+    const revisions = [];
+    for (const record of records) {
+      const value = parseManifestValue(record.key, JSON.parse(record.value));
+      if (isRevisionMetadata(value) && value.path === path) revisions.push(value);
+    }
+    return revisions.sort((a, b) => b.entry.seq - a.entry.seq || b.entry.mtime - a.entry.mtime);
+  }
+  /** Delete revision records, in one batch; the entries they record are left alone. */
+  async removeRevisions(revisions) {
+    if (revisions.length === 0) return;
+    await this.pass.base.append(
+      revisions.map(
+        (revision) => encodeCommand("@autopass/del", { key: revisionKey(revision.path, revision.entry) })
+      )
+    );
+  }
+  /** Peer entries, in writer key order. */
+  async listPeers() {
+    const records = await this.findRecords({
+      gte: { key: "__peer:" },
+      lt: { key: "__peer;" }
+    });
+    const peers = [];
+    for (const record of records) {
+      const value = parseManifestValue(record.key, JSON.parse(record.value));
+      if (isPeerMetadata(value)) peers.push(value);
+    }
+    return peers;
+  }
+  /** The current position of the manifest view. */
+  async checkpoint() {
+    const core = this.pass.base.view.core;
+    const length = core.length;
+    return { length, treeHash: (await core.treeHash(length)).toString("hex") };
+  }
+  /**
+   * Entries put or removed between two checkpoints, latest change per path, revisions left
+   * out. Returns null when `from` is no longer a prefix of the view because Autobase
+   * reordered it; callers then fall back to `list()`.
+   */
+  async changesSince(from, to) {
+    const core = this.pass.base.view.core;
+    if (from.length > to.length || from.length > core.length) return null;
+    if ((await core.treeHash(from.length)).toString("hex") !== from.treeHash) return null;
+    const changes = /* @__PURE__ */ new Map();
+    for await (const change of this.pass.base.view.changes({ gte: from.length, lt: to.length })) {
+      if (change.collection !== "@autopass/records") continue;
+      const path = change.value.key;
+      if (path.startsWith(REVISION_PREFIX)) continue;
+      changes.delete(path);
+      changes.set(path, {
+        path,
+        metadata: change.type === "insert" ? parseManifestValue(path, JSON.parse(change.value.value)) : null
+      });
+    }
+    return [...changes.values()];
+  }
+  /** Every revision record of every path, in key order (by path, then seq). */
+  async listRevisions() {
+    const records = await this.findRecords({
+      gte: { key: REVISION_PREFIX },
+      lt: { key: "__rev;" }
+    });
+    const revisions = [];
+    for (const record of records) {
+      const value = parseManifestValue(record.key, JSON.parse(record.value));
+      if (isRevisionMetadata(value)) revisions.push(value);
+    }
+    return revisions;
+  }
+  findRecords(query) {
+    return this.pass.base.view.find("@autopass/records", query).toArray();
+  }
   async remove(path) {
     await this.pass.remove(path);
   }
-  async createInvite() {
-    return this.pass.createInvite();
+  /**
+   * Create an invite code. A read-only invite lets the paired peer replicate the manifest and
+   * file blocks without becoming a writer. Only one invite is open at a time, so creating one
+   * with the other role replaces it.
+   */
+  async createInvite(opts) {
+    return this.pass.createInvite({ readOnly: opts?.readOnly ?? false });
   }
   static async pair(store, invite, options) {
     const pairer = Autopass.pair(store, invite, {
@@ -205,16 +446,45 @@ class ManifestStore extends EventEmitter {
   get writable() {
     return this.pass.writable;
   }
+  /** This peer's Hyperswarm public key, or null when not replicating */
+  get swarmKey() {
+    return this.pass.swarm?.keyPair.publicKey.toString("hex") ?? null;
+  }
+  /** Whether `writerKey` is a current writer, i.e. was added to the Autobase and not removed. */
+  async isWriter(writerKey) {
+    const member = await this.pass.base.system.get(Buffer.from(writerKey, "hex"));
+    return member !== null && !member.isRemoved;
+  }
+  /** Hyperswarm public keys of the peers we are connected to, hex-encoded */
+  connectedSwarmKeys() {
+    const connections = [...this.pass.swarm?.connections ?? []];
+    return connections.map((connection) => connection.remotePublicKey.toString("hex"));
+  }
+  /**
+   * Call `listener` for every replication connection, current and future. Returns a function
+   * that stops listening.
+   */
+  onConnection(listener) {
+    const swarm = this.pass.swarm;
+    if (!swarm) return () => {
+    };
+    for (const connection of swarm.connections) listener(connection);
+    swarm.on("connection", listener);
+    return () => swarm.off("connection", listener);
+  }
   /** Expose underlying Autopass for assertions in tests (e.g. base.system.members) */
   get autopass() {
     return this.pass;
   }
 }
 export {
+  FILE_FORMAT_VERSION,
   ManifestStore,
   isConfigMetadata,
   isFileMetadata,
   isPeerMetadata,
+  isRevisionMetadata,
+  isSingleRun,
   isTombstone
 };
 //# sourceMappingURL=manifest-store.js.map
@@ -0,0 +1,24 @@
+const PLACEHOLDER_SUFFIX = ".pearsync-placeholder";
+function placeholderPath(path) {
+  return `${path}${PLACEHOLDER_SUFFIX}`;
+}
+function isPlaceholder(path) {
+  return path.endsWith(PLACEHOLDER_SUFFIX);
+}
+function placeholderContent(path, metadata) {
+  const info = {
+    path,
+    size: metadata.size,
+    hash: metadata.hash,
+    mtime: metadata.mtime
+  };
+  return `${JSON.stringify(info, null, 2)}
+`;
+}
+export {
+  PLACEHOLDER_SUFFIX,
+  isPlaceholder,
+  placeholderContent,
+  placeholderPath
+};
+//# sourceMappingURL=placeholders.js.map
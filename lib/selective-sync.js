@@ -0,0 +1,71 @@
+import { randomBytes } from "bare-crypto";
+import { mkdir, readFile, rename, writeFile } from "bare-fs/promises";
+import { dirname, join } from "bare-path";
+import { normalizePath } from "./file-utils";
+function normalizeExclusions(paths) {
+  const normalized = [...new Set(paths.map((path) => normalizePath(path).replace(/\/+$/, "")))].filter((path) => path !== "").sort();
+  return normalized.filter(
+    (path) => !normalized.some((other) => other !== path && path.startsWith(`${other}/`))
+  );
+}
+function isExcluded(excluded, path) {
+  return excluded.some((root) => path === root || path.startsWith(`${root}/`));
+}
+function listFolders(paths) {
+  const folders = /* @__PURE__ */ new Set();
+  for (const path of paths) {
+    let slash = path.lastIndexOf("/");
+    while (slash > 0) {
+      const folder = path.slice(0, slash);
+      if (folders.has(folder)) break;
+      folders.add(folder);
+      slash = folder.lastIndexOf("/");
+    }
+  }
+  return [...folders].sort();
+}
+class SelectiveSyncStore {
+  excluded = [];
+  filePath;
+  constructor(syncFolder) {
+    this.filePath = join(syncFolder, ".pearsync", "selective-sync.json");
+  }
+  /** Load the rules; a missing or unreadable file excludes nothing. */
+  async load() {
+    this.excluded = [];
+    let raw;
+    try {
+      raw = JSON.parse(await readFile(this.filePath, "utf-8"));
+    } catch (err) {
+      if (err instanceof SyntaxError || err.code === "ENOENT") return;
+      throw err;
+    }
+    const excluded = raw?.excluded;
+    if (!Array.isArray(excluded)) return;
+    this.excluded = normalizeExclusions(
+      excluded.filter((path) => typeof path === "string")
+    );
+  }
+  getExcluded() {
+    return [...this.excluded];
+  }
+  /** Replace the excluded subtrees and persist them atomically. */
+  async setExcluded(paths) {
+    this.excluded = normalizeExclusions(paths);
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${randomBytes(4).toString("hex")}.tmp`;
+    await writeFile(tmpPath, JSON.stringify({ excluded: this.excluded }));
+    await rename(tmpPath, this.filePath);
+  }
+  /** Whether `path` is an excluded subtree or inside one. */
+  excludes(path) {
+    return isExcluded(this.excluded, path);
+  }
+}
+export {
+  SelectiveSyncStore,
+  isExcluded,
+  listFolders,
+  normalizeExclusions
+};
+//# sourceMappingURL=selective-sync.js.map
@@ -1,17 +1,46 @@
-import { createHash } from "bare-crypto";
+import { createHash, randomBytes } from "bare-crypto";
 import { EventEmitter } from "bare-events";
+import {
+  copyFile,
+  mkdir,
+  open,
+  rename,
+  rm,
+  stat,
+  writeFile
+} from "bare-fs/promises";
 import mutableFs from "bare-fs";
+import { dirname, join } from "bare-path";
 import Localdrive from "localdrive";
 import watch from "watch-drive";
-import { FileStore } from "./file-store";
-import { normalizePath } from "./file-utils";
+import { BandwidthLimiter } from "./bandwidth";
+import { ChunkIndex, fileChunks } from "./chunk-index";
+import { DownloadQueue } from "./download-queue";
+import { DEFAULT_BLOCK_SIZE, FileStore } from "./file-store";
+import { cdcChunkStream, chunkStream, hashBuffer, normalizePath } from "./file-utils";
+import { expiredRevisions, referencedBlocks, retainedFiles } from "./gc";
+import { HashCache } from "./hash-cache";
+import { IGNORE_FILE, IgnoreMatcher, isSyncIgnored } from "./ignore-rules";
 import { LocalStateStore } from "./local-state-store";
+import { placeholderContent, placeholderPath } from "./placeholders";
+import { SelectiveSyncStore } from "./selective-sync";
+import { TrashStore } from "./trash-store";
 import {
+  FILE_FORMAT_VERSION,
   ManifestStore,
   isFileMetadata,
   isPeerMetadata,
+  isSingleRun,
   isTombstone
 } from "./manifest-store";
+const TEMP_DIR = "/.pearsync/tmp";
+const DEFAULT_HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1e3;
+const DEFAULT_GC_INTERVAL_MS = 60 * 60 * 1e3;
+const DEFAULT_GC_GRACE_MS = 24 * 60 * 60 * 1e3;
+const DEFAULT_TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1e3;
+const DEFAULT_SETTLE_WINDOW_MS = 1e3;
+const DEFAULT_RESCAN_INTERVAL_MS = 60 * 60 * 1e3;
+const PREFETCH_BATCH_BLOCKS = 32;
 function buildConflictPath(originalPath, peerName) {
   const date = (/* @__PURE__ */ new Date()).toISOString().slice(0, 10);
   const lastDot = originalPath.lastIndexOf(".");
@@ -23,6 +52,18 @@ function buildConflictPath(originalPath, peerName) {
   }
   return `${originalPath}.conflict-${date}-${peerName}`;
 }
+function nextVersion(manifestValue) {
+  if (manifestValue && isFileMetadata(manifestValue)) {
+    return { baseHash: manifestValue.hash, seq: manifestValue.seq + 1 };
+  }
+  if (manifestValue && isTombstone(manifestValue)) {
+    return { baseHash: manifestValue.baseHash, seq: manifestValue.seq + 1 };
+  }
+  return { baseHash: null, seq: 1 };
+}
+function hasLegacyPeers(peers) {
+  return peers.some((peer) => (peer.fileFormat ?? 1) < FILE_FORMAT_VERSION);
+}
 class SyncEngine extends EventEmitter {
   store;
   syncFolder;
@@ -31,20 +72,74 @@ class SyncEngine extends EventEmitter {
   manifest = null;
   ownsManifest;
   watcher = null;
+  ignoreFileWatcher = null;
   localChangeQueue = Promise.resolve();
   remoteUpdateQueue = Promise.resolve();
   options;
   localState;
+  trash;
+  hashCache;
+  selectiveSync;
   startupReconciliationActive = false;
   startupPolicyAffectedPaths = 0;
+  ignoreRules = IgnoreMatcher.empty();
+  ignoreSource = "";
+  /** Unpublished local edits, keyed by path (receive-only mode) */
+  localChanges = /* @__PURE__ */ new Map();
+  /** Remote changes left unapplied, keyed by path (send-only mode) */
+  divergedPaths = /* @__PURE__ */ new Map();
+  /** Known chunks by hash, learned from manifest entries; used to dedup writes and downloads */
+  chunkIndex = new ChunkIndex();
+  /** Set while a writer has not advertised the current file format; see `storeFile` */
+  legacyPeers = false;
+  transferStats = { bytesReused: 0, bytesFetched: 0 };
+  /** Queued and in-flight downloads, keyed by path, in the order they were queued */
+  transfers = /* @__PURE__ */ new Map();
+  bandwidth;
+  downloads;
+  stopThrottling = null;
+  /** Local deletions held back while waiting for a matching create, keyed by path */
+  pendingDeletes = /* @__PURE__ */ new Map();
+  /** Old paths of remote renames applied locally, until their tombstone arrives */
+  movedAway = /* @__PURE__ */ new Map();
+  /** Unreferenced blocks of the local core, with when they were first seen unreferenced */
+  gcCandidates = /* @__PURE__ */ new Map();
+  gcTimer = null;
+  rescanTimer = null;
+  lastGc = null;
+  reclaimedBytes = 0;
+  /** mtime of the newest tombstone applied so far, published in our `__peer:` entry */
+  tombstoneWatermark = 0;
+  /** Set when we were away longer than the tombstone retention and may have missed purges */
+  fullReconciliationPending = false;
+  /** Set when the next remote pass must walk the whole manifest, e.g. after ignore rules change */
+  fullScanPending = false;
+  /** Current tombstones, kept up to date from the manifest change feed */
+  tombstones = /* @__PURE__ */ new Map();
+  /** Set when this peer joined with a read-only invite and cannot write to the manifest */
+  readOnly = false;
+  /** Watcher events waiting for their file to settle, keyed by path; later events replace earlier ones */
+  settling = /* @__PURE__ */ new Map();
+  paused = false;
+  /** Paths whose settled local changes arrived while paused */
+  pausedPaths = /* @__PURE__ */ new Set();
+  /** Set when remote updates arrived while paused */
+  remoteUpdateDeferred = false;
   /** Tracks which paths we're currently writing to disk, to suppress watcher feedback */
   suppressedPaths = /* @__PURE__ */ new Set();
+  /** Paths being hydrated, which are downloaded even though they are not on disk yet */
+  hydrating = /* @__PURE__ */ new Set();
   constructor(store, syncFolder, options) {
     super();
     this.store = store;
     this.syncFolder = syncFolder;
     this.options = options ?? {};
     this.localState = new LocalStateStore(syncFolder);
+    this.trash = new TrashStore(syncFolder, this.options.trashRetention);
+    this.hashCache = new HashCache(syncFolder);
+    this.selectiveSync = new SelectiveSyncStore(syncFolder);
+    this.bandwidth = new BandwidthLimiter(this.options.bandwidth);
+    this.downloads = new DownloadQueue({ concurrency: this.options.downloadConcurrency });
     if (options?.manifest) {
       this.manifest = options.manifest;
       this.ownsManifest = false;
@@ -54,9 +149,15 @@ class SyncEngine extends EventEmitter {
   }
   async ready() {
     this.drive = new Localdrive(this.syncFolder);
+    await rm(this.drive.toPath(TEMP_DIR), { recursive: true, force: true });
     this.fileStore = new FileStore(this.store);
     await this.fileStore.ready();
+    this.chunkIndex = new ChunkIndex(this.fileStore.core.key.toString("hex"));
     await this.localState.load();
+    await this.trash.load();
+    await this.hashCache.load();
+    await this.selectiveSync.load();
+    await this.loadIgnoreRules();
     if (!this.manifest) {
       this.manifest = ManifestStore.create(this.store, {
         replicate: this.options.bootstrap !== void 0,
@@ -64,36 +165,65 @@ class SyncEngine extends EventEmitter {
       });
     }
     await this.manifest.ready();
+    this.readOnly = !this.manifest.writable;
     const writerKey = this.manifest.writerKey;
     const peerName = writerKey.slice(0, 8);
-    await this.manifest.putPeer(writerKey, peerName);
+    const previous = await this.manifest.get(`__peer:${writerKey}`);
+    if (previous && isPeerMetadata(previous)) {
+      this.tombstoneWatermark = previous.watermark ?? 0;
+      this.fullReconciliationPending = this.isPeerExpired(previous, Date.now());
+    }
+    if (this.readOnly) {
+      this.fullReconciliationPending = true;
+      return;
+    }
+    await this.manifest.putPeer(writerKey, peerName, {
+      swarmKey: this.manifest.swarmKey ?? void 0,
+      fileFormat: FILE_FORMAT_VERSION
+    });
+    this.legacyPeers = hasLegacyPeers(await this.manifest.listPeers());
   }
   async start() {
     if (!this.drive || !this.fileStore || !this.manifest) {
       throw new Error("SyncEngine not ready \u2014 call ready() first");
     }
+    this.stopThrottling = this.manifest.onConnection(
+      (connection) => this.bandwidth.throttle(connection)
+    );
     await this.initialSync();
     this.ensureFsWatchPatched();
     this.watcher = watch(this.drive, "", { eagerOpen: true });
     this.applyLocalwatchDestroyWorkaround(this.watcher);
     this.watcher.on("data", (batch) => {
       for (const diff of batch.diff) {
-        this.localChangeQueue = this.localChangeQueue.then(async () => {
-          try {
-            await this.handleLocalChange(diff.type, diff.key);
-          } catch (err) {
-            this.emit("error", err);
-          }
-        });
+        this.onWatcherChange(diff.type, diff.key);
       }
     });
     this.watcher.on("error", (err) => this.emit("error", err));
     await this.waitForWatcherReady(this.watcher);
+    this.ignoreFileWatcher = mutableFs.watch(this.syncFolder, this.onRootFsEvent);
     this.manifest.on("update", this._onRemoteUpdate);
     this._onRemoteUpdate();
     await this.remoteUpdateQueue;
+    const gcIntervalMs = this.options.gcIntervalMs ?? DEFAULT_GC_INTERVAL_MS;
+    if (gcIntervalMs > 0) {
+      this.gcTimer = setInterval(() => {
+        this.collectGarbage().catch((err) => this.emit("error", err));
+      }, gcIntervalMs);
+    }
+    const rescanIntervalMs = this.options.rescanIntervalMs ?? DEFAULT_RESCAN_INTERVAL_MS;
+    if (rescanIntervalMs > 0) {
+      this.rescanTimer = setInterval(() => {
+        if (this.paused) return;
+        this.rescan().catch((err) => this.emit("error", err));
+      }, rescanIntervalMs);
+    }
   }
   _onRemoteUpdate = () => {
+    if (this.paused) {
+      this.remoteUpdateDeferred = true;
+      return;
+    }
     this.remoteUpdateQueue = this.remoteUpdateQueue.then(async () => {
       try {
         await this.handleRemoteChanges();
@@ -102,16 +232,115 @@ class SyncEngine extends EventEmitter {
       }
     });
   };
+  onWatcherChange(type, key) {
+    const settleWindowMs = this.options.settleWindowMs ?? DEFAULT_SETTLE_WINDOW_MS;
+    if (settleWindowMs <= 0) {
+      this.enqueueWatcherChange(type, key);
+      return;
+    }
+    const path = normalizePath(key);
+    if (this.suppressedPaths.delete(path)) return;
+    const pending = this.settling.get(path);
+    if (pending) clearTimeout(pending.timer);
+    this.settling.set(path, {
+      timer: setTimeout(() => this.checkSettled(path, settleWindowMs), settleWindowMs),
+      stat: pending?.stat ?? null
+    });
+  }
+  /**
+   * Called once a path has had no watcher events for the settle window. A file whose mtime is
+   * still inside the window and whose size or mtime moved since the last check is being
+   * written without events (or with coarse ones), so it is checked again later. Whether the
+   * change is an update or a delete is decided from the disk now, which collapses any
+   * update/delete sequence in between.
+   */
+  async checkSettled(path, settleWindowMs) {
+    const pending = this.settling.get(path);
+    if (!pending) return;
+    let current = null;
+    try {
+      const stats = await stat(this.drive.toPath(path));
+      if (stats.isFile()) current = { size: stats.size, mtimeMs: stats.mtimeMs };
+    } catch (err) {
+      if (err.code !== "ENOENT") this.emit("error", err);
+    }
+    if (this.settling.get(path) !== pending) return;
+    const unchanged = current !== null && pending.stat !== null && current.size === pending.stat.size && current.mtimeMs === pending.stat.mtimeMs;
+    if (current && Date.now() - current.mtimeMs < settleWindowMs && !unchanged) {
+      pending.stat = current;
+      pending.timer = setTimeout(() => this.checkSettled(path, settleWindowMs), settleWindowMs);
+      return;
+    }
+    this.settling.delete(path);
+    this.enqueueWatcherChange(current ? "update" : "delete", path);
+  }
+  enqueueWatcherChange(type, key) {
+    if (this.paused) {
+      this.pausedPaths.add(normalizePath(key));
+      return;
+    }
+    this.localChangeQueue = this.localChangeQueue.then(async () => {
+      try {
+        await this.handleLocalChange(type, key, { detectRename: true });
+      } catch (err) {
+        this.emit("error", err);
+      }
+    });
+  }
+  onRootFsEvent = (_event, filename) => {
+    if (filename?.toString() !== IGNORE_FILE.slice(1)) return;
+    if (this.paused) {
+      this.pausedPaths.add(IGNORE_FILE);
+      return;
+    }
+    this.localChangeQueue = this.localChangeQueue.then(async () => {
+      try {
+        const type = await this.drive.exists(IGNORE_FILE) ? "update" : "delete";
+        await this.handleLocalChange(type, IGNORE_FILE);
+      } catch (err) {
+        this.emit("error", err);
+      }
+    });
+  };
   async stop() {
     if (this.watcher) {
       this.watcher.destroy();
       this.watcher = null;
     }
+    if (this.ignoreFileWatcher) {
+      this.ignoreFileWatcher.close();
+      this.ignoreFileWatcher = null;
+    }
     if (this.manifest) {
       this.manifest.removeListener("update", this._onRemoteUpdate);
     }
+    if (this.gcTimer) {
+      clearInterval(this.gcTimer);
+      this.gcTimer = null;
+    }
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+      this.rescanTimer = null;
+    }
+    if (this.stopThrottling) {
+      this.stopThrottling();
+      this.stopThrottling = null;
+    }
+    this.bandwidth.close();
+    const settling = [...this.settling.keys()];
+    for (const pending of this.settling.values()) clearTimeout(pending.timer);
+    this.settling.clear();
+    for (const path of settling) {
+      const type = await this.drive?.exists(path) ? "update" : "delete";
+      this.enqueueWatcherChange(type, path);
+    }
+    for (const [path, pending] of this.pendingDeletes) {
+      clearTimeout(pending.timer);
+      this.localChangeQueue = this.localChangeQueue.then(() => this.flushPendingDelete(path));
+    }
     await this.localChangeQueue;
     await this.remoteUpdateQueue;
+    await this.hashCache.flush();
   }
   async close() {
     await this.stop();
@@ -133,27 +362,38 @@ class SyncEngine extends EventEmitter {
     if (entry && isPeerMetadata(entry)) return entry.name;
     return writerKey.slice(0, 8);
   }
-  async handleLocalChange(type, key) {
+  async handleLocalChange(type, key, opts) {
     const normalizedKey = normalizePath(key);
     if (normalizedKey.startsWith("/.pearsync/")) return;
     if (this.suppressedPaths.has(normalizedKey)) {
       this.suppressedPaths.delete(normalizedKey);
       return;
     }
+    if (normalizedKey === IGNORE_FILE) await this.reloadIgnoreRules();
+    if (this.isIgnored(normalizedKey)) return;
     const drive = this.drive;
     const fileStore = this.fileStore;
     const manifest = this.manifest;
     if (type === "update") {
-      const data = await drive.get(normalizedKey);
-      if (data === null) return;
       const entry = await drive.entry(normalizedKey);
-      const mtime = entry?.mtime ?? Date.now();
-      const hash = createHash("sha256").update(data).digest("hex");
+      if (!entry?.value.blob) return;
+      const mtime = entry.mtime;
+      const local = await this.hashCache.hash(normalizedKey, drive.toPath(normalizedKey));
+      if (!local) return;
+      const { hash, size } = local;
       const manifestValue = await manifest.get(normalizedKey);
-      if (manifestValue && isFileMetadata(manifestValue) && manifestValue.hash === hash) return;
-      const stored = await fileStore.writeFile(data);
-      const baseHash = manifestValue ? isFileMetadata(manifestValue) ? manifestValue.hash : isTombstone(manifestValue) ? manifestValue.baseHash : null : null;
-      const seq = manifestValue && (isFileMetadata(manifestValue) || isTombstone(manifestValue)) ? manifestValue.seq + 1 : 1;
+      if (this.getFolderMode() === "receive-only") {
+        this.trackLocalChange(normalizedKey, manifestValue, hash, size, mtime);
+        return;
+      }
+      this.cancelPendingDelete(normalizedKey);
+      if (manifestValue && isFileMetadata(manifestValue) && manifestValue.hash === hash) {
+        this.divergedPaths.delete(normalizedKey);
+        return;
+      }
+      const moveSource = await this.findMoveSource(normalizedKey, hash, manifestValue);
+      const stored = await this.storeFile(normalizedKey, moveSource?.metadata);
+      const { baseHash, seq } = nextVersion(manifestValue);
       const metadata = {
         kind: "file",
         size: stored.size,
@@ -162,28 +402,48 @@ class SyncEngine extends EventEmitter {
         baseHash,
         seq,
         writerKey: fileStore.core.key.toString("hex"),
-        blocks: { offset: stored.offset, length: stored.length }
+        chunks: stored.chunks
       };
+      if (moveSource) metadata.movedFrom = moveSource.path;
       await manifest.put(normalizedKey, metadata);
+      this.divergedPaths.delete(normalizedKey);
       await this.localState.set(normalizedKey, {
-        lastSyncedHash: hash,
+        lastSyncedHash: stored.hash,
         lastSyncedMtime: mtime,
-        lastManifestHash: hash,
+        lastManifestHash: stored.hash,
         lastManifestWriterKey: metadata.writerKey
       });
+      if (moveSource) {
+        await this.publishDelete(moveSource.path, moveSource.metadata);
+        this.emit("sync", {
+          direction: "local-to-remote",
+          type: "rename",
+          path: normalizedKey,
+          fromPath: moveSource.path
+        });
+        return;
+      }
       this.emit("sync", {
         direction: "local-to-remote",
         type: "update",
         path: normalizedKey
       });
     } else if (type === "delete") {
+      this.hashCache.forget(normalizedKey);
+      if (this.options.onDemand && !this.localState.has(normalizedKey)) return;
       const manifestValue = await manifest.get(normalizedKey);
+      if (this.getFolderMode() === "receive-only") {
+        this.trackLocalChange(normalizedKey, manifestValue, null, 0, Date.now());
+        return;
+      }
+      this.divergedPaths.delete(normalizedKey);
       if (manifestValue && isFileMetadata(manifestValue)) {
-        await manifest.putTombstone(normalizedKey, fileStore.core.key.toString("hex"), {
-          baseHash: manifestValue.hash,
-          seq: manifestValue.seq + 1
-        });
-        await this.localState.remove(normalizedKey);
+        const windowMs = this.options.renameWindowMs ?? 1e3;
+        if (opts?.detectRename && windowMs > 0) {
+          this.deferDelete(normalizedKey, manifestValue.hash, windowMs);
+          return;
+        }
+        await this.publishDelete(normalizedKey, manifestValue);
         this.emit("sync", {
           direction: "local-to-remote",
           type: "delete",
@@ -192,29 +452,373 @@ class SyncEngine extends EventEmitter {
       }
     }
   }
+  async publishDelete(path, manifestValue) {
+    await this.manifest.putTombstone(path, this.fileStore.core.key.toString("hex"), {
+      baseHash: manifestValue.hash,
+      seq: manifestValue.seq + 1
+    });
+    await this.localState.remove(path);
+  }
+  /** Hold a local deletion back so a create with the same content can claim it as a rename. */
+  deferDelete(path, hash, windowMs) {
+    this.cancelPendingDelete(path);
+    const timer = setTimeout(() => {
+      this.localChangeQueue = this.localChangeQueue.then(() => this.flushPendingDelete(path));
+    }, windowMs);
+    this.pendingDeletes.set(path, { hash, timer });
+  }
+  cancelPendingDelete(path) {
+    const pending = this.pendingDeletes.get(path);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pendingDeletes.delete(path);
+  }
+  /** Publish a held-back deletion that no create claimed within the rename window. */
+  async flushPendingDelete(path) {
+    if (!this.pendingDeletes.has(path)) return;
+    this.pendingDeletes.delete(path);
+    try {
+      if (await this.drive.exists(path)) return;
+      const manifestValue = await this.manifest.get(path);
+      if (!manifestValue || !isFileMetadata(manifestValue)) return;
+      await this.publishDelete(path, manifestValue);
+      this.emit("sync", {
+        direction: "local-to-remote",
+        type: "delete",
+        path
+      });
+    } catch (err) {
+      this.emit("error", err);
+    }
+  }
+  /**
+   * Find a synced file with the same content that is gone from disk, so a create at
+   * `path` can be published as a rename. Held-back deletions are checked first; the
+   * watcher may also report the create before the delete.
+   */
+  async findMoveSource(path, hash, manifestValue) {
+    if (manifestValue && isFileMetadata(manifestValue)) return null;
+    const candidates = [];
+    for (const [from, pending] of this.pendingDeletes) {
+      if (pending.hash === hash) candidates.push(from);
+    }
+    for (const from of this.localState.pathsWithHash(hash)) {
+      if (!candidates.includes(from)) candidates.push(from);
+    }
+    for (const from of candidates) {
+      if (from === path || this.isIgnored(from)) continue;
+      if (await this.drive.exists(from)) continue;
+      const metadata = await this.manifest.get(from);
+      if (!metadata || !isFileMetadata(metadata) || metadata.hash !== hash) continue;
+      this.cancelPendingDelete(from);
+      return { path: from, metadata };
+    }
+    return null;
+  }
   async waitForWatcherReady(stream) {
     const opened = stream.opened;
     if (!opened) return;
     await opened;
   }
+  /**
+   * Apply remote changes. Only entries changed since the last processed manifest checkpoint
+   * are handled, except on the first run, after Autobase reordered the view, after the
+   * ignore rules changed, in send-only mode at startup and during a full reconciliation,
+   * which walk the whole manifest.
+   */
   async handleRemoteChanges() {
-    const entries = await this.manifest.list();
+    const manifest = this.manifest;
     const myWriterKey = this.fileStore.core.key.toString("hex");
-    for (const { path, metadata } of entries) {
+    const checkpoint = await manifest.checkpoint();
+    const peers = await manifest.listPeers();
+    this.bandwidth.setPeers(peers);
+    this.legacyPeers = hasLegacyPeers(peers);
+    const self = peers.find((peer) => peer.writerKey === manifest.writerKey);
+    const reconcile = this.fullReconciliationPending || self !== void 0 && this.isPeerExpired(self, Date.now());
+    const fullScanRequested = this.fullScanPending;
+    this.fullScanPending = false;
+    await this.localState.batch(async () => {
+      try {
+        const previous = this.localState.getCheckpoint();
+        const resumable = previous !== null && !reconcile && !fullScanRequested && !(this.startupReconciliationActive && this.getFolderMode() === "send-only");
+        let changes = resumable ? await manifest.changesSince(previous, checkpoint) : null;
+        if (changes === null) {
+          this.tombstones.clear();
+          changes = await manifest.list();
+        } else {
+          if (this.startupReconciliationActive) {
+            changes = await this.withStartupCandidates(changes);
+          }
+          changes = await this.withUnapplied(changes);
+        }
+        const unapplied = await this.applyRemoteChanges(changes, myWriterKey);
+        let reconciled = false;
+        if (reconcile) {
+          await this.reconcilePurgedPaths(new Set(changes.map((change) => change.path)));
+          this.fullReconciliationPending = false;
+          reconciled = true;
+        }
+        await this.acknowledgeTombstones(self, reconciled);
+        await this.purgeTombstones(peers);
+        await this.localState.setCheckpoint(checkpoint, unapplied);
+      } catch (err) {
+        this.fullScanPending ||= fullScanRequested;
+        throw err;
+      }
+    });
+  }
+  /** Returns the paths whose download failed; each failure is emitted as an `error`. */
+  async applyRemoteChanges(changes, myWriterKey) {
+    const tombstones = [];
+    const queued = this.queueDownloads(changes, myWriterKey);
+    let unapplied;
+    try {
+      unapplied = await this.applyRemoteEntries(changes, myWriterKey, tombstones);
+    } finally {
+      for (const path of queued) this.endTransfer(path);
+    }
+    for (const { path, metadata } of tombstones) {
+      await this.handleRemoteDeletion(path, metadata);
+    }
+    return unapplied;
+  }
+  async applyRemoteEntries(changes, myWriterKey, tombstones) {
+    const updates = /* @__PURE__ */ new Map();
+    for (const { path, metadata } of changes) {
       if (path.startsWith("__")) continue;
+      if (metadata && isTombstone(metadata)) this.tombstones.set(path, metadata);
+      else this.tombstones.delete(path);
+      if (!metadata) continue;
+      if (isFileMetadata(metadata)) this.chunkIndex.addFile(metadata);
+      if (this.isIgnored(path)) continue;
+      if (this.getFolderMode() === "send-only") {
+        if (isFileMetadata(metadata) || isTombstone(metadata)) {
+          await this.recordDivergence(path, metadata, myWriterKey);
+        }
+        continue;
+      }
       if (isTombstone(metadata)) {
-        await this.handleRemoteDeletion(path, metadata);
+        tombstones.push({ path, metadata });
         continue;
       }
       if (!isFileMetadata(metadata)) continue;
-      if (metadata.writerKey === myWriterKey) continue;
+      if (metadata.writerKey === myWriterKey && this.localState.has(path)) continue;
+      updates.set(path, { path, size: metadata.size, mtime: metadata.mtime, metadata });
+    }
+    const failures = await this.downloads.run([...updates.values()], async ({ path, metadata }) => {
       await this.handleRemoteUpdate(path, metadata);
+      this.endTransfer(path);
+    });
+    for (const [path, err] of failures) {
+      const reason = err instanceof Error ? err.message : String(err);
+      this.emit("error", new Error(`Failed to download ${path}: ${reason}`, { cause: err }));
+    }
+    return [...failures.keys()];
+  }
+  /**
+   * Add the current entries of paths an earlier pass failed to apply, so an incremental
+   * pass retries them.
+   */
+  async withUnapplied(changes) {
+    const seen = new Set(changes.map((change) => change.path));
+    const retries = [];
+    for (const path of this.localState.getUnapplied()) {
+      if (!seen.has(path)) retries.push({ path, metadata: await this.manifest.get(path) });
+    }
+    return [...changes, ...retries];
+  }
+  /**
+   * Mark the remote files of a pass that differ from what we last synced as queued, so
+   * progress reports the whole backlog. Returns the queued paths.
+   */
+  queueDownloads(changes, myWriterKey) {
+    if (this.getFolderMode() === "send-only") return [];
+    const queued = [];
+    for (const { path, metadata } of changes) {
+      if (path.startsWith("__") || !metadata || !isFileMetadata(metadata)) continue;
+      if (this.isIgnored(path)) continue;
+      if (metadata.writerKey === myWriterKey && this.localState.has(path)) continue;
+      if (this.options.onDemand && !this.localState.has(path)) continue;
+      if (this.localState.get(path)?.lastManifestHash === metadata.hash) continue;
+      if (this.transfers.has(path)) continue;
+      this.transfers.set(path, {
+        path,
+        state: "queued",
+        blocksDone: 0,
+        blocksTotal: fileChunks(metadata).length,
+        bytesDone: 0,
+        bytesTotal: metadata.size,
+        startedAt: null
+      });
+      queued.push(path);
+    }
+    if (queued.length > 0) this.emit("progress", null);
+    return queued;
+  }
+  endTransfer(path) {
+    if (this.transfers.delete(path)) this.emit("progress", path);
+  }
+  /**
+   * On an incremental startup, also look at paths whose local side changed while we were
+   * stopped: tracked files missing on disk and untracked ones present. The full listing
+   * also rebuilds the in-memory chunk and tombstone indexes.
+   */
+  async withStartupCandidates(changes) {
+    const current = /* @__PURE__ */ new Map();
+    for (const { path, metadata } of await this.manifest.list()) {
+      if (path.startsWith("__")) continue;
+      current.set(path, metadata);
+      if (isFileMetadata(metadata)) this.chunkIndex.addFile(metadata);
+      if (isTombstone(metadata)) this.tombstones.set(path, metadata);
+    }
+    const paths = new Set(changes.map((change) => change.path));
+    const candidates = [];
+    for (const path of this.localState.paths()) {
+      if (!(await this.drive.entry(path))?.value.blob) candidates.push(path);
+    }
+    for await (const entry of this.drive.list("/")) {
+      if (entry.value.blob && !this.localState.has(entry.key)) candidates.push(entry.key);
+    }
+    const extra = [];
+    for (const path of candidates) {
+      const metadata = current.get(path);
+      if (metadata && !paths.has(path)) {
+        paths.add(path);
+        extra.push({ path, metadata });
+      }
+    }
+    return [...changes, ...extra];
+  }
+  /**
+   * Store a file's content for publishing, reusing `reuse.chunks` from an existing entry when
+   * given. While a writer only reads legacy entries, the content is written as one run of our
+   * own core, so the entry keeps its `blocks` field.
+   */
+  async storeFile(path, reuse) {
+    const fileStore = this.fileStore;
+    const writerKey = fileStore.core.key.toString("hex");
+    if (reuse?.chunks && (!this.legacyPeers || isSingleRun(writerKey, reuse.chunks))) {
+      return { size: reuse.size, hash: reuse.hash, chunks: reuse.chunks };
+    }
+    return fileStore.writeStream(
+      this.drive.createReadStream(path),
+      this.legacyPeers ? void 0 : this.chunkIndex
+    );
+  }
+  /** Whether a peer has been away too long to hold back tombstone purges. */
+  isPeerExpired(peer, now) {
+    const retentionMs = this.options.tombstoneRetentionMs ?? DEFAULT_TOMBSTONE_RETENTION_MS;
+    return now - peer.updatedAt > retentionMs;
+  }
+  /**
+   * Tracked paths with no manifest entry at all had their tombstone purged while we were
+   * away. Unedited local copies are deleted; edited ones are left to be published again.
+   */
+  async reconcilePurgedPaths(present) {
+    if (this.getFolderMode() === "send-only") return;
+    for (const path of this.localState.paths()) {
+      if (present.has(path) || this.isIgnored(path)) continue;
+      const tracked = this.localState.get(path);
+      const local = await this.hashLocalFile(path);
+      if (local && local.hash !== tracked.lastSyncedHash) continue;
+      await this.applyRemoteDeletion(path, local !== null);
+    }
+  }
+  /** Publish the newest tombstone we have applied, refreshing our entry after a long absence. */
+  async acknowledgeTombstones(self, force) {
+    let newest = this.tombstoneWatermark;
+    for (const tombstone of this.tombstones.values()) newest = Math.max(newest, tombstone.mtime);
+    if (newest === this.tombstoneWatermark && !force) return;
+    this.tombstoneWatermark = newest;
+    if (this.readOnly) return;
+    const manifest = this.manifest;
+    const name = self?.name ?? manifest.writerKey.slice(0, 8);
+    await manifest.putPeer(manifest.writerKey, name, { watermark: newest });
+  }
+  /**
+   * Remove tombstones past the retention period that every peer seen within that period
+   * has acknowledged, along with their path's revision records. Receive-only peers do not
+   * publish changes, so they leave this to the others.
+   */
+  async purgeTombstones(peers) {
+    if (this.getFolderMode() === "receive-only" || this.tombstones.size === 0) return;
+    const now = Date.now();
+    const retentionMs = this.options.tombstoneRetentionMs ?? DEFAULT_TOMBSTONE_RETENTION_MS;
+    let acknowledged = Math.min(this.tombstoneWatermark, now - retentionMs);
+    for (const peer of peers) {
+      if (peer.writerKey === this.manifest.writerKey || this.isPeerExpired(peer, now)) continue;
+      acknowledged = Math.min(acknowledged, peer.watermark ?? 0);
+    }
+    for (const [path, tombstone] of this.tombstones) {
+      if (tombstone.mtime > acknowledged) continue;
+      await this.manifest.removeRevisions(await this.manifest.getHistory(path));
+      await this.manifest.remove(path);
     }
   }
+  /** Send-only: compare another writer's entry with the local tree without touching disk. */
+  async recordDivergence(path, metadata, myWriterKey) {
+    if (metadata.writerKey === myWriterKey) {
+      this.divergedPaths.delete(path);
+      return;
+    }
+    const local = await this.hashLocalFile(path);
+    if (isTombstone(metadata)) {
+      if (local) {
+        this.divergedPaths.set(path, {
+          path,
+          type: "deleted",
+          writerKey: metadata.writerKey,
+          hash: null
+        });
+      } else {
+        this.divergedPaths.delete(path);
+      }
+      return;
+    }
+    if (!local) {
+      this.divergedPaths.set(path, {
+        path,
+        type: "added",
+        writerKey: metadata.writerKey,
+        hash: metadata.hash
+      });
+      return;
+    }
+    if (local.hash === metadata.hash) {
+      this.divergedPaths.delete(path);
+      await this.localState.set(path, {
+        lastSyncedHash: local.hash,
+        lastSyncedMtime: metadata.mtime,
+        lastManifestHash: metadata.hash,
+        lastManifestWriterKey: metadata.writerKey
+      });
+      return;
+    }
+    this.divergedPaths.set(path, {
+      path,
+      type: "modified",
+      writerKey: metadata.writerKey,
+      hash: metadata.hash
+    });
+  }
   async handleRemoteUpdate(path, remote) {
+    const movedAway = this.movedAway.get(path);
+    if (movedAway) {
+      if (movedAway.hash === remote.hash && movedAway.seq === remote.seq) return;
+      this.movedAway.delete(path);
+    }
     const tracked = this.localState.get(path);
-    const localData = await this.drive.get(path);
-    if (!localData) {
+    const local = await this.hashLocalFile(path);
+    if (!local) {
+      if (this.getFolderMode() === "receive-only" && tracked && tracked.lastManifestHash === remote.hash) {
+        this.trackLocalChange(path, remote, null, 0, Date.now());
+        return;
+      }
+      if (remote.movedFrom && await this.applyRemoteMove(path, remote)) return;
+      if (this.options.onDemand && !tracked && !this.hydrating.has(path)) {
+        await this.writePlaceholder(path, remote);
+        return;
+      }
       await this.downloadFile(path, remote);
       this.emit("sync", {
         direction: "remote-to-local",
@@ -223,8 +827,9 @@ class SyncEngine extends EventEmitter {
       });
       return;
     }
-    const localHash = createHash("sha256").update(localData).digest("hex");
+    const localHash = local.hash;
     if (localHash === remote.hash) {
+      this.localChanges.delete(path);
       await this.localState.set(path, {
         lastSyncedHash: localHash,
         lastSyncedMtime: remote.mtime,
@@ -242,7 +847,7 @@ class SyncEngine extends EventEmitter {
           return;
         }
         if (policy === "keep-both") {
-          await this.handleConflict(path, remote, localData);
+          await this.handleConflict(path, remote);
           return;
         }
       }
@@ -275,14 +880,50 @@ class SyncEngine extends EventEmitter {
       });
       return;
     }
-    await this.handleConflict(path, remote, localData);
+    await this.handleConflict(path, remote);
   }
-  async handleConflict(path, remote, localData) {
+  /**
+   * Apply a remote rename by moving the local copy of `remote.movedFrom` into place.
+   * Returns false (so the caller downloads instead) unless that copy is still the
+   * unmodified synced version with the same content.
+   */
+  async applyRemoteMove(path, remote) {
+    const from = remote.movedFrom;
+    if (this.isIgnored(from)) return false;
+    const tracked = this.localState.get(from);
+    if (!tracked || tracked.lastSyncedHash !== remote.hash) return false;
+    const local = await this.hashLocalFile(from);
+    if (!local || local.hash !== remote.hash) return false;
+    const source = await this.manifest.get(from);
+    if (source && isFileMetadata(source)) {
+      this.movedAway.set(from, { hash: source.hash, seq: source.seq });
+    }
+    const target = join(this.syncFolder, path);
+    this.suppressedPaths.add(from);
+    this.suppressedPaths.add(path);
+    await mkdir(dirname(target), { recursive: true });
+    await rename(join(this.syncFolder, from), target);
+    await this.localState.set(path, {
+      lastSyncedHash: remote.hash,
+      lastSyncedMtime: remote.mtime,
+      lastManifestHash: remote.hash,
+      lastManifestWriterKey: remote.writerKey
+    });
+    await this.localState.remove(from);
+    this.localChanges.delete(path);
+    this.emit("sync", {
+      direction: "remote-to-local",
+      type: "rename",
+      path,
+      fromPath: from
+    });
+    return true;
+  }
+  async handleConflict(path, remote) {
     const loserWriterKey = this.fileStore.core.key.toString("hex");
     const peerName = await this.getPeerName(loserWriterKey);
     const conflictPath = buildConflictPath(path, peerName);
-    this.suppressedPaths.add(conflictPath);
-    await this.drive.put(conflictPath, localData);
+    await this.copyLocalFile(path, conflictPath);
     await this.downloadFile(path, remote);
     this.emit("sync", {
       direction: "remote-to-local",
@@ -293,20 +934,21 @@ class SyncEngine extends EventEmitter {
   }
   async handleRemoteDeletion(path, tombstone) {
     const myWriterKey = this.fileStore.core.key.toString("hex");
+    this.movedAway.delete(path);
     if (tombstone.writerKey === myWriterKey) return;
     const tracked = this.localState.get(path);
     if (!tracked) {
+      if (this.options.onDemand) await this.removePlaceholder(path);
       if (this.startupReconciliationActive) {
         const policy = this.options.startupConflictPolicy ?? "remote-wins";
         if (policy === "local-wins" || policy === "keep-both") {
-          const localData2 = await this.drive.get(path);
-          if (localData2) {
+          const entry = await this.drive.entry(path);
+          if (entry?.value.blob) {
             this.startupPolicyAffectedPaths += 1;
             const localWriterKey = this.fileStore.core.key.toString("hex");
             const peerName = await this.getPeerName(localWriterKey);
             const conflictPath = buildConflictPath(path, `${peerName}-tombstone`);
-            this.suppressedPaths.add(conflictPath);
-            await this.drive.put(conflictPath, localData2);
+            await this.copyLocalFile(path, conflictPath);
             this.suppressedPaths.add(path);
             await this.drive.del(path);
             this.emit("sync", {
@@ -321,18 +963,22 @@ class SyncEngine extends EventEmitter {
       return;
     }
     if (tombstone.baseHash !== tracked.lastSyncedHash) return;
-    const localData = await this.drive.get(path);
-    if (localData) {
-      const localHash = createHash("sha256").update(localData).digest("hex");
-      if (localHash !== tracked.lastSyncedHash) {
-        return;
-      }
+    const local = await this.hashLocalFile(path);
+    if (local && local.hash !== tracked.lastSyncedHash) {
+      return;
     }
-    if (localData) {
+    await this.applyRemoteDeletion(path, local !== null);
+  }
+  /** Move an unmodified synced file to the trash and forget it. */
+  async applyRemoteDeletion(path, exists) {
+    if (exists) {
       this.suppressedPaths.add(path);
+      await this.trash.add(this.drive.toPath(path), path, "remote-delete");
       await this.drive.del(path);
     }
     await this.localState.remove(path);
+    this.localChanges.delete(path);
+    if (path === IGNORE_FILE) await this.reloadIgnoreRules();
     this.emit("sync", {
       direction: "remote-to-local",
       type: "delete",
@@ -340,35 +986,708 @@ class SyncEngine extends EventEmitter {
     });
   }
   async downloadFile(path, metadata) {
-    const data = await this.fetchRemoteFile(metadata);
-    this.suppressedPaths.add(path);
-    await this.drive.put(path, data);
-    const hash = createHash("sha256").update(data).digest("hex");
+    const hash = await this.materializeRemoteFile(path, metadata, "remote-overwrite");
     await this.localState.set(path, {
       lastSyncedHash: hash,
       lastSyncedMtime: metadata.mtime,
       lastManifestHash: metadata.hash,
       lastManifestWriterKey: metadata.writerKey
     });
+    this.localChanges.delete(path);
+    if (this.options.onDemand) await this.removePlaceholder(path);
+    if (path === IGNORE_FILE) await this.reloadIgnoreRules();
+  }
+  /** Write the stub that stands in for a remote file that has not been hydrated. */
+  async writePlaceholder(path, metadata) {
+    const stubPath = this.drive.toPath(placeholderPath(path));
+    await mkdir(dirname(stubPath), { recursive: true });
+    await writeFile(stubPath, placeholderContent(path, metadata));
+  }
+  async removePlaceholder(path) {
+    await rm(this.drive.toPath(placeholderPath(path)), { force: true });
+  }
+  /** Record (or clear) an unpublished local edit by comparing it to the manifest. */
+  trackLocalChange(path, manifestValue, hash, size, mtime) {
+    const remoteFile = manifestValue && isFileMetadata(manifestValue) ? manifestValue : null;
+    if (hash === null) {
+      if (remoteFile) {
+        this.localChanges.set(path, { path, type: "deleted", hash, size: 0, mtime });
+      } else {
+        this.localChanges.delete(path);
+      }
+      return;
+    }
+    if (remoteFile && remoteFile.hash === hash) {
+      this.localChanges.delete(path);
+      return;
+    }
+    this.localChanges.set(path, {
+      path,
+      type: remoteFile ? "modified" : "added",
+      hash,
+      size,
+      mtime
+    });
+  }
+  /**
+   * Restore locally changed paths (all of them by default) to the manifest winner.
+   * Local additions are removed; deleted or modified files are re-downloaded.
+   */
+  async revertLocalChanges(paths) {
+    const run = this.remoteUpdateQueue.then(() => this.applyRevert(paths));
+    this.remoteUpdateQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  async applyRevert(paths) {
+    const manifest = this.manifest;
+    const targets = paths ?? [...this.localChanges.keys()];
+    const reverted = [];
+    for (const rawPath of targets) {
+      const path = normalizePath(rawPath);
+      if (!this.localChanges.has(path)) continue;
+      const manifestValue = await manifest.get(path);
+      if (manifestValue && isFileMetadata(manifestValue)) {
+        await this.downloadFile(path, manifestValue);
+        this.emit("sync", {
+          direction: "remote-to-local",
+          type: "update",
+          path
+        });
+      } else {
+        if (await this.drive.exists(path)) {
+          this.suppressedPaths.add(path);
+          await this.drive.del(path);
+        }
+        await this.localState.remove(path);
+        this.localChanges.delete(path);
+        this.emit("sync", {
+          direction: "remote-to-local",
+          type: "delete",
+          path
+        });
+      }
+      reverted.push(path);
+    }
+    return reverted;
   }
-  async fetchRemoteFile(metadata) {
-    const remoteCore = this.store.get({ key: Buffer.from(metadata.writerKey, "hex") });
+  /**
+   * Re-publish the local tree as the manifest winner for diverged paths (all of them by
+   * default): local files are re-uploaded and paths missing locally are tombstoned.
+   */
+  async overrideRemoteChanges(paths) {
+    const run = this.localChangeQueue.then(() => this.applyOverride(paths));
+    this.localChangeQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  async applyOverride(paths) {
+    const targets = paths ?? [...this.divergedPaths.keys()];
+    const overridden = [];
+    for (const rawPath of targets) {
+      const path = normalizePath(rawPath);
+      if (!this.divergedPaths.has(path)) continue;
+      const type = await this.drive.exists(path) ? "update" : "delete";
+      await this.handleLocalChange(type, path);
+      this.divergedPaths.delete(path);
+      overridden.push(path);
+    }
+    return overridden;
+  }
+  /** Every recorded version of a path, newest first. */
+  async getFileHistory(path) {
+    return this.manifest.getHistory(normalizePath(path));
+  }
+  /**
+   * Bring back the content of an earlier revision (identified by its seq and writer).
+   * It is written to disk and published as a new revision on top of the current one, so
+   * every peer moves forward to it instead of history being rewound.
+   */
+  async restoreRevision(path, revision) {
+    const run = this.localChangeQueue.then(() => this.applyRestore(normalizePath(path), revision));
+    this.localChangeQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  async applyRestore(path, revision) {
+    if (this.getFolderMode() === "receive-only") {
+      throw new Error("Cannot restore revisions in a receive-only folder");
+    }
+    const manifest = this.manifest;
+    const fileStore = this.fileStore;
+    const history = await manifest.getHistory(path);
+    const target = history.find(
+      (r) => r.entry.seq === revision.seq && r.entry.writerKey === revision.writerKey
+    )?.entry;
+    if (!target) {
+      throw new Error(`No revision ${revision.seq} by ${revision.writerKey} for ${path}`);
+    }
+    if (!isFileMetadata(target)) {
+      throw new Error(`Revision ${revision.seq} of ${path} is a deletion`);
+    }
+    const localWriterKey = fileStore.core.key.toString("hex");
+    for (const source of fileChunks(target)) {
+      if (source.writerKey === localWriterKey && !await fileStore.core.has(source.index)) {
+        throw new Error(`Revision ${revision.seq} of ${path} has been garbage collected`);
+      }
+    }
+    this.cancelPendingDelete(path);
+    const current = await manifest.get(path);
+    await this.materializeRemoteFile(path, target);
+    if (current && isFileMetadata(current) && current.hash === target.hash) return current;
+    const entry = await this.drive.entry(path);
+    const mtime = entry?.mtime ?? Date.now();
+    const stored = await this.storeFile(path, target);
+    const metadata = {
+      kind: "file",
+      size: stored.size,
+      mtime,
+      hash: stored.hash,
+      ...nextVersion(current),
+      writerKey: fileStore.core.key.toString("hex"),
+      chunks: stored.chunks
+    };
+    await manifest.put(path, metadata);
+    this.divergedPaths.delete(path);
+    await this.localState.set(path, {
+      lastSyncedHash: stored.hash,
+      lastSyncedMtime: mtime,
+      lastManifestHash: stored.hash,
+      lastManifestWriterKey: metadata.writerKey
+    });
+    this.emit("sync", {
+      direction: "local-to-remote",
+      type: "update",
+      path
+    });
+    return metadata;
+  }
+  /**
+   * Delete revision records past the history retention, then clear the local copies of
+   * file-data blocks that neither current entries nor retained history reference. Blocks
+   * are only cleared after staying unreferenced for the grace period; cleared chunks are
+   * dropped from the dedup index.
+   */
+  async collectGarbage() {
+    const run = this.localChangeQueue.then(() => this.runGc());
+    this.localChangeQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  async runGc() {
+    const fileStore = this.fileStore;
+    const core = fileStore.core;
+    const writerKey = core.key.toString("hex");
+    await this.pruneHistory();
+    const retained = await this.listRetainedFiles();
+    const referenced = referencedBlocks(writerKey, retained);
+    const now = Date.now();
+    const graceMs = this.options.gcGraceMs ?? DEFAULT_GC_GRACE_MS;
+    const candidates = /* @__PURE__ */ new Map();
+    const expired = [];
+    for (let index = 0; index < core.length; index++) {
+      if (referenced.has(index) || !await core.has(index)) continue;
+      const since = this.gcCandidates.get(index) ?? now;
+      if (now - since >= graceMs) expired.push(index);
+      else candidates.set(index, since);
+    }
+    const cleared = await fileStore.clearBlocks(expired);
+    this.gcCandidates = candidates;
+    if (cleared.blocks > 0) {
+      this.chunkIndex = new ChunkIndex(writerKey);
+      for (const file of retained) this.chunkIndex.addFile(file);
+    }
+    this.reclaimedBytes += cleared.bytes;
+    this.lastGc = {
+      at: now,
+      clearedBlocks: cleared.blocks,
+      reclaimedBytes: cleared.bytes,
+      pendingBlocks: candidates.size
+    };
+    return this.lastGc;
+  }
+  /**
+   * Delete revision records past the history retention. Receive-only and read-only peers do
+   * not publish changes, so they leave this to the others.
+   */
+  async pruneHistory() {
+    if (this.readOnly || this.getFolderMode() === "receive-only") return;
+    const manifest = this.manifest;
+    const expired = expiredRevisions(
+      await this.currentEntries(),
+      await manifest.listRevisions(),
+      Date.now(),
+      this.options.historyRetentionMs ?? DEFAULT_HISTORY_RETENTION_MS,
+      this.options.historyMaxRevisions
+    );
+    await manifest.removeRevisions(expired);
+  }
+  /** Current file entries plus superseded revisions still inside the history retention. */
+  async listRetainedFiles() {
+    return retainedFiles(
+      await this.currentEntries(),
+      await this.manifest.listRevisions(),
+      Date.now(),
+      this.options.historyRetentionMs ?? DEFAULT_HISTORY_RETENTION_MS,
+      this.options.historyMaxRevisions
+    );
+  }
+  /** Current file and tombstone entries, by path. */
+  async currentEntries() {
+    const current = /* @__PURE__ */ new Map();
+    for (const { path, metadata } of await this.manifest.list()) {
+      if (isFileMetadata(metadata) || isTombstone(metadata)) current.set(path, metadata);
+    }
+    return current;
+  }
+  async getStorageStats() {
+    const core = this.fileStore.core;
+    const referenced = referencedBlocks(core.key.toString("hex"), await this.listRetainedFiles());
+    let referencedBytes = 0;
+    for (const size of referenced.values()) referencedBytes += size;
+    return {
+      coreBlocks: core.length,
+      coreBytes: core.byteLength,
+      referencedBlocks: referenced.size,
+      referencedBytes,
+      pendingBlocks: this.gcCandidates.size,
+      reclaimedBytes: this.reclaimedBytes,
+      lastGc: this.lastGc
+    };
+  }
+  /**
+   * Paranoid check: forget every cached hash, then re-read every local file and re-check
+   * every manifest entry, publishing or applying any difference found. Resolves with the
+   * number of local files hashed.
+   */
+  async rehash() {
+    const run = this.localChangeQueue.then(async () => {
+      this.hashCache.clear();
+      return this.scanLocalFiles();
+    });
+    this.localChangeQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    const files = await run;
+    this.fullScanPending = true;
+    this._onRemoteUpdate();
+    await this.remoteUpdateQueue;
+    return files;
+  }
+  /**
+   * Stop publishing local changes and applying remote ones, without stopping the engine.
+   * Work already in progress finishes. Local changes are remembered by path, and the
+   * manifest keeps replicating so nothing is missed.
+   */
+  pause() {
+    this.paused = true;
+  }
+  /**
+   * Process everything that arrived while paused: first the remote changes, so local
+   * edits to files that also changed remotely become conflict copies rather than
+   * overwriting the remote version, then the local changes in path order.
+   */
+  async resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    const paths = [...this.pausedPaths].sort();
+    this.pausedPaths.clear();
+    if (this.remoteUpdateDeferred) {
+      this.remoteUpdateDeferred = false;
+      this._onRemoteUpdate();
+    }
+    await this.remoteUpdateQueue;
+    for (const path of paths) {
+      const type = await this.drive.exists(path) ? "update" : "delete";
+      this.enqueueWatcherChange(type, path);
+    }
+    await this.localChangeQueue;
+  }
+  /**
+   * Compare every local file with the local state and handle the changes the watcher
+   * missed, as if their events had arrived now. Paths still settling or waiting on the
+   * rename window are left to the watcher. Emits the result as an `audit` event.
+   */
+  async rescan() {
+    const run = this.localChangeQueue.then(() => this.runRescan());
+    this.localChangeQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    const result = await run;
+    this.emit("audit", result);
+    return result;
+  }
+  async runRescan() {
+    const drive = this.drive;
+    const manifest = this.manifest;
+    const missed = [];
+    const onDisk = /* @__PURE__ */ new Set();
+    let scannedFiles = 0;
+    for await (const entry of drive.list("/")) {
+      if (!entry.value.blob || this.isIgnored(entry.key)) continue;
+      onDisk.add(entry.key);
+      if (this.settling.has(entry.key)) continue;
+      const local = await this.hashCache.hash(entry.key, drive.toPath(entry.key));
+      if (!local) continue;
+      scannedFiles++;
+      if (local.hash === this.localState.get(entry.key)?.lastSyncedHash) continue;
+      if (local.hash === this.localChanges.get(entry.key)?.hash) continue;
+      const manifestValue = await manifest.get(entry.key);
+      if (manifestValue && isFileMetadata(manifestValue) && manifestValue.hash === local.hash) {
+        continue;
+      }
+      missed.push({ type: "update", path: entry.key });
+    }
+    for (const path of this.localState.paths()) {
+      if (onDisk.has(path) || this.isIgnored(path)) continue;
+      if (this.settling.has(path) || this.pendingDeletes.has(path)) continue;
+      if (this.localChanges.get(path)?.type === "deleted") continue;
+      const manifestValue = await manifest.get(path);
+      if (!manifestValue || !isFileMetadata(manifestValue)) continue;
+      missed.push({ type: "delete", path });
+    }
+    for (const change of missed) {
+      try {
+        await this.handleLocalChange(change.type, change.path, { detectRename: true });
+      } catch (err) {
+        this.emit("error", err);
+      }
+    }
+    return { kind: "rescan", at: Date.now(), scannedFiles, discrepancies: missed.length };
+  }
+  /** Files that sync deleted or replaced locally, most recent first. */
+  getTrash() {
+    return this.trash.list();
+  }
+  /**
+   * Move a trashed file back to its original path and publish it as a local change.
+   * Whatever is at that path now is moved to the trash in its place.
+   */
+  async restoreFromTrash(id) {
+    const run = this.remoteUpdateQueue.then(() => this.applyTrashRestore(id));
+    this.remoteUpdateQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  async applyTrashRestore(id) {
+    const entry = this.trash.get(id);
+    if (!entry) throw new Error(`No trash entry ${id}`);
+    const tempKey = this.createTempKey();
+    const tempPath = this.drive.toPath(tempKey);
+    await mkdir(dirname(tempPath), { recursive: true });
+    await rename(this.trash.filePath(id), tempPath);
+    await this.trash.forget(id);
+    const target = this.drive.toPath(entry.path);
+    if ((await this.drive.entry(entry.path))?.value.blob) {
+      await this.trash.add(target, entry.path, "restore");
+    }
+    await mkdir(dirname(target), { recursive: true });
+    await rename(tempPath, target);
+    this.suppressedPaths.delete(entry.path);
+    this.localChangeQueue = this.localChangeQueue.then(async () => {
+      try {
+        await this.handleLocalChange("update", entry.path);
+      } catch (err) {
+        this.emit("error", err);
+      }
+    });
+    return entry;
+  }
+  isIgnored(path) {
+    return isSyncIgnored(
+      path,
+      this.ignoreRules,
+      this.options.syncIgnoreFile,
+      (excluded) => this.selectiveSync.excludes(excluded)
+    );
+  }
+  /** Read `.pearsyncignore` from disk. Returns true if the rules changed. */
+  async loadIgnoreRules() {
+    const data = await this.drive.get(IGNORE_FILE);
+    const source = data ? data.toString("utf-8") : "";
+    if (source === this.ignoreSource) return false;
+    this.ignoreSource = source;
+    this.ignoreRules = IgnoreMatcher.parse(source);
+    return true;
+  }
+  /**
+   * Hot-reload ignore rules. Paths that just became un-ignored are picked up by
+   * re-running the local scan and the remote pass after the current work drains.
+   */
+  async reloadIgnoreRules() {
+    const changed = await this.loadIgnoreRules();
+    if (!changed || !this.watcher) return;
+    this.fullScanPending = true;
+    this.localChangeQueue = this.localChangeQueue.then(async () => {
+      try {
+        await this.scanLocalFiles();
+      } catch (err) {
+        this.emit("error", err);
+      }
+    });
+    this._onRemoteUpdate();
+  }
+  /**
+   * Hash a file in the sync folder, streaming it unless the hash cache has it for the
+   * current stat; null if there is no regular file.
+   */
+  async hashLocalFile(path) {
+    const entry = await this.drive.entry(path);
+    if (!entry?.value.blob) return null;
+    return this.hashCache.hash(path, this.drive.toPath(path));
+  }
+  /**
+   * Stream a remote file to disk at `path`, reusing chunks from the current local copy
+   * and from any core that already has a chunk with the same hash. Only missing chunks
+   * are fetched from peers, and only one chunk is held in memory at a time. The content
+   * is staged in a temp file and only renamed into place once it matches the manifest
+   * hash, so neither the watcher nor other apps ever see a partial or corrupt file.
+   * With `trashCause`, the file it replaces is kept in the trash. Returns the sha256 of
+   * the written content.
+   */
+  async materializeRemoteFile(path, metadata, trashCause) {
+    const cores = /* @__PURE__ */ new Map();
+    const openCore = async (writerKey) => {
+      let core = cores.get(writerKey);
+      if (!core) {
+        core = this.store.get({ key: Buffer.from(writerKey, "hex") });
+        cores.set(writerKey, core);
+        await core.ready();
+      }
+      return core;
+    };
+    const tempKey = this.createTempKey();
+    let previous = null;
     try {
-      await remoteCore.ready();
-      const blocks = [];
-      for (let i = 0; i < metadata.blocks.length; i++) {
-        const block = await remoteCore.get(metadata.blocks.offset + i);
-        if (!block)
-          throw new Error(
-            `Missing block ${metadata.blocks.offset + i} from ${metadata.writerKey}`
-          );
-        blocks.push(block);
-      }
-      return Buffer.concat(blocks);
+      const sources = fileChunks(metadata);
+      const transfer = {
+        path,
+        state: "active",
+        blocksDone: 0,
+        blocksTotal: sources.length,
+        bytesDone: 0,
+        bytesTotal: metadata.size,
+        startedAt: Date.now()
+      };
+      this.transfers.set(path, transfer);
+      this.emit("progress", path);
+      const localChunks = sources.some((source) => source.hash !== null) ? await this.indexLocalChunks(path, metadata.chunks !== void 0) : /* @__PURE__ */ new Map();
+      if (localChunks.size > 0) previous = await open(this.drive.toPath(path), "r");
+      const hasher = createHash("sha256");
+      await this.writeLocalFile(
+        tempKey,
+        this.readRemoteChunks(sources, localChunks, previous, openCore, hasher, transfer)
+      );
+      await previous?.close();
+      previous = null;
+      const hash = hasher.digest("hex");
+      if (hash !== metadata.hash) {
+        throw new Error(`Downloaded content for ${path} does not match the manifest hash`);
+      }
+      if (trashCause && (await this.drive.entry(path))?.value.blob) {
+        await this.trash.add(this.drive.toPath(path), path, trashCause);
+      }
+      await this.commitTempFile(tempKey, path);
+      return hash;
+    } catch (err) {
+      await rm(this.drive.toPath(tempKey), { force: true });
+      throw err;
     } finally {
-      await remoteCore.close();
+      this.endTransfer(path);
+      await previous?.close();
+      for (const core of cores.values()) await core.close();
     }
   }
+  createTempKey() {
+    return `${TEMP_DIR}/${randomBytes(16).toString("hex")}`;
+  }
+  /** Flush a finished temp file to stable storage, then atomically rename it over `path`. */
+  async commitTempFile(tempKey, path) {
+    const tempPath = this.drive.toPath(tempKey);
+    const handle = await open(tempPath, "r+");
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    const target = this.drive.toPath(path);
+    this.suppressedPaths.add(path);
+    await mkdir(dirname(target), { recursive: true });
+    await rename(tempPath, target);
+  }
+  /** Copy a local file to a new path (e.g. a conflict copy) through the temp dir. */
+  async copyLocalFile(from, to) {
+    const tempKey = this.createTempKey();
+    const tempPath = this.drive.toPath(tempKey);
+    try {
+      await mkdir(dirname(tempPath), { recursive: true });
+      await copyFile(this.drive.toPath(from), tempPath);
+      await this.commitTempFile(tempKey, to);
+    } catch (err) {
+      await rm(tempPath, { force: true });
+      throw err;
+    }
+  }
+  /** Locate each chunk of the local file at `path` without keeping its bytes. */
+  async indexLocalChunks(path, cdc) {
+    const chunks = /* @__PURE__ */ new Map();
+    const entry = await this.drive.entry(path);
+    if (!entry?.value.blob) return chunks;
+    const source = this.drive.createReadStream(path);
+    const pieces = cdc ? cdcChunkStream(source) : chunkStream(source, DEFAULT_BLOCK_SIZE);
+    let offset = 0;
+    for await (const piece of pieces) {
+      chunks.set(hashBuffer(piece), { offset, size: piece.length });
+      offset += piece.length;
+    }
+    return chunks;
+  }
+  async *readRemoteChunks(sources, localChunks, previous, openCore, hasher, transfer) {
+    const prefetches = [];
+    const prefetched = /* @__PURE__ */ new Set();
+    let prefetchedUpTo = 0;
+    try {
+      for (let i = 0; i < sources.length; i++) {
+        if (prefetchedUpTo < sources.length && i >= prefetchedUpTo - PREFETCH_BATCH_BLOCKS / 2) {
+          const batch = sources.slice(prefetchedUpTo, prefetchedUpTo + PREFETCH_BATCH_BLOCKS);
+          prefetchedUpTo += batch.length;
+          prefetches.push(...await this.prefetchBlocks(batch, localChunks, openCore, prefetched));
+        }
+        const source = sources[i];
+        const fetched = prefetched.has(source);
+        const known = source.hash && !fetched ? await this.readKnownBlock(source.hash, localChunks, previous, openCore) : null;
+        let block;
+        if (known) {
+          this.transferStats.bytesReused += known.length;
+          block = known;
+        } else {
+          block = await this.readBlock(source, openCore, fetched);
+          if (source.hash && hashBuffer(block) !== source.hash) {
+            throw new Error(
+              `Chunk ${source.index} from ${source.writerKey} does not match its hash`
+            );
+          }
+        }
+        hasher.update(block);
+        transfer.blocksDone++;
+        transfer.bytesDone += block.length;
+        this.emit("progress", transfer.path);
+        yield block;
+      }
+    } finally {
+      for (const prefetch of prefetches) prefetch.destroy();
+    }
+  }
+  /**
+   * Start background downloads for the blocks of `batch` that are not available locally,
+   * adding their sources to `prefetched`.
+   */
+  async prefetchBlocks(batch, localChunks, openCore, prefetched) {
+    const wanted = /* @__PURE__ */ new Map();
+    for (const source of batch) {
+      if (source.hash && await this.hasLocalChunk(source.hash, localChunks, openCore)) continue;
+      if (await (await openCore(source.writerKey)).has(source.index)) continue;
+      prefetched.add(source);
+      const sources = wanted.get(source.writerKey) ?? [];
+      sources.push(source);
+      wanted.set(source.writerKey, sources);
+    }
+    if (wanted.size === 0) return [];
+    const downloads = [];
+    for (const [writerKey, sources] of wanted) {
+      const core = await openCore(writerKey);
+      sources.sort((a, b) => a.index - b.index);
+      for (const source of sources) {
+        await this.bandwidth.reserveDownload(source.size);
+        downloads.push(core.download({ start: source.index, end: source.index + 1 }));
+      }
+    }
+    return downloads;
+  }
+  /** Whether a chunk can be read without the network, as `readKnownBlock` would. */
+  async hasLocalChunk(hash, localChunks, openCore) {
+    if (localChunks.has(hash)) return true;
+    const location = this.chunkIndex.get(hash);
+    if (!location) return false;
+    const core = await openCore(location.writerKey);
+    return location.index < core.length && core.has(location.index);
+  }
+  /** Write a sequence of buffers to `path` in the sync folder, honouring backpressure. */
+  async writeLocalFile(path, source) {
+    const stream = this.drive.createWriteStream(path);
+    const closed = new Promise((resolve, reject) => {
+      let error = null;
+      stream.on("error", (err) => {
+        error = err;
+      });
+      stream.on("close", () => error ? reject(error) : resolve());
+    });
+    try {
+      for await (const data of source) {
+        if (!stream.write(data)) await new Promise((resolve) => stream.once("drain", resolve));
+      }
+      stream.end();
+    } catch (err) {
+      stream.destroy(err);
+    }
+    await closed;
+  }
+  /** Find a chunk by hash without touching the network, or null if none is local. */
+  async readKnownBlock(hash, localChunks, previous, openCore) {
+    const local = localChunks.get(hash);
+    if (local && previous) {
+      const block2 = Buffer.alloc(local.size);
+      const { bytesRead } = await previous.read(block2, 0, local.size, local.offset);
+      if (bytesRead === local.size && hashBuffer(block2) === hash) return block2;
+    }
+    const location = this.chunkIndex.get(hash);
+    if (!location) return null;
+    const core = await openCore(location.writerKey);
+    if (location.index >= core.length || !await core.has(location.index)) return null;
+    const block = await core.get(location.index, { wait: false });
+    if (!block || hashBuffer(block) !== hash) return null;
+    return block;
+  }
+  /** Read a block, waiting for peers if needed. A `prefetched` block counts as fetched. */
+  async readBlock({ writerKey, index, size }, openCore, prefetched = false) {
+    const core = await openCore(writerKey);
+    const local = !prefetched && await core.has(index);
+    if (!local && !prefetched) await this.bandwidth.reserveDownload(size);
+    const block = await core.get(index);
+    if (!block) throw new Error(`Missing block ${index} from ${writerKey}`);
+    if (local) {
+      this.transferStats.bytesReused += block.length;
+    } else {
+      this.transferStats.bytesFetched += block.length;
+    }
+    return block;
+  }
   ensureFsWatchPatched() {
     if (mutableFs.__pearsyncWatchPatched) return;
     const originalWatch = mutableFs.watch.bind(mutableFs);
@@ -398,9 +1717,6 @@ class SyncEngine extends EventEmitter {
     }
   }
   async initialSync() {
-    const drive = this.drive;
-    const fileStore = this.fileStore;
-    const manifest = this.manifest;
     this.startupReconciliationActive = true;
     this.startupPolicyAffectedPaths = 0;
     try {
@@ -414,45 +1730,66 @@ class SyncEngine extends EventEmitter {
         affectedPaths: this.startupPolicyAffectedPaths
       });
     }
-    for await (const entry of drive.list("/")) {
-      if (entry.key.startsWith("/.pearsync/")) continue;
-      const data = await drive.get(entry.key);
-      if (!data) continue;
-      const hash = createHash("sha256").update(data).digest("hex");
-      const existing = await manifest.get(entry.key);
-      if (existing && isFileMetadata(existing) && existing.hash === hash) {
+    await this.scanLocalFiles();
+  }
+  /** Publish local files whose content is not yet in the manifest. Returns how many were hashed. */
+  async scanLocalFiles() {
+    return this.localState.batch(async () => {
+      const drive = this.drive;
+      const fileStore = this.fileStore;
+      const manifest = this.manifest;
+      let files = 0;
+      for await (const entry of drive.list("/")) {
+        if (this.isIgnored(entry.key)) continue;
+        if (!entry.value.blob) continue;
+        const local = await this.hashCache.hash(entry.key, drive.toPath(entry.key));
+        if (!local) continue;
+        const { hash, size } = local;
+        files++;
+        const existing = await manifest.get(entry.key);
+        if (this.getFolderMode() === "receive-only") {
+          this.trackLocalChange(entry.key, existing, hash, size, entry.mtime);
+        }
+        if (existing && isFileMetadata(existing) && existing.hash === hash) {
+          await this.localState.set(entry.key, {
+            lastSyncedHash: hash,
+            lastSyncedMtime: entry.mtime,
+            lastManifestHash: existing.hash,
+            lastManifestWriterKey: existing.writerKey
+          });
+          continue;
+        }
+        if (this.getFolderMode() === "receive-only") continue;
+        if (this.divergedPaths.has(entry.key) && hash === (this.localState.get(entry.key)?.lastSyncedHash ?? hash)) {
+          continue;
+        }
+        const stored = await this.storeFile(entry.key);
+        const metadata = {
+          kind: "file",
+          size: stored.size,
+          mtime: entry.mtime,
+          hash: stored.hash,
+          baseHash: existing ? isFileMetadata(existing) ? existing.hash : isTombstone(existing) ? existing.baseHash : null : null,
+          seq: existing && (isFileMetadata(existing) || isTombstone(existing)) ? existing.seq + 1 : 1,
+          writerKey: fileStore.core.key.toString("hex"),
+          chunks: stored.chunks
+        };
+        await manifest.put(entry.key, metadata);
+        this.divergedPaths.delete(entry.key);
         await this.localState.set(entry.key, {
-          lastSyncedHash: hash,
+          lastSyncedHash: stored.hash,
           lastSyncedMtime: entry.mtime,
-          lastManifestHash: existing.hash,
-          lastManifestWriterKey: existing.writerKey
+          lastManifestHash: stored.hash,
+          lastManifestWriterKey: metadata.writerKey
+        });
+        this.emit("sync", {
+          direction: "local-to-remote",
+          type: "update",
+          path: entry.key
         });
-        continue;
       }
-      const stored = await fileStore.writeFile(data);
-      const metadata = {
-        kind: "file",
-        size: stored.size,
-        mtime: entry.mtime,
-        hash: stored.hash,
-        baseHash: existing ? isFileMetadata(existing) ? existing.hash : isTombstone(existing) ? existing.baseHash : null : null,
-        seq: existing && (isFileMetadata(existing) || isTombstone(existing)) ? existing.seq + 1 : 1,
-        writerKey: fileStore.core.key.toString("hex"),
-        blocks: { offset: stored.offset, length: stored.length }
-      };
-      await manifest.put(entry.key, metadata);
-      await this.localState.set(entry.key, {
-        lastSyncedHash: hash,
-        lastSyncedMtime: entry.mtime,
-        lastManifestHash: hash,
-        lastManifestWriterKey: metadata.writerKey
-      });
-      this.emit("sync", {
-        direction: "local-to-remote",
-        type: "update",
-        path: entry.key
-      });
-    }
+      return files;
+    });
   }
   getManifest() {
     if (!this.manifest) throw new Error("SyncEngine not ready");
@@ -462,6 +1799,163 @@ class SyncEngine extends EventEmitter {
     if (!this.fileStore) throw new Error("SyncEngine not ready");
     return this.fileStore;
   }
+  /** A read-only peer always behaves as `receive-only`, whatever mode was configured. */
+  getFolderMode() {
+    if (this.readOnly) return "receive-only";
+    return this.options.folderMode ?? "send-receive";
+  }
+  /** Whether this peer joined with a read-only invite, so it never writes to the manifest. */
+  isReadOnly() {
+    return this.readOnly;
+  }
+  isPaused() {
+    return this.paused;
+  }
+  /** Local edits that have not been published (receive-only mode). */
+  getLocalChanges() {
+    return [...this.localChanges.values()];
+  }
+  getTransferStats() {
+    return { ...this.transferStats };
+  }
+  /** Move a remote file to the front of the download queue, now or when it next changes. */
+  prioritizeDownload(path) {
+    this.downloads.prioritize(normalizePath(path));
+    this.emit("progress", null);
+  }
+  /** Downloads in progress followed by those still queued, in the order they will start. */
+  getTransfers() {
+    const now = Date.now();
+    const order = new Map(this.downloads.pending().map((path, index) => [path, index]));
+    const transfers = [];
+    for (const transfer of this.transfers.values()) {
+      const elapsedMs = transfer.startedAt === null ? 0 : now - transfer.startedAt;
+      const bytesPerSec = elapsedMs > 0 ? Math.round(transfer.bytesDone / elapsedMs * 1e3) : 0;
+      const etaMs = bytesPerSec > 0 ? Math.round((transfer.bytesTotal - transfer.bytesDone) / bytesPerSec * 1e3) : null;
+      transfers.push({ ...transfer, bytesPerSec, etaMs });
+    }
+    const rank = (transfer) => transfer.state === "active" ? -1 : order.get(transfer.path) ?? order.size;
+    return transfers.sort((a, b) => rank(a) - rank(b));
+  }
+  /** Whether remote files stay placeholders until hydrated. */
+  isOnDemand() {
+    return this.options.onDemand ?? false;
+  }
+  /** Whether the content of `path` is on disk and synced, rather than a placeholder or pending. */
+  isHydrated(path) {
+    return this.localState.has(normalizePath(path));
+  }
+  /** Download a file that is only a placeholder (or not yet downloaded) and keep it synced. */
+  async hydrate(path) {
+    const run = this.remoteUpdateQueue.then(() => this.applyHydrate(normalizePath(path)));
+    this.remoteUpdateQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  async applyHydrate(path) {
+    if (this.isIgnored(path)) throw new Error(`${path} is ignored or excluded from sync`);
+    const metadata = await this.manifest.get(path);
+    if (!metadata || !isFileMetadata(metadata)) throw new Error(`No file ${path} to hydrate`);
+    if (this.localState.has(path)) return;
+    this.hydrating.add(path);
+    try {
+      await this.handleRemoteUpdate(path, metadata);
+    } finally {
+      this.hydrating.delete(path);
+      this.endTransfer(path);
+    }
+  }
+  /**
+   * Remove the local copy of a hydrated file to reclaim space, leaving a placeholder. The
+   * manifest entry is untouched, so no peer sees a delete. Only content that matches the
+   * manifest can be evicted, since unpublished edits would be lost.
+   */
+  async evict(path) {
+    const run = this.remoteUpdateQueue.then(() => this.applyEvict(normalizePath(path)));
+    this.remoteUpdateQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    return run;
+  }
+  async applyEvict(path) {
+    if (!this.options.onDemand) {
+      throw new Error("Files can only be evicted in on-demand mode");
+    }
+    const tracked = this.localState.get(path);
+    if (!tracked) return;
+    const metadata = await this.manifest.get(path);
+    const local = await this.hashLocalFile(path);
+    if (!metadata || !isFileMetadata(metadata) || local?.hash !== metadata.hash) {
+      throw new Error(`${path} has changes that are not in the manifest`);
+    }
+    this.suppressedPaths.add(path);
+    await this.drive.del(path);
+    this.hashCache.forget(path);
+    await this.localState.remove(path);
+    await this.writePlaceholder(path, metadata);
+  }
+  /** Subtrees this peer does not materialise. */
+  getSelectiveSync() {
+    return this.selectiveSync.getExcluded();
+  }
+  /**
+   * Replace the excluded subtrees. Unmodified local copies of newly excluded files are
+   * removed (their manifest entries stay); locally edited ones are kept on disk but no longer
+   * synced. Newly included paths are downloaded by a full remote pass. Resolves with the
+   * normalized rules.
+   */
+  async setSelectiveSync(excluded) {
+    const run = this.remoteUpdateQueue.then(() => this.applySelectiveSync(excluded));
+    this.remoteUpdateQueue = run.then(
+      () => {
+      },
+      () => {
+      }
+    );
+    const rules = await run;
+    if (this.watcher) {
+      this.fullScanPending = true;
+      this.localChangeQueue = this.localChangeQueue.then(async () => {
+        try {
+          await this.scanLocalFiles();
+        } catch (err) {
+          this.emit("error", err);
+        }
+      });
+      this._onRemoteUpdate();
+    }
+    return rules;
+  }
+  async applySelectiveSync(excluded) {
+    await this.selectiveSync.setExcluded(excluded);
+    for (const path of this.localState.paths()) {
+      if (!this.selectiveSync.excludes(path)) continue;
+      const tracked = this.localState.get(path);
+      const local = await this.hashLocalFile(path);
+      if (local && local.hash !== tracked.lastSyncedHash) continue;
+      if (local) await this.drive.del(path);
+      this.hashCache.forget(path);
+      await this.localState.remove(path);
+      this.localChanges.delete(path);
+      this.divergedPaths.delete(path);
+    }
+    return this.selectiveSync.getExcluded();
+  }
+  /** Current replication upload and download rates in bytes per second. */
+  getTransferRates() {
+    return this.bandwidth.rates();
+  }
+  /** Remote changes that have not been applied (send-only mode). */
+  getDivergedPaths() {
+    return [...this.divergedPaths.values()];
+  }
 }
 export {
   SyncEngine,
@@ -0,0 +1,120 @@
+import { randomBytes } from "bare-crypto";
+import { copyFile, link, mkdir, readFile, rename, rm, stat, writeFile } from "bare-fs/promises";
+import { join } from "bare-path";
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1e3;
+const DEFAULT_MAX_BYTES = 1024 * 1024 * 1024;
+const causes = ["remote-delete", "remote-overwrite", "restore"];
+class TrashStore {
+  entries = /* @__PURE__ */ new Map();
+  dir;
+  indexPath;
+  retention;
+  writeQueue = Promise.resolve();
+  constructor(syncFolder, retention) {
+    this.dir = join(syncFolder, ".pearsync", "trash");
+    this.indexPath = join(this.dir, "index.json");
+    this.retention = retention ?? {};
+  }
+  /** Load the index, forget entries whose file is gone, and apply retention. */
+  async load() {
+    this.entries = /* @__PURE__ */ new Map();
+    let raw = [];
+    try {
+      raw = JSON.parse(await readFile(this.indexPath, "utf-8"));
+    } catch (err) {
+      if (!(err instanceof SyntaxError) && err.code !== "ENOENT") {
+        throw err;
+      }
+    }
+    for (const value of Array.isArray(raw) ? raw : []) {
+      const entry = this.parseEntry(value);
+      if (!entry) continue;
+      try {
+        await stat(this.filePath(entry.id));
+      } catch {
+        continue;
+      }
+      this.entries.set(entry.id, entry);
+    }
+    await this.prune();
+  }
+  /** All entries, most recently trashed first. */
+  list() {
+    return [...this.entries.values()].sort((a, b) => b.trashedAt - a.trashedAt);
+  }
+  get(id) {
+    return this.entries.get(id);
+  }
+  /** Where the content of a trash entry is stored on disk. */
+  filePath(id) {
+    return join(this.dir, id);
+  }
+  /**
+   * Keep the current content of the file at `absPath`. The file is hard-linked (or copied
+   * where links are unsupported) and left in place for the caller to delete or atomically
+   * replace.
+   */
+  async add(absPath, path, cause) {
+    await mkdir(this.dir, { recursive: true });
+    const id = randomBytes(8).toString("hex");
+    const target = this.filePath(id);
+    try {
+      await link(absPath, target);
+    } catch {
+      await copyFile(absPath, target);
+    }
+    const { size } = await stat(target);
+    const entry = { id, path, trashedAt: Date.now(), cause, size };
+    this.entries.set(id, entry);
+    await this.prune();
+    return entry;
+  }
+  /** Forget an entry whose file the caller has moved out of the trash. */
+  async forget(id) {
+    this.entries.delete(id);
+    await this.persist();
+  }
+  /** Purge entries past the age limit, then the oldest ones until the size limit is met. */
+  async prune(now = Date.now()) {
+    const maxAgeMs = this.retention.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    const maxBytes = this.retention.maxBytes ?? DEFAULT_MAX_BYTES;
+    const newestFirst = this.list();
+    let total = 0;
+    for (const entry of newestFirst) {
+      total += entry.size;
+      if (now - entry.trashedAt > maxAgeMs || total > maxBytes) {
+        this.entries.delete(entry.id);
+        await rm(this.filePath(entry.id), { force: true });
+      }
+    }
+    await this.persist();
+  }
+  /** Atomic write of the index, serialized via queue. */
+  persist() {
+    this.writeQueue = this.writeQueue.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      const tmpPath = `${this.indexPath}.${randomBytes(4).toString("hex")}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(this.list(), null, 2));
+      await rename(tmpPath, this.indexPath);
+    });
+    return this.writeQueue;
+  }
+  parseEntry(value) {
+    if (typeof value !== "object" || value === null) return null;
+    const entry = value;
+    if (typeof entry.id !== "string" || !/^[0-9a-f]+$/.test(entry.id) || typeof entry.path !== "string" || typeof entry.trashedAt !== "number" || typeof entry.size !== "number" || !causes.includes(entry.cause)) {
+      return null;
+    }
+    return {
+      id: entry.id,
+      path: entry.path,
+      trashedAt: entry.trashedAt,
+      cause: entry.cause,
+      size: entry.size
+    };
+  }
+}
+export {
+  TrashStore
+};
+//# sourceMappingURL=trash-store.js.map
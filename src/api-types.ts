@@ -1,5 +1,10 @@
 export type StartupConflictPolicy = "remote-wins" | "local-wins" | "keep-both";
 
+export type FolderMode = "send-receive" | "receive-only" | "send-only";
+
+/** Whether a peer can publish changes, or only receives them (joined with a read-only invite) */
+export type PeerRole = "writer" | "read-only";
+
 /** Event stored in the ring buffer and returned by GET /api/events */
 export interface AppEvent {
   id: number;
@@ -9,6 +14,7 @@ export interface AppEvent {
     | "download"
     | "delete"
     | "conflict"
+    | "rename"
     | "peer-join"
     | "peer-leave"
     | "error"
@@ -25,15 +31,67 @@ export interface FileInfo {
   mtime: number;
   writerKey: string;
   peerName: string;
-  syncState: "synced" | "syncing" | "conflict" | "local-only";
+  syncState: "synced" | "syncing" | "conflict" | "local-only" | "locally-changed" | "excluded";
+  /** Whether the content is on disk, rather than a placeholder (on-demand mode) or pending */
+  hydrated: boolean;
+}
+
+/** One version of a file, returned newest first by GET /api/files/:path/history */
+export interface FileRevision {
+  seq: number;
+  writerKey: string;
+  peerName: string;
+  mtime: number;
+  /** Content hash, or null when this revision deleted the file */
+  hash: string | null;
+  size: number;
+  /** Whether this revision is the file's current manifest entry */
+  current: boolean;
+}
+
+/** Trashed file returned by GET /api/trash */
+export interface TrashInfo {
+  id: string;
+  /** Original path in the sync folder */
+  path: string;
+  trashedAt: number;
+  cause: "remote-delete" | "remote-overwrite" | "restore";
+  size: number;
+}
+
+/** Selective-sync rules returned by GET and PUT /api/selective-sync */
+export interface SelectiveSyncInfo {
+  /** Subtrees this peer does not materialise */
+  excluded: string[];
+  /** Every folder in the shared manifest, for choosing what to exclude */
+  folders: string[];
 }
 
 /** Peer entry returned by GET /api/peers */
 export interface PeerInfo {
+  /** A remote read-only peer has no writer key we know of; it is listed by its swarm key */
   writerKey: string;
   name: string;
   isLocal: boolean;
   isConnected: boolean;
+  role: PeerRole;
+}
+
+/**
+ * Download in progress or queued, returned by GET /api/transfers and streamed in "progress"
+ * WebSocket messages
+ */
+export interface TransferInfo {
+  path: string;
+  state: "queued" | "active";
+  blocksDone: number;
+  blocksTotal: number;
+  bytesDone: number;
+  bytesTotal: number;
+  /** Average since the download started */
+  bytesPerSec: number;
+  /** Estimated time to completion, or null until there is a rate to go by */
+  etaMs: number | null;
 }
 
 /** Overall status returned by GET /api/status */
@@ -41,13 +99,74 @@ export interface StatusInfo {
   state: "idle" | "syncing" | "watching" | "setup";
   folder: string | null;
   startupConflictPolicy: StartupConflictPolicy | null;
+  folderMode: FolderMode | null;
+  /** Whether remote files stay placeholders until hydrated */
+  onDemand: boolean;
+  /** Remote changes a send-only folder has not applied */
+  divergedPaths: number;
+  /** Whether syncing is paused; a paused folder reports state "idle" */
+  paused: boolean;
+}
+
+/** A sync folder of this instance, as listed by GET /api/folders */
+export interface FolderInfo extends StatusInfo {
+  id: string;
 }
 
 /** WebSocket message envelope */
 export interface WsMessage {
-  type: "sync" | "status" | "peer" | "error" | "stats";
+  type: "sync" | "status" | "peer" | "error" | "stats" | "progress";
   payload: unknown;
   timestamp: number;
+  /** The sync folder the message is about */
+  folderId?: string;
+}
+
+/** Payload of "progress" WebSocket messages, sent at most a few times a second while downloading */
+export interface ProgressPayload {
+  transfers: TransferInfo[];
+}
+
+/** Payload of periodic "stats" WebSocket messages */
+export interface StatsPayload {
+  uptime: number;
+  /** Bytes materialized from blocks already on this machine */
+  bytesReused: number;
+  /** Bytes downloaded from peers */
+  bytesFetched: number;
+  /** Replication traffic over the last few seconds, in bytes per second */
+  uploadRate: number;
+  downloadRate: number;
+}
+
+/** Result of one garbage collection pass, as returned by POST /api/storage/gc */
+export interface GcResult {
+  at: number;
+  clearedBlocks: number;
+  reclaimedBytes: number;
+  /** Unreferenced blocks still waiting out the grace period */
+  pendingBlocks: number;
+}
+
+/** Local file-data core usage returned by GET /api/storage */
+export interface StorageInfo {
+  /** Blocks and bytes ever appended to this peer's file-data core */
+  coreBlocks: number;
+  coreBytes: number;
+  /** Blocks still referenced by current entries or retained history */
+  referencedBlocks: number;
+  referencedBytes: number;
+  pendingBlocks: number;
+  /** Bytes cleared by garbage collection since the engine started */
+  reclaimedBytes: number;
+  lastGc: GcResult | null;
+}
+
+/** POST /api/rehash response */
+export interface RehashResponse {
+  ok: true;
+  /** Local files read and hashed again */
+  files: number;
 }
 
 /** POST /api/setup response */
@@ -84,6 +203,31 @@ export interface SetupPreviewResponse {
 /** POST /api/invite response */
 export interface InviteResponse {
   inviteCode: string;
+  role: PeerRole;
+}
+
+/** POST /api/revert response */
+export interface RevertResponse {
+  reverted: string[];
+}
+
+/** POST /api/override response */
+export interface OverrideResponse {
+  overridden: string[];
+}
+
+/** POST /api/files/:path/restore response */
+export interface RestoreResponse {
+  ok: true;
+  /** Seq of the new revision that carries the restored content */
+  seq: number;
+  hash: string;
+}
+
+/** POST /api/trash/restore response */
+export interface TrashRestoreResponse {
+  ok: true;
+  path: string;
 }
 
 /** POST /api/shutdown response */
@@ -0,0 +1,84 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Corestore from "corestore";
+import testnet from "hyperdht/testnet";
+import { afterEach, describe, expect, it } from "vitest";
+import { EngineBridge } from "./engine-bridge.js";
+import { ManifestStore } from "./lib/manifest-store.js";
+import { SyncEngine } from "./lib/sync-engine.js";
+
+const tmpDirs: string[] = [];
+let tn: Awaited<ReturnType<typeof testnet>> | null = null;
+
+async function makeTmpDir(prefix = "pearsync-bridge-test-"): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), prefix));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 10_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+afterEach(async () => {
+  if (tn) {
+    for (const node of tn.nodes) {
+      await node.destroy();
+    }
+    tn = null;
+  }
+  for (const d of tmpDirs) {
+    await rm(d, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("EngineBridge — peers", () => {
+  it("lists a remote read-only peer with its role", async () => {
+    tn = await testnet(10);
+
+    const storeA = new Corestore(await makeTmpDir());
+    const a = ManifestStore.create(storeA, { bootstrap: tn.bootstrap });
+    await a.ready();
+    const folder = await makeTmpDir("pearsync-folder-");
+    const engine = new SyncEngine(storeA, folder, {
+      manifest: a,
+      gcIntervalMs: 0,
+      rescanIntervalMs: 0,
+    });
+    await engine.ready();
+    await engine.start();
+
+    const storeB = new Corestore(await makeTmpDir());
+    const b = await ManifestStore.pair(storeB, await a.createInvite({ readOnly: true }), {
+      bootstrap: tn.bootstrap,
+    });
+    const readOnlyKey = b.swarmKey ?? "";
+    await waitFor(() => a.connectedSwarmKeys().includes(readOnlyKey));
+
+    const bridge = new EngineBridge(engine, folder, null, "test");
+    const peers = await bridge.getPeers();
+    expect(peers).toContainEqual(
+      expect.objectContaining({ writerKey: a.writerKey, isLocal: true, role: "writer" }),
+    );
+    expect(peers).toContainEqual({
+      writerKey: readOnlyKey,
+      name: readOnlyKey.slice(0, 8),
+      isLocal: false,
+      isConnected: true,
+      role: "read-only",
+    });
+    expect(await a.isWriter(b.writerKey)).toBe(false);
+
+    await engine.close();
+    await a.close();
+    await b.close();
+    await storeA.close();
+    await storeB.close();
+  });
+});
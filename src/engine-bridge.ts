@@ -2,15 +2,25 @@ import type WebSocket from "ws";
 import type {
   AppEvent,
   FileInfo,
+  FileRevision,
   PeerInfo,
+  ProgressPayload,
+  SelectiveSyncInfo,
   StartupConflictPolicy,
+  StatsPayload,
   StatusInfo,
+  TransferInfo,
   WsMessage,
 } from "./api-types.js";
-import { isFileMetadata, isPeerMetadata } from "./lib/manifest-store.js";
-import type { StartupPolicyAuditEvent, SyncEngine, SyncEvent } from "./lib/sync-engine.js";
+import { normalizePath } from "./lib/file-utils.js";
+import { isFileMetadata, isPeerMetadata, isTombstone } from "./lib/manifest-store.js";
+import { isExcluded, listFolders } from "./lib/selective-sync.js";
+import type { AuditEvent, SyncEngine, SyncEvent } from "./lib/sync-engine.js";
 import { RingBuffer } from "./ring-buffer.js";
 
+/** Minimum interval between "progress" WebSocket messages */
+const PROGRESS_INTERVAL_MS = 250;
+
 export class EngineBridge {
   private engine: SyncEngine;
   private folder: string;
@@ -20,15 +30,19 @@ export class EngineBridge {
   private nextEventId = 1;
   private startTime: number;
   private statsInterval: ReturnType<typeof setInterval> | null = null;
+  private progressTimer: ReturnType<typeof setTimeout> | null = null;
   private startupConflictPolicy: StartupConflictPolicy | null;
+  private folderId: string;
 
   constructor(
     engine: SyncEngine,
     folder: string,
     startupConflictPolicy: StartupConflictPolicy | null,
+    folderId: string,
   ) {
     this.engine = engine;
     this.folder = folder;
+    this.folderId = folderId;
     this.startupConflictPolicy = startupConflictPolicy;
     this.events = new RingBuffer<AppEvent>(1000);
     this.startTime = Date.now();
@@ -38,6 +52,7 @@ export class EngineBridge {
     this.engine.on("sync", this.onSync);
     this.engine.on("audit", this.onAudit);
     this.engine.on("error", this.onError);
+    this.engine.on("progress", this.onProgress);
     this.statsInterval = setInterval(() => {
       this.broadcast({
         type: "stats",
@@ -51,10 +66,15 @@ export class EngineBridge {
     this.engine.removeListener("sync", this.onSync);
     this.engine.removeListener("audit", this.onAudit);
     this.engine.removeListener("error", this.onError);
+    this.engine.removeListener("progress", this.onProgress);
     if (this.statsInterval) {
       clearInterval(this.statsInterval);
       this.statsInterval = null;
     }
+    if (this.progressTimer) {
+      clearTimeout(this.progressTimer);
+      this.progressTimer = null;
+    }
   }
 
   addWsClient(ws: WebSocket): void {
@@ -70,15 +90,17 @@ export class EngineBridge {
     return () => this.pushListeners.delete(fn);
   }
 
+  /** Send a message to every client, tagged with this bridge's folder. */
   broadcast(msg: WsMessage): void {
-    const data = JSON.stringify(msg);
+    const tagged: WsMessage = { ...msg, folderId: this.folderId };
+    const data = JSON.stringify(tagged);
     for (const ws of this.wsClients) {
       if (ws.readyState === 1 /* OPEN */) {
         ws.send(data);
       }
     }
     for (const fn of this.pushListeners) {
-      fn(msg);
+      fn(tagged);
     }
   }
 
@@ -90,6 +112,9 @@ export class EngineBridge {
     const manifest = this.engine.getManifest();
     const entries = await manifest.list();
     const files: FileInfo[] = [];
+    const localChanges = new Map(this.engine.getLocalChanges().map((c) => [c.path, c]));
+    const transferring = new Set(this.engine.getTransfers().map((t) => t.path));
+    const excluded = this.engine.getSelectiveSync();
 
     for (const { path, metadata } of entries) {
       if (path.startsWith("__")) continue;
@@ -104,44 +129,135 @@ export class EngineBridge {
         mtime: metadata.mtime,
         writerKey: metadata.writerKey,
         peerName,
-        syncState: isConflict ? "conflict" : "synced",
+        syncState: localChanges.has(path)
+          ? "locally-changed"
+          : isExcluded(excluded, path)
+            ? "excluded"
+            : transferring.has(path)
+              ? "syncing"
+              : isConflict
+                ? "conflict"
+                : "synced",
+        hydrated: this.engine.isHydrated(path),
+      });
+      localChanges.delete(path);
+    }
+
+    // Local additions that a receive-only folder has not published
+    const localWriterKey = this.engine.getFileStore().core.key.toString("hex");
+    for (const change of localChanges.values()) {
+      if (change.hash === null) continue;
+      files.push({
+        path: change.path,
+        size: change.size,
+        hash: change.hash,
+        mtime: change.mtime,
+        writerKey: localWriterKey,
+        peerName: await this.engine.getPeerName(localWriterKey),
+        syncState: "locally-changed",
+        hydrated: true,
       });
     }
 
     return files;
   }
 
+  async getFileHistory(path: string): Promise<FileRevision[]> {
+    const current = await this.engine.getManifest().get(normalizePath(path));
+    const currentEntry =
+      current && (isFileMetadata(current) || isTombstone(current)) ? current : null;
+    const revisions: FileRevision[] = [];
+
+    for (const { entry } of await this.engine.getFileHistory(path)) {
+      revisions.push({
+        seq: entry.seq,
+        writerKey: entry.writerKey,
+        peerName: await this.engine.getPeerName(entry.writerKey),
+        mtime: entry.mtime,
+        hash: isFileMetadata(entry) ? entry.hash : null,
+        size: isFileMetadata(entry) ? entry.size : 0,
+        current: currentEntry?.seq === entry.seq && currentEntry.writerKey === entry.writerKey,
+      });
+    }
+
+    return revisions;
+  }
+
   async getPeers(): Promise<PeerInfo[]> {
     const manifest = this.engine.getManifest();
     const myWriterKey = manifest.writerKey;
     const entries = await manifest.list();
     const peers: PeerInfo[] = [];
+    const known = new Set<string>();
 
+    // Only writers can register a `__peer:` entry, but it outlives their removal
     for (const { path, metadata } of entries) {
       if (!path.startsWith("__peer:")) continue;
       if (!isPeerMetadata(metadata)) continue;
+      if (metadata.swarmKey) known.add(metadata.swarmKey);
       peers.push({
         writerKey: metadata.writerKey,
         name: metadata.name,
         isLocal: metadata.writerKey === myWriterKey,
         isConnected: true,
+        role: (await manifest.isWriter(metadata.writerKey)) ? "writer" : "read-only",
+      });
+    }
+    if (this.engine.isReadOnly()) {
+      peers.push({
+        writerKey: myWriterKey,
+        name: myWriterKey.slice(0, 8),
+        isLocal: true,
+        isConnected: true,
+        role: "read-only",
+      });
+    }
+
+    // Read-only peers have no entry; they show up as connections no entry claims
+    for (const swarmKey of manifest.connectedSwarmKeys()) {
+      if (known.has(swarmKey)) continue;
+      known.add(swarmKey);
+      peers.push({
+        writerKey: swarmKey,
+        name: swarmKey.slice(0, 8),
+        isLocal: false,
+        isConnected: true,
+        role: "read-only",
       });
     }
 
     return peers;
   }
 
+  async getSelectiveSync(): Promise<SelectiveSyncInfo> {
+    const entries = await this.engine.getManifest().list();
+    const paths = entries
+      .filter(({ path, metadata }) => !path.startsWith("__") && isFileMetadata(metadata))
+      .map(({ path }) => path);
+    return { excluded: this.engine.getSelectiveSync(), folders: listFolders(paths) };
+  }
+
+  getTransfers(): TransferInfo[] {
+    return this.engine.getTransfers().map(({ startedAt: _startedAt, ...transfer }) => transfer);
+  }
+
   getStatus(): StatusInfo {
     return {
-      state: "watching",
+      state: this.engine.isPaused() ? "idle" : "watching",
       folder: this.folder,
       startupConflictPolicy: this.startupConflictPolicy,
+      folderMode: this.engine.getFolderMode(),
+      onDemand: this.engine.isOnDemand(),
+      divergedPaths: this.engine.getDivergedPaths().length,
+      paused: this.engine.isPaused(),
     };
   }
 
-  private getStatsPayload() {
+  private getStatsPayload(): StatsPayload {
     return {
       uptime: Date.now() - this.startTime,
+      ...this.engine.getTransferStats(),
+      ...this.engine.getTransferRates(),
     };
   }
 
@@ -153,6 +269,8 @@ export class EngineBridge {
     let type: AppEvent["type"];
     if (syncEvent.type === "conflict") {
       type = "conflict";
+    } else if (syncEvent.type === "rename") {
+      type = "rename";
     } else if (syncEvent.type === "delete") {
       type = "delete";
     } else if (syncEvent.direction === "local-to-remote") {
@@ -169,6 +287,8 @@ export class EngineBridge {
     } else if (type === "delete") {
       const dir = syncEvent.direction === "local-to-remote" ? "locally" : "remotely";
       detail = `Deleted ${syncEvent.path} (${dir})`;
+    } else if (type === "rename") {
+      detail = `Renamed ${syncEvent.fromPath} → ${syncEvent.path}`;
     } else {
       detail = `Conflict: ${syncEvent.path} → ${syncEvent.conflictPath}`;
     }
@@ -189,11 +309,22 @@ export class EngineBridge {
         action: syncEvent.type,
         path: syncEvent.path,
         conflictPath: syncEvent.conflictPath,
+        fromPath: syncEvent.fromPath,
       },
       timestamp: Date.now(),
     });
   };
 
+  /** Engine progress events arrive per block; clients get a snapshot at most every 250ms. */
+  private onProgress = () => {
+    if (this.progressTimer) return;
+    this.progressTimer = setTimeout(() => {
+      this.progressTimer = null;
+      const payload: ProgressPayload = { transfers: this.getTransfers() };
+      this.broadcast({ type: "progress", payload, timestamp: Date.now() });
+    }, PROGRESS_INTERVAL_MS);
+  };
+
   private onError = (err: Error) => {
     const event: AppEvent = {
       id: this.nextEventId++,
@@ -210,8 +341,11 @@ export class EngineBridge {
     });
   };
 
-  private onAudit = (audit: StartupPolicyAuditEvent) => {
-    const detail = `Startup policy ${audit.policy} affected ${audit.affectedPaths} path(s)`;
+  private onAudit = (audit: AuditEvent) => {
+    const detail =
+      "kind" in audit
+        ? `Rescan checked ${audit.scannedFiles} file(s), found ${audit.discrepancies} missed change(s)`
+        : `Startup policy ${audit.policy} affected ${audit.affectedPaths} path(s)`;
     const event: AppEvent = {
       id: this.nextEventId++,
       timestamp: Date.now(),
@@ -222,12 +356,7 @@ export class EngineBridge {
     this.pushEvent(event);
     this.broadcast({
       type: "status",
-      payload: {
-        eventType: "audit",
-        detail,
-        policy: audit.policy,
-        affectedPaths: audit.affectedPaths,
-      },
+      payload: { eventType: "audit", detail, ...audit },
       timestamp: Date.now(),
     });
   };
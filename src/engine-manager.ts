@@ -1,16 +1,19 @@
-import { createHash } from "node:crypto";
 import { mkdir } from "node:fs/promises";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import Corestore from "corestore";
 import Localdrive from "localdrive";
-import type { StartupConflictPolicy } from "./api-types.js";
+import type { FolderMode, PeerRole, StartupConflictPolicy } from "./api-types.js";
+import { parseBandwidthOptions } from "./lib/bandwidth.js";
+import { hashStream } from "./lib/file-utils.js";
+import { IGNORE_FILE, IgnoreMatcher, isSyncIgnored } from "./lib/ignore-rules.js";
 import {
   isConfigMetadata,
   isFileMetadata,
   isTombstone,
   ManifestStore,
 } from "./lib/manifest-store.js";
+import { listFolders } from "./lib/selective-sync.js";
 import { SyncEngine } from "./lib/sync-engine.js";
 
 export const startupConflictPolicies: StartupConflictPolicy[] = [
@@ -19,6 +22,10 @@ export const startupConflictPolicies: StartupConflictPolicy[] = [
   "keep-both",
 ];
 
+export const folderModes: FolderMode[] = ["send-receive", "receive-only", "send-only"];
+
+export const peerRoles: PeerRole[] = ["writer", "read-only"];
+
 export interface JoinPreviewCounts {
   localFiles: number;
   remoteFiles: number;
@@ -56,6 +63,8 @@ export interface JoinPreview {
     localOnly: string[];
     remoteOnly: string[];
   };
+  /** Every folder in the shared manifest, for choosing subtrees to exclude */
+  folders: string[];
 }
 
 export interface PreparedJoinSession {
@@ -68,6 +77,8 @@ export interface PreparedJoinSession {
 
 interface ResolvedPolicyState {
   resolvedPolicy: StartupConflictPolicy | null;
+  resolvedFolderMode: FolderMode | null;
+  resolvedOnDemand: boolean | null;
   existingConfig: Awaited<ReturnType<ManifestStore["get"]>>;
   existingSettings: Record<string, unknown>;
 }
@@ -79,9 +90,39 @@ export function resolveFolder(folder: string): string {
   return folder;
 }
 
+/** Folder modes are per peer, so settings keep one entry per writer key. */
+function readPeerFolderModes(settings: Record<string, unknown>): Record<string, FolderMode> {
+  const raw = settings.peerFolderModes;
+  const modes: Record<string, FolderMode> = {};
+  if (typeof raw !== "object" || raw === null) return modes;
+  for (const [writerKey, mode] of Object.entries(raw)) {
+    if (typeof mode === "string" && folderModes.includes(mode as FolderMode)) {
+      modes[writerKey] = mode as FolderMode;
+    }
+  }
+  return modes;
+}
+
+/** On-demand (placeholder) mode is per peer too, keyed by writer key. */
+function readPeerOnDemand(settings: Record<string, unknown>): Record<string, boolean> {
+  const raw = settings.peerOnDemand;
+  const onDemand: Record<string, boolean> = {};
+  if (typeof raw !== "object" || raw === null) return onDemand;
+  for (const [writerKey, enabled] of Object.entries(raw)) {
+    if (typeof enabled === "boolean") onDemand[writerKey] = enabled;
+  }
+  return onDemand;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
 async function resolvePolicyState(
   manifest: ManifestStore,
   startupConflictPolicy?: StartupConflictPolicy,
+  folderMode?: FolderMode,
+  onDemand?: boolean,
 ): Promise<ResolvedPolicyState> {
   const existingConfig = await manifest.get("__config");
   const existingSettings =
@@ -99,8 +140,15 @@ async function resolvePolicyState(
     resolvedPolicy = startupConflictPolicy;
   }
 
+  const resolvedFolderMode =
+    folderMode ?? readPeerFolderModes(existingSettings)[manifest.writerKey] ?? null;
+  const resolvedOnDemand =
+    onDemand ?? readPeerOnDemand(existingSettings)[manifest.writerKey] ?? null;
+
   return {
     resolvedPolicy,
+    resolvedFolderMode,
+    resolvedOnDemand,
     existingConfig,
     existingSettings,
   };
@@ -111,15 +159,29 @@ async function persistConfig(
   folder: string,
   policyState: ResolvedPolicyState,
 ): Promise<void> {
+  const settings: Record<string, unknown> = { ...policyState.existingSettings };
+  if (policyState.resolvedPolicy !== null) {
+    settings.startupConflictPolicy = policyState.resolvedPolicy;
+  }
+  if (policyState.resolvedFolderMode !== null) {
+    settings.peerFolderModes = {
+      ...readPeerFolderModes(policyState.existingSettings),
+      [manifest.writerKey]: policyState.resolvedFolderMode,
+    };
+  }
+  if (policyState.resolvedOnDemand !== null) {
+    settings.peerOnDemand = {
+      ...readPeerOnDemand(policyState.existingSettings),
+      [manifest.writerKey]: policyState.resolvedOnDemand,
+    };
+  }
+
   await manifest.putConfig({
     ...(policyState.existingConfig && isConfigMetadata(policyState.existingConfig)
       ? { peerName: policyState.existingConfig.peerName }
       : {}),
     syncFolder: folder,
-    settings:
-      policyState.resolvedPolicy === null
-        ? policyState.existingSettings
-        : { ...policyState.existingSettings, startupConflictPolicy: policyState.resolvedPolicy },
+    settings,
   });
 }
 
@@ -128,20 +190,49 @@ async function startEngineFromManifest(
   store: InstanceType<typeof Corestore>,
   manifest: ManifestStore,
   startupConflictPolicy?: StartupConflictPolicy,
+  folderMode?: FolderMode,
+  excluded?: string[],
+  onDemand?: boolean,
 ): Promise<{
   engine: SyncEngine;
   store: InstanceType<typeof Corestore>;
   startupConflictPolicy: StartupConflictPolicy | null;
 }> {
   await manifest.ready();
-  const policyState = await resolvePolicyState(manifest, startupConflictPolicy);
-  await persistConfig(manifest, folder, policyState);
+  const policyState = await resolvePolicyState(
+    manifest,
+    startupConflictPolicy,
+    folderMode,
+    onDemand,
+  );
+  // A read-only peer cannot write the shared config; its choices last for this session only
+  if (manifest.writable) await persistConfig(manifest, folder, policyState);
 
+  const settings = policyState.existingSettings;
+  const syncIgnoreFile = settings.syncIgnoreFile;
   const engine = new SyncEngine(store, folder, {
     manifest,
     startupConflictPolicy: policyState.resolvedPolicy ?? undefined,
+    folderMode: policyState.resolvedFolderMode ?? undefined,
+    syncIgnoreFile: typeof syncIgnoreFile === "boolean" ? syncIgnoreFile : undefined,
+    trashRetention: {
+      maxAgeMs: optionalNumber(settings.trashMaxAgeMs),
+      maxBytes: optionalNumber(settings.trashMaxBytes),
+    },
+    historyRetentionMs: optionalNumber(settings.historyRetentionMs),
+    historyMaxRevisions: optionalNumber(settings.historyMaxRevisions),
+    gcIntervalMs: optionalNumber(settings.gcIntervalMs),
+    gcGraceMs: optionalNumber(settings.gcGraceMs),
+    tombstoneRetentionMs: optionalNumber(settings.tombstoneRetentionMs),
+    settleWindowMs: optionalNumber(settings.settleWindowMs),
+    rescanIntervalMs: optionalNumber(settings.rescanIntervalMs),
+    bandwidth: parseBandwidthOptions(settings.bandwidth),
+    downloadConcurrency: optionalNumber(settings.downloadConcurrency),
+    onDemand: policyState.resolvedOnDemand ?? undefined,
   });
   await engine.ready();
+  // Applied before the first sync so excluded subtrees are never downloaded
+  if (excluded) await engine.setSelectiveSync(excluded);
   await engine.start();
   return { engine, store, startupConflictPolicy: policyState.resolvedPolicy };
 }
@@ -163,12 +254,24 @@ export async function prepareJoinPreview(
     await manifest.ready();
 
     drive = new Localdrive(folder);
+    const ignoreData = await drive.get(IGNORE_FILE);
+    const ignoreRules = IgnoreMatcher.parse(ignoreData ? ignoreData.toString("utf-8") : "");
+    // Count what the engine will sync after joining, so the shared syncIgnoreFile setting applies
+    const config = await manifest.get("__config");
+    const syncIgnoreFile =
+      config && isConfigMetadata(config) ? config.settings?.syncIgnoreFile : undefined;
+    const ignored = (path: string) =>
+      isSyncIgnored(
+        path,
+        ignoreRules,
+        typeof syncIgnoreFile === "boolean" ? syncIgnoreFile : undefined,
+      );
+
     const localHashes = new Map<string, string>();
     for await (const entry of drive.list("/")) {
-      if (entry.key.startsWith("/.pearsync/")) continue;
-      const data = await drive.get(entry.key);
-      if (!data) continue;
-      const hash = createHash("sha256").update(data).digest("hex");
+      if (ignored(entry.key)) continue;
+      if (!entry.value.blob) continue;
+      const { hash } = await hashStream(drive.createReadStream(entry.key));
       localHashes.set(entry.key, hash);
     }
 
@@ -183,13 +286,16 @@ export async function prepareJoinPreview(
     const fileConflictPaths: string[] = [];
     const tombstoneConflictPaths: string[] = [];
     const remoteOnlyPaths: string[] = [];
+    const remotePaths: string[] = [];
 
     const entries = await manifest.list();
     const seenLocal = new Set<string>();
     for (const { path, metadata } of entries) {
       if (path.startsWith("__")) continue;
+      if (ignored(path)) continue;
       if (isFileMetadata(metadata)) {
         remoteFiles += 1;
+        remotePaths.push(path);
         const localHash = localHashes.get(path);
         if (localHash === undefined) {
           remoteOnlyFiles += 1;
@@ -258,6 +364,7 @@ export async function prepareJoinPreview(
         localOnly: localOnlyPaths,
         remoteOnly: remoteOnlyPaths,
       },
+      folders: listFolders(remotePaths),
     };
 
     return {
@@ -280,6 +387,9 @@ export async function prepareJoinPreview(
 export async function startEngineFromPreparedJoin(
   prepared: PreparedJoinSession,
   startupConflictPolicy?: StartupConflictPolicy,
+  folderMode?: FolderMode,
+  excluded?: string[],
+  onDemand?: boolean,
 ): Promise<{
   engine: SyncEngine;
   store: InstanceType<typeof Corestore>;
@@ -290,6 +400,9 @@ export async function startEngineFromPreparedJoin(
     prepared.store,
     prepared.manifest,
     startupConflictPolicy,
+    folderMode,
+    excluded,
+    onDemand,
   );
 }
 
@@ -299,6 +412,9 @@ export async function startEngine(
   inviteCode: string | undefined,
   bootstrap?: { host: string; port: number }[],
   startupConflictPolicy?: StartupConflictPolicy,
+  folderMode?: FolderMode,
+  excluded?: string[],
+  onDemand?: boolean,
 ): Promise<{
   engine: SyncEngine;
   store: InstanceType<typeof Corestore>;
@@ -316,5 +432,13 @@ export async function startEngine(
     manifest = ManifestStore.create(store, { bootstrap });
   }
 
-  return startEngineFromManifest(folder, store, manifest, startupConflictPolicy);
+  return startEngineFromManifest(
+    folder,
+    store,
+    manifest,
+    startupConflictPolicy,
+    folderMode,
+    excluded,
+    onDemand,
+  );
 }
@@ -0,0 +1,82 @@
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Corestore from "corestore";
+import { afterEach, describe, expect, it } from "vitest";
+import { FolderRegistry, type StartedEngine } from "./folder-registry.js";
+import { folderIdFor, loadFolders, saveFolders } from "./last-folder-config.js";
+import { SyncEngine } from "./lib/sync-engine.js";
+
+const tmpDirs: string[] = [];
+
+async function makeTmpDir(prefix = "pearsync-registry-test-"): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), prefix));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+async function startEngine(folder: string): Promise<StartedEngine> {
+  const store = new Corestore(await makeTmpDir());
+  const engine = new SyncEngine(store, folder, { gcIntervalMs: 0, rescanIntervalMs: 0 });
+  await engine.ready();
+  await engine.start();
+  return { engine, store, startupConflictPolicy: null };
+}
+
+afterEach(async () => {
+  for (const d of tmpDirs) {
+    await rm(d, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("FolderRegistry", () => {
+  it("only writes the entry being added or removed to the config", async () => {
+    const configPath = join(await makeTmpDir(), "config.json");
+    const broken = { id: folderIdFor("/gone"), folder: "/gone" };
+    saveFolders([broken], configPath);
+
+    const registry = new FolderRegistry(configPath);
+    const cliFolder = await makeTmpDir("pearsync-folder-");
+    const savedFolder = await makeTmpDir("pearsync-folder-");
+    try {
+      // A folder given on the command line is not remembered...
+      registry.add(cliFolder, await startEngine(cliFolder), false);
+      expect(loadFolders(configPath)).toEqual([broken]);
+
+      // ...and adding another keeps the one that failed to start.
+      registry.add(savedFolder, await startEngine(savedFolder));
+      const saved = { id: folderIdFor(savedFolder), folder: savedFolder };
+      expect(loadFolders(configPath)).toEqual([broken, saved]);
+
+      expect(await registry.remove(broken.id)).toBe(true);
+      expect(loadFolders(configPath)).toEqual([saved]);
+      expect(await registry.remove(broken.id)).toBe(false);
+    } finally {
+      await registry.closeAll();
+    }
+  });
+
+  it("rejects a folder inside or around a running one", async () => {
+    const registry = new FolderRegistry(join(await makeTmpDir(), "config.json"));
+    const parent = await makeTmpDir("pearsync-folder-");
+    const folder = join(parent, "Sync");
+    await mkdir(folder);
+    try {
+      const started = await startEngine(folder);
+      registry.add(folder, started, false);
+
+      expect(registry.overlapping(join(folder, "photos"))).toBe(folder);
+      expect(registry.overlapping(parent)).toBe(folder);
+      expect(registry.overlapping(`${folder}-2`)).toBeNull();
+      expect(registry.overlapping(folder)).toBeNull();
+      expect(() => registry.add(join(folder, "photos"), started, false)).toThrow(
+        `Folder overlaps ${folder}`,
+      );
+      expect(() => registry.add(parent, started, false)).toThrow(`Folder overlaps ${folder}`);
+      expect(registry.list().map((session) => session.folder)).toEqual([folder]);
+    } finally {
+      await registry.closeAll();
+    }
+  });
+});
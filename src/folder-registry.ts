@@ -0,0 +1,144 @@
+import { isAbsolute, relative, sep } from "node:path";
+import type Corestore from "corestore";
+import type { FolderInfo, StartupConflictPolicy } from "./api-types.js";
+import { EngineBridge } from "./engine-bridge.js";
+import { type FolderConfig, folderIdFor, loadFolders, saveFolders } from "./last-folder-config.js";
+import type { SyncEngine } from "./lib/sync-engine.js";
+
+/** A running sync folder: its engine, corestore and the bridge to the web layer. */
+export interface FolderSession {
+  id: string;
+  folder: string;
+  engine: SyncEngine;
+  store: InstanceType<typeof Corestore>;
+  bridge: EngineBridge;
+}
+
+export interface StartedEngine {
+  engine: SyncEngine;
+  store: InstanceType<typeof Corestore>;
+  startupConflictPolicy: StartupConflictPolicy | null;
+}
+
+/**
+ * The sync folders of one PearSync instance. Each folder has its own corestore, manifest,
+ * invites and policies; the list is remembered in the user config.
+ */
+export class FolderRegistry {
+  private sessions: Map<string, FolderSession> = new Map();
+  /** Folders remembered in the user config, including ones that are not running */
+  private saved: FolderConfig[];
+  private configPath: string | undefined;
+
+  constructor(configPath?: string) {
+    this.configPath = configPath;
+    this.saved = loadFolders(configPath);
+  }
+
+  list(): FolderSession[] {
+    return [...this.sessions.values()];
+  }
+
+  get(id: string): FolderSession | null {
+    return this.sessions.get(id) ?? null;
+  }
+
+  /** The first folder, which the unscoped `/api/...` routes act on. */
+  primary(): FolderSession | null {
+    return this.sessions.values().next().value ?? null;
+  }
+
+  has(folder: string): boolean {
+    return this.sessions.has(folderIdFor(folder));
+  }
+
+  /** A running folder that `folder` is inside of or contains, if any. */
+  overlapping(folder: string): string | null {
+    for (const session of this.sessions.values()) {
+      if (session.folder === folder) continue;
+      if (contains(session.folder, folder) || contains(folder, session.folder)) {
+        return session.folder;
+      }
+    }
+    return null;
+  }
+
+  /** Folders remembered across restarts, whether or not they started. */
+  savedFolders(): FolderConfig[] {
+    return [...this.saved];
+  }
+
+  /**
+   * Register a started engine. With `persist`, the folder is remembered across restarts.
+   * Throws if the folder overlaps a running one (see {@link overlapping}); callers check
+   * first so they do not start an engine for nothing.
+   */
+  add(folder: string, started: StartedEngine, persist = true): FolderSession {
+    const other = this.overlapping(folder);
+    if (other) throw new Error(`Folder overlaps ${other}, which is already syncing`);
+    const id = folderIdFor(folder);
+    const bridge = new EngineBridge(started.engine, folder, started.startupConflictPolicy, id);
+    bridge.attach();
+    const session: FolderSession = {
+      id,
+      folder,
+      engine: started.engine,
+      store: started.store,
+      bridge,
+    };
+    this.sessions.set(id, session);
+    if (persist && !this.saved.some((entry) => entry.id === id)) {
+      this.saved.push({ id, folder });
+      this.save();
+    }
+    return session;
+  }
+
+  /**
+   * Stop syncing a folder and forget it, also when it is only remembered because it failed
+   * to start. Its files and sync state stay on disk.
+   */
+  async remove(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    const saved = this.saved.some((entry) => entry.id === id);
+    if (!session && !saved) return false;
+    if (saved) {
+      this.saved = this.saved.filter((entry) => entry.id !== id);
+      this.save();
+    }
+    if (session) {
+      this.sessions.delete(id);
+      await closeSession(session);
+    }
+    return true;
+  }
+
+  async closeAll(): Promise<void> {
+    const sessions = this.list();
+    this.sessions.clear();
+    for (const session of sessions) await closeSession(session);
+  }
+
+  info(session: FolderSession): FolderInfo {
+    return { id: session.id, ...session.bridge.getStatus() };
+  }
+
+  private save(): void {
+    saveFolders(this.saved, this.configPath);
+  }
+}
+
+/** Whether `folder` is `parent` itself or somewhere inside it. */
+function contains(parent: string, folder: string): boolean {
+  const rel = relative(parent, folder);
+  return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+async function closeSession(session: FolderSession): Promise<void> {
+  session.bridge.detach();
+  const manifest = session.engine.getManifest();
+  await session.engine.stop();
+  await session.engine.close();
+  await manifest.close();
+  await session.store.close();
+}
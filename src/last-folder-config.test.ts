@@ -0,0 +1,48 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { folderIdFor, loadFolders, saveFolders } from "./last-folder-config.js";
+
+const tmpDirs: string[] = [];
+
+async function makeConfigPath(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "pearsync-config-test-"));
+  tmpDirs.push(dir);
+  return join(dir, "config.json");
+}
+
+afterEach(async () => {
+  for (const d of tmpDirs) {
+    await rm(d, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+describe("folder config", () => {
+  it("round-trips the folder list", async () => {
+    const configPath = await makeConfigPath();
+    const folders = [
+      { id: folderIdFor("/a"), folder: "/a" },
+      { id: folderIdFor("/b"), folder: "/b" },
+    ];
+    saveFolders(folders, configPath);
+    expect(loadFolders(configPath)).toEqual(folders);
+  });
+
+  it("migrates a single-folder config and rewrites it", async () => {
+    const configPath = await makeConfigPath();
+    await writeFile(configPath, JSON.stringify({ folder: "/home/me/Sync" }));
+
+    const folders = loadFolders(configPath);
+    expect(folders).toEqual([{ id: folderIdFor("/home/me/Sync"), folder: "/home/me/Sync" }]);
+    expect(JSON.parse(await readFile(configPath, "utf-8"))).toEqual({ folders });
+  });
+
+  it("returns no folders for a missing or corrupt config", async () => {
+    const configPath = await makeConfigPath();
+    expect(loadFolders(configPath)).toEqual([]);
+    await writeFile(configPath, "{not json");
+    expect(loadFolders(configPath)).toEqual([]);
+  });
+});
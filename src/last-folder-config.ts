@@ -1,22 +1,54 @@
+import { createHash } from "node:crypto";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
 
 const CONFIG_PATH = join(homedir(), ".pearsync", "config.json");
 
-export function saveLastFolder(folder: string): void {
-  const dir = dirname(CONFIG_PATH);
-  mkdirSync(dir, { recursive: true });
-  writeFileSync(CONFIG_PATH, JSON.stringify({ folder }), "utf-8");
+/** A sync folder remembered across restarts. */
+export interface FolderConfig {
+  id: string;
+  folder: string;
 }
 
-export function loadLastFolder(): string | null {
+/** Stable id of a sync folder, derived from its resolved path. */
+export function folderIdFor(folder: string): string {
+  return createHash("sha256").update(folder).digest("hex").slice(0, 8);
+}
+
+export function saveFolders(folders: FolderConfig[], configPath = CONFIG_PATH): void {
+  mkdirSync(dirname(configPath), { recursive: true });
+  writeFileSync(configPath, JSON.stringify({ folders }), "utf-8");
+}
+
+/**
+ * Load the remembered sync folders. A config from before multiple folders (`{ folder }`) is
+ * rewritten in the current format.
+ */
+export function loadFolders(configPath = CONFIG_PATH): FolderConfig[] {
+  let data: unknown;
   try {
-    if (!existsSync(CONFIG_PATH)) return null;
-    const data = JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
-    if (typeof data?.folder === "string" && data.folder) return data.folder;
-    return null;
+    if (!existsSync(configPath)) return [];
+    data = JSON.parse(readFileSync(configPath, "utf-8"));
   } catch {
-    return null;
+    return [];
   }
+  if (typeof data !== "object" || data === null) return [];
+  const raw = data as { folder?: unknown; folders?: unknown };
+
+  if (typeof raw.folder === "string" && raw.folder && !Array.isArray(raw.folders)) {
+    const folders = [{ id: folderIdFor(raw.folder), folder: raw.folder }];
+    try {
+      saveFolders(folders, configPath);
+    } catch {
+      // Still usable this run; migration is retried next time
+    }
+    return folders;
+  }
+
+  if (!Array.isArray(raw.folders)) return [];
+  return raw.folders.filter(
+    (entry): entry is FolderConfig =>
+      typeof entry?.id === "string" && typeof entry?.folder === "string" && entry.folder !== "",
+  );
 }
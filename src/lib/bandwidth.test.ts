@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BandwidthLimiter,
+  type ThrottleableStream,
+  isScheduleActive,
+  parseBandwidthOptions,
+} from "./bandwidth";
+
+function at(day: number, time: string): Date {
+  // 2024-09-01 was a Sunday
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(2024, 8, 1 + day, hours, minutes);
+}
+
+function fakeStream(remoteKey: string): ThrottleableStream & { corked: boolean; close(): void } {
+  let onClose = () => {};
+  const stream = {
+    remotePublicKey: Buffer.from(remoteKey, "hex"),
+    rawBytesRead: 0,
+    rawBytesWritten: 0,
+    corked: false,
+    cork() {
+      stream.corked = true;
+    },
+    uncork() {
+      stream.corked = false;
+    },
+    once(_event: "close", listener: () => void) {
+      onClose = listener;
+    },
+    close() {
+      onClose();
+    },
+  };
+  return stream;
+}
+
+describe("isScheduleActive", () => {
+  it("matches a same-day window on its days only", () => {
+    const entry = { start: "09:00", end: "17:00", days: [1, 2, 3, 4, 5] };
+    expect(isScheduleActive(entry, at(1, "09:00"))).toBe(true);
+    expect(isScheduleActive(entry, at(1, "17:00"))).toBe(false);
+    expect(isScheduleActive(entry, at(0, "12:00"))).toBe(false);
+  });
+
+  it("runs a window past midnight and counts it against its start day", () => {
+    const entry = { start: "22:00", end: "06:00", days: [5] };
+    expect(isScheduleActive(entry, at(5, "23:30"))).toBe(true);
+    expect(isScheduleActive(entry, at(6, "05:59"))).toBe(true);
+    expect(isScheduleActive(entry, at(5, "05:59"))).toBe(false);
+    expect(isScheduleActive(entry, at(6, "12:00"))).toBe(false);
+  });
+});
+
+describe("parseBandwidthOptions", () => {
+  it("keeps valid limits and drops malformed ones", () => {
+    const options = parseBandwidthOptions({
+      uploadBytesPerSec: 1000,
+      downloadBytesPerSec: -1,
+      peers: { abc: { downloadBytesPerSec: 500 }, bad: 3 },
+      schedule: [
+        { start: "01:00", end: "02:00", uploadBytesPerSec: 0, days: [1, 9] },
+        { start: "25:00", end: "02:00" },
+        "nope",
+      ],
+    });
+    expect(options).toEqual({
+      uploadBytesPerSec: 1000,
+      peers: { abc: { downloadBytesPerSec: 500 } },
+      schedule: [{ start: "01:00", end: "02:00", uploadBytesPerSec: 0, days: [1] }],
+    });
+    expect(parseBandwidthOptions(undefined)).toBeUndefined();
+  });
+});
+
+describe("BandwidthLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("applies the active schedule entry over the global limits", () => {
+    const limiter = new BandwidthLimiter({
+      uploadBytesPerSec: 1000,
+      downloadBytesPerSec: 2000,
+      schedule: [{ start: "09:00", end: "17:00", uploadBytesPerSec: 100 }],
+    });
+    expect(limiter.limits(at(1, "12:00"))).toEqual({
+      uploadBytesPerSec: 100,
+      downloadBytesPerSec: 2000,
+    });
+    expect(limiter.limits(at(1, "18:00"))).toEqual({
+      uploadBytesPerSec: 1000,
+      downloadBytesPerSec: 2000,
+    });
+  });
+
+  it("corks a connection beyond the upload burst until the debt is paid", async () => {
+    const limiter = new BandwidthLimiter({ uploadBytesPerSec: 1000 });
+    const stream = fakeStream("aa");
+    limiter.throttle(stream);
+
+    stream.rawBytesWritten = 1500;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(stream.corked).toBe(true);
+    await vi.advanceTimersByTimeAsync(400);
+    expect(stream.corked).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(stream.corked).toBe(false);
+    expect(limiter.rates()).toEqual({ uploadRate: 300, downloadRate: 0 });
+    limiter.close();
+  });
+
+  it("holds back a peer over its own download limit but not the others", async () => {
+    const limiter = new BandwidthLimiter({
+      downloadBytesPerSec: 100,
+      peers: { writer1: { downloadBytesPerSec: 100 } },
+    });
+    limiter.setPeers([{ writerKey: "writer1", swarmKey: "bb" }]);
+    const limited = fakeStream("bb");
+    const other = fakeStream("cc");
+    limiter.throttle(limited);
+    limiter.throttle(other);
+
+    limited.rawBytesRead = 300;
+    other.rawBytesRead = 300;
+    await vi.advanceTimersByTimeAsync(100);
+    // The global download limit is enforced where blocks are requested, not per connection
+    expect(limited.corked).toBe(true);
+    expect(other.corked).toBe(false);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(limited.corked).toBe(false);
+    expect(limiter.rates().downloadRate).toBe(120);
+    limiter.close();
+  });
+
+  it("paces download reservations by the bytes they reserve", async () => {
+    const limiter = new BandwidthLimiter({ downloadBytesPerSec: 1000 });
+    const first = vi.fn();
+    const second = vi.fn();
+    limiter.reserveDownload(1500).then(first);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(first).toHaveBeenCalled();
+
+    limiter.reserveDownload(10).then(second);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(second).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(second).toHaveBeenCalled();
+  });
+
+  it("uncorks connections on close and stops metering closed ones", async () => {
+    const limiter = new BandwidthLimiter({ uploadBytesPerSec: 100 });
+    const open = fakeStream("aa");
+    const closed = fakeStream("bb");
+    limiter.throttle(open);
+    limiter.throttle(closed);
+
+    closed.close();
+    closed.rawBytesWritten = 1000;
+    open.rawBytesWritten = 50;
+    await vi.advanceTimersByTimeAsync(100);
+    // Only the open connection's bytes were charged, and they fit in the burst
+    expect(open.corked).toBe(false);
+    expect(closed.corked).toBe(false);
+
+    open.rawBytesWritten = 1000;
+    await vi.advanceTimersByTimeAsync(100);
+    expect(open.corked).toBe(true);
+
+    limiter.close();
+    expect(open.corked).toBe(false);
+  });
+});
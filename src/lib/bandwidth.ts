@@ -0,0 +1,336 @@
+/** Transfer rate limits in bytes per second; 0 or absent means unlimited. */
+export interface RateLimits {
+  uploadBytesPerSec?: number;
+  downloadBytesPerSec?: number;
+}
+
+/**
+ * A time-of-day window whose limits replace the global ones while it is active. Times are
+ * local "HH:MM"; a window whose end is not after its start runs past midnight.
+ */
+export interface BandwidthScheduleEntry extends RateLimits {
+  start: string;
+  end: string;
+  /** Days the window starts on, 0 = Sunday. Default: every day */
+  days?: number[];
+}
+
+export interface BandwidthOptions extends RateLimits {
+  /** Limits for traffic with individual peers, keyed by their writer key */
+  peers?: Record<string, RateLimits>;
+  /** The first active entry overrides the global limits it sets */
+  schedule?: BandwidthScheduleEntry[];
+}
+
+/** Bytes per second moved over replication streams, averaged over the last few seconds. */
+export interface TransferRates {
+  uploadRate: number;
+  downloadRate: number;
+}
+
+/**
+ * The public parts of a Hyperswarm connection (a `@hyperswarm/secret-stream` streamx duplex)
+ * that throttling uses: its raw byte counters to meter traffic, and `cork`/`uncork` to hold
+ * back everything we send, our block requests included.
+ */
+export interface ThrottleableStream {
+  remotePublicKey?: Buffer | null;
+  rawBytesRead: number;
+  rawBytesWritten: number;
+  cork(): void;
+  uncork(): void;
+  once(event: "close", listener: () => void): unknown;
+}
+
+type Direction = "upload" | "download";
+
+/** Seconds of traffic a bucket may save up, so short bursts are not delayed. */
+const BURST_SECONDS = 1;
+const RATE_WINDOW_SECONDS = 5;
+/** How often each connection's byte counters are read. */
+const METER_INTERVAL_MS = 100;
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/** Whether a schedule window covers `now` (local time). */
+export function isScheduleActive(entry: BandwidthScheduleEntry, now: Date): boolean {
+  const start = parseTime(entry.start);
+  const end = parseTime(entry.end);
+  if (start === null || end === null) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  let day = now.getDay();
+  if (start < end) {
+    if (minutes < start || minutes >= end) return false;
+  } else if (minutes < end) {
+    // Early-morning part of a window that started the day before
+    day = (day + 6) % 7;
+  } else if (minutes < start) {
+    return false;
+  }
+  return entry.days === undefined || entry.days.includes(day);
+}
+
+function optionalRate(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function parseRateLimits(raw: Record<string, unknown>): RateLimits {
+  const limits: RateLimits = {};
+  const upload = optionalRate(raw.uploadBytesPerSec);
+  const download = optionalRate(raw.downloadBytesPerSec);
+  if (upload !== undefined) limits.uploadBytesPerSec = upload;
+  if (download !== undefined) limits.downloadBytesPerSec = download;
+  return limits;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Read bandwidth options from `__config` settings, skipping anything malformed. */
+export function parseBandwidthOptions(raw: unknown): BandwidthOptions | undefined {
+  if (!isRecord(raw)) return undefined;
+  const options: BandwidthOptions = parseRateLimits(raw);
+
+  if (isRecord(raw.peers)) {
+    options.peers = {};
+    for (const [writerKey, limits] of Object.entries(raw.peers)) {
+      if (isRecord(limits)) options.peers[writerKey] = parseRateLimits(limits);
+    }
+  }
+
+  if (Array.isArray(raw.schedule)) {
+    options.schedule = [];
+    for (const entry of raw.schedule) {
+      if (!isRecord(entry) || typeof entry.start !== "string" || typeof entry.end !== "string") {
+        continue;
+      }
+      if (parseTime(entry.start) === null || parseTime(entry.end) === null) continue;
+      const parsed: BandwidthScheduleEntry = {
+        start: entry.start,
+        end: entry.end,
+        ...parseRateLimits(entry),
+      };
+      if (Array.isArray(entry.days)) {
+        parsed.days = entry.days.filter(
+          (day): day is number => Number.isInteger(day) && day >= 0 && day <= 6,
+        );
+      }
+      options.schedule.push(parsed);
+    }
+  }
+  return options;
+}
+
+/** A token bucket that may go into debt: a large message passes, then the sender waits. */
+class TokenBucket {
+  /** Starts full once a limit applies */
+  private tokens: number | null = null;
+  private updatedAt = Date.now();
+  private rate: () => number;
+
+  constructor(rate: () => number) {
+    this.rate = rate;
+  }
+
+  /** Spend `bytes`; returns how many ms the sender should wait before sending more. */
+  take(bytes: number, now: number): number {
+    const delay = this.wait(now);
+    if (this.tokens === null) return delay;
+    this.tokens -= bytes;
+    return this.wait(now);
+  }
+
+  /** How many ms until the bucket is out of debt. */
+  wait(now: number): number {
+    const rate = this.rate();
+    if (rate <= 0) {
+      this.tokens = null;
+      return 0;
+    }
+    const burst = rate * BURST_SECONDS;
+    const refill = ((now - this.updatedAt) / 1000) * rate;
+    this.tokens = this.tokens === null ? burst : Math.min(burst, this.tokens + refill);
+    this.updatedAt = now;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / rate) * 1000);
+  }
+}
+
+/** Bytes per second over a sliding window of one-second slots. */
+class RateMeter {
+  private slots: number[] = new Array(RATE_WINDOW_SECONDS).fill(0);
+  private second = Math.floor(Date.now() / 1000);
+
+  add(bytes: number, now: number): void {
+    this.advance(now);
+    this.slots[this.second % RATE_WINDOW_SECONDS] += bytes;
+  }
+
+  rate(now: number): number {
+    this.advance(now);
+    const total = this.slots.reduce((sum, bytes) => sum + bytes, 0);
+    return Math.round(total / RATE_WINDOW_SECONDS);
+  }
+
+  private advance(now: number): void {
+    const second = Math.floor(now / 1000);
+    const elapsed = Math.min(second - this.second, RATE_WINDOW_SECONDS);
+    for (let i = 1; i <= elapsed; i++) this.slots[(this.second + i) % RATE_WINDOW_SECONDS] = 0;
+    if (second > this.second) this.second = second;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms).unref?.());
+}
+
+/**
+ * Enforces upload and download limits on replication streams, globally and per peer, and
+ * measures the rates actually achieved. Streams are matched to peers by the swarm key each
+ * peer publishes in its `__peer:` entry. Each folder's engine has its own limiter, so the
+ * limits are per folder.
+ */
+export class BandwidthLimiter {
+  private options: BandwidthOptions;
+  private global: Record<Direction, TokenBucket>;
+  private peerBuckets: Map<string, Record<Direction, TokenBucket>> = new Map();
+  private peerBySwarmKey: Map<string, string> = new Map();
+  private meters: Record<Direction, RateMeter> = {
+    upload: new RateMeter(),
+    download: new RateMeter(),
+  };
+  private releases: Set<() => void> = new Set();
+
+  constructor(options?: BandwidthOptions) {
+    this.options = options ?? {};
+    this.global = {
+      upload: new TokenBucket(() => this.limits().uploadBytesPerSec ?? 0),
+      download: new TokenBucket(() => this.limits().downloadBytesPerSec ?? 0),
+    };
+  }
+
+  /** The global limits in effect at `now`, with any active schedule entry applied. */
+  limits(now = new Date()): RateLimits {
+    const base: RateLimits = {
+      uploadBytesPerSec: this.options.uploadBytesPerSec,
+      downloadBytesPerSec: this.options.downloadBytesPerSec,
+    };
+    const active = this.options.schedule?.find((entry) => isScheduleActive(entry, now));
+    if (!active) return base;
+    return {
+      uploadBytesPerSec: active.uploadBytesPerSec ?? base.uploadBytesPerSec,
+      downloadBytesPerSec: active.downloadBytesPerSec ?? base.downloadBytesPerSec,
+    };
+  }
+
+  /** Refresh which swarm key belongs to which peer. */
+  setPeers(peers: { writerKey: string; swarmKey?: string }[]): void {
+    this.peerBySwarmKey.clear();
+    for (const peer of peers) {
+      if (peer.swarmKey) this.peerBySwarmKey.set(peer.swarmKey, peer.writerKey);
+    }
+  }
+
+  /**
+   * Meter a connection and enforce the limits on it. While it is over the upload limit or its
+   * peer's download limit, the connection is corked: our writes queue up, and with them the
+   * requests that make the peer send data. The global download limit is applied where blocks
+   * are requested instead, see {@link reserveDownload}.
+   */
+  throttle(stream: ThrottleableStream): void {
+    const swarmKey = stream.remotePublicKey?.toString("hex") ?? null;
+    let read = stream.rawBytesRead;
+    let written = stream.rawBytesWritten;
+    let corked = false;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const received = stream.rawBytesRead - read;
+      const sent = stream.rawBytesWritten - written;
+      read = stream.rawBytesRead;
+      written = stream.rawBytesWritten;
+      this.meters.download.add(received, now);
+      this.meters.upload.add(sent, now);
+      const delay = Math.max(
+        this.global.upload.take(sent, now),
+        this.peerDelay("upload", swarmKey, sent, now),
+        this.peerDelay("download", swarmKey, received, now),
+      );
+      const hold = delay > 0;
+      if (hold === corked) return;
+      corked = hold;
+      if (corked) stream.cork();
+      else stream.uncork();
+    }, METER_INTERVAL_MS);
+    timer.unref?.();
+
+    const release = () => {
+      clearInterval(timer);
+      this.releases.delete(release);
+      if (corked) stream.uncork();
+    };
+    this.releases.add(release);
+    stream.once("close", () => {
+      corked = false;
+      release();
+    });
+  }
+
+  /**
+   * Charge `bytes` about to be requested to the global download limit. Resolves once the limit
+   * allows them, so fetches are paced by what they download rather than by how many there are.
+   */
+  async reserveDownload(bytes: number): Promise<void> {
+    for (;;) {
+      const delay = this.global.download.wait(Date.now());
+      if (delay === 0) break;
+      await sleep(delay);
+    }
+    this.global.download.take(bytes, Date.now());
+  }
+
+  /** Stop metering every connection and uncork the ones being held back. */
+  close(): void {
+    for (const release of [...this.releases]) release();
+  }
+
+  rates(): TransferRates {
+    const now = Date.now();
+    return {
+      uploadRate: this.meters.upload.rate(now),
+      downloadRate: this.meters.download.rate(now),
+    };
+  }
+
+  /** Charge a peer's own limit, if it has one; returns how many ms to hold its connection. */
+  private peerDelay(
+    direction: Direction,
+    swarmKey: string | null,
+    bytes: number,
+    now: number,
+  ): number {
+    const writerKey = swarmKey ? this.peerBySwarmKey.get(swarmKey) : undefined;
+    if (!writerKey || !this.options.peers?.[writerKey]) return 0;
+    return this.peerBucket(writerKey)[direction].take(bytes, now);
+  }
+
+  private peerBucket(writerKey: string): Record<Direction, TokenBucket> {
+    let buckets = this.peerBuckets.get(writerKey);
+    if (!buckets) {
+      buckets = {
+        upload: new TokenBucket(() => this.options.peers?.[writerKey]?.uploadBytesPerSec ?? 0),
+        download: new TokenBucket(() => this.options.peers?.[writerKey]?.downloadBytesPerSec ?? 0),
+      };
+      this.peerBuckets.set(writerKey, buckets);
+    }
+    return buckets;
+  }
+}
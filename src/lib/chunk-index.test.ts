@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { ChunkIndex, fileChunks } from "./chunk-index";
+import type { FileMetadata } from "./manifest-store";
+
+const LOCAL = "a".repeat(64);
+const REMOTE = "b".repeat(64);
+
+function makeFile(overrides?: Partial<Omit<FileMetadata, "kind">>): FileMetadata {
+  return {
+    kind: "file",
+    size: 70 * 1024,
+    mtime: Date.now(),
+    hash: "f".repeat(64),
+    baseHash: null,
+    seq: 1,
+    writerKey: REMOTE,
+    ...overrides,
+  };
+}
+
+describe("ChunkIndex", () => {
+  it("keeps the first location for a hash", () => {
+    const index = new ChunkIndex(LOCAL);
+    index.add({ hash: "h1", size: 10, writerKey: REMOTE, index: 3 });
+    index.add({ hash: "h1", size: 10, writerKey: "c".repeat(64), index: 9 });
+    expect(index.get("h1")).toEqual({ hash: "h1", size: 10, writerKey: REMOTE, index: 3 });
+    expect(index.get("missing")).toBeNull();
+  });
+
+  it("prefers chunks in the local writer's core", () => {
+    const index = new ChunkIndex(LOCAL);
+    index.add({ hash: "h1", size: 10, writerKey: REMOTE, index: 3 });
+    index.add({ hash: "h1", size: 10, writerKey: LOCAL, index: 0 });
+    index.add({ hash: "h1", size: 10, writerKey: REMOTE, index: 5 });
+    expect(index.get("h1")?.writerKey).toBe(LOCAL);
+    expect(index.size).toBe(1);
+  });
+
+  it("indexes legacy fixed-size block entries with hashes", () => {
+    const index = new ChunkIndex(LOCAL);
+    index.addFile(makeFile({ blocks: { offset: 4, length: 2 }, blockHashes: ["h1", "h2"] }));
+    expect(index.get("h1")).toEqual({ hash: "h1", size: 64 * 1024, writerKey: REMOTE, index: 4 });
+    expect(index.get("h2")).toEqual({ hash: "h2", size: 6 * 1024, writerKey: REMOTE, index: 5 });
+
+    index.addFile(makeFile({ blocks: { offset: 0, length: 2 } }));
+    expect(index.size).toBe(2);
+  });
+});
+
+describe("fileChunks", () => {
+  it("returns the chunk list of chunked entries", () => {
+    const chunks = [{ hash: "h1", size: 5, writerKey: LOCAL, index: 7 }];
+    expect(fileChunks(makeFile({ chunks }))).toEqual(chunks);
+  });
+
+  it("expands legacy block ranges", () => {
+    expect(fileChunks(makeFile({ blocks: { offset: 2, length: 2 } }))).toEqual([
+      { hash: null, size: 64 * 1024, writerKey: REMOTE, index: 2 },
+      { hash: null, size: 6 * 1024, writerKey: REMOTE, index: 3 },
+    ]);
+  });
+});
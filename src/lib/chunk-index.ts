@@ -0,0 +1,90 @@
+import { DEFAULT_BLOCK_SIZE } from "./file-store";
+import type { FileMetadata } from "./manifest-store";
+
+/** A content chunk stored as one block of a writer's file-data core. */
+export interface ChunkRef {
+  hash: string; // sha256 of the chunk
+  size: number; // bytes
+  writerKey: string; // core that holds the block
+  index: number; // block index in that core
+}
+
+/** Where to read one piece of a file; legacy entries may lack a hash. */
+export interface ChunkSource {
+  hash: string | null;
+  size: number;
+  writerKey: string;
+  index: number;
+}
+
+/** List the chunks that make up a file, in order, for both chunked and legacy entries. */
+export function fileChunks(metadata: FileMetadata): ChunkSource[] {
+  if (metadata.chunks) return metadata.chunks;
+  if (!metadata.blocks) return [];
+
+  const sources: ChunkSource[] = [];
+  for (let i = 0; i < metadata.blocks.length; i++) {
+    sources.push({
+      hash: metadata.blockHashes?.[i] ?? null,
+      // Legacy entries use fixed-size blocks; only the last one can be short.
+      size: Math.min(DEFAULT_BLOCK_SIZE, metadata.size - DEFAULT_BLOCK_SIZE * i),
+      writerKey: metadata.writerKey,
+      index: metadata.blocks.offset + i,
+    });
+  }
+  return sources;
+}
+
+/**
+ * In-memory index of known chunks keyed by hash, built from manifest entries.
+ *
+ * Chunks in the local writer's core win over copies in other cores, since they are
+ * always available without a network round trip.
+ */
+export class ChunkIndex {
+  private chunks: Map<string, ChunkRef> = new Map();
+  private localWriterKey: string | null;
+
+  constructor(localWriterKey?: string) {
+    this.localWriterKey = localWriterKey ?? null;
+  }
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  get(hash: string): ChunkRef | null {
+    return this.chunks.get(hash) ?? null;
+  }
+
+  add(ref: ChunkRef): void {
+    const existing = this.chunks.get(ref.hash);
+    if (existing) {
+      const upgradesToLocal =
+        ref.writerKey === this.localWriterKey && existing.writerKey !== this.localWriterKey;
+      if (!upgradesToLocal) return;
+    }
+    this.chunks.set(ref.hash, ref);
+  }
+
+  /** Index every hashed chunk referenced by a file entry. */
+  addFile(metadata: FileMetadata): void {
+    if (metadata.chunks) {
+      for (const ref of metadata.chunks) this.add(ref);
+      return;
+    }
+    // Legacy entries use fixed-size blocks; only the last one can be short.
+    if (!metadata.blocks || !metadata.blockHashes) return;
+    const blockCount = metadata.blocks.length;
+    for (let i = 0; i < blockCount; i++) {
+      const hash = metadata.blockHashes[i];
+      if (!hash) continue;
+      this.add({
+        hash,
+        size: Math.min(DEFAULT_BLOCK_SIZE, metadata.size - DEFAULT_BLOCK_SIZE * i),
+        writerKey: metadata.writerKey,
+        index: metadata.blocks.offset + i,
+      });
+    }
+  }
+}
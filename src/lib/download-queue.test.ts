@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { DownloadQueue } from "./download-queue";
+
+const HOUR = 60 * 60 * 1000;
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("DownloadQueue", () => {
+  it("starts recent files first, then the rest, smallest first", async () => {
+    const now = Date.now();
+    const queue = new DownloadQueue({ concurrency: 1 });
+    const started: string[] = [];
+    await queue.run(
+      [
+        { path: "/old-big", size: 500, mtime: now - 2 * HOUR },
+        { path: "/recent-big", size: 400, mtime: now },
+        { path: "/old-small", size: 10, mtime: now - 2 * HOUR },
+        { path: "/recent-small", size: 20, mtime: now - 1000 },
+      ],
+      async ({ path }) => {
+        started.push(path);
+      },
+    );
+    expect(started).toEqual(["/recent-small", "/recent-big", "/old-small", "/old-big"]);
+  });
+
+  it("runs up to the concurrency limit at once", async () => {
+    const queue = new DownloadQueue({ concurrency: 2 });
+    const gates = new Map<string, ReturnType<typeof deferred>>();
+    const running = new Set<string>();
+    let maxRunning = 0;
+    const requests = ["/a", "/b", "/c", "/d"].map((path) => {
+      gates.set(path, deferred());
+      return { path, size: 1, mtime: 0 };
+    });
+
+    const run = queue.run(requests, async ({ path }) => {
+      running.add(path);
+      maxRunning = Math.max(maxRunning, running.size);
+      await gates.get(path)!.promise;
+      running.delete(path);
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect([...running]).toEqual(["/a", "/b"]);
+    expect(queue.pending()).toEqual(["/c", "/d"]);
+
+    for (const gate of gates.values()) gate.resolve();
+    await run;
+    expect(maxRunning).toBe(2);
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it("moves a bumped path ahead of waiting downloads", async () => {
+    const queue = new DownloadQueue({ concurrency: 1 });
+    const first = deferred();
+    const started: string[] = [];
+    const run = queue.run(
+      ["/a", "/b", "/c"].map((path) => ({ path, size: 1, mtime: 0 })),
+      async ({ path }) => {
+        started.push(path);
+        if (path === "/a") await first.promise;
+      },
+    );
+    queue.prioritize("/c");
+    expect(queue.pending()).toEqual(["/c", "/b"]);
+    first.resolve();
+    await run;
+    expect(started).toEqual(["/a", "/c", "/b"]);
+  });
+
+  it("applies a bump made before the path is queued", async () => {
+    const queue = new DownloadQueue({ concurrency: 1 });
+    queue.prioritize("/z");
+    const started: string[] = [];
+    await queue.run(
+      ["/a", "/z"].map((path) => ({ path, size: 1, mtime: 0 })),
+      async ({ path }) => {
+        started.push(path);
+      },
+    );
+    expect(started).toEqual(["/z", "/a"]);
+  });
+
+  it("keeps running after a failure and resolves with the errors by path", async () => {
+    const queue = new DownloadQueue({ concurrency: 1 });
+    const started: string[] = [];
+    const error = new Error("failed /a");
+    const failures = await queue.run(
+      ["/a", "/b"].map((path) => ({ path, size: 1, mtime: 0 })),
+      async ({ path }) => {
+        started.push(path);
+        if (path === "/a") throw error;
+      },
+    );
+    expect(started).toEqual(["/a", "/b"]);
+    expect(failures).toEqual(new Map([["/a", error]]));
+    expect(queue.pending()).toEqual([]);
+  });
+});
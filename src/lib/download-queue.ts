@@ -0,0 +1,98 @@
+/** Files modified within this window of the remote pass are downloaded before older ones. */
+export const DEFAULT_RECENT_WINDOW_MS = 60 * 60 * 1000;
+
+export interface DownloadRequest {
+  path: string;
+  size: number;
+  mtime: number;
+}
+
+export interface DownloadQueueOptions {
+  /** How many downloads run at once. Default: 4 */
+  concurrency?: number;
+  recentWindowMs?: number;
+}
+
+/**
+ * Runs the downloads of a remote pass a few at a time, best first: paths whose priority was
+ * bumped (most recent bump first), then recently modified files, then the rest, each group
+ * smallest first. Bumps also reorder downloads that are already waiting.
+ */
+export class DownloadQueue {
+  private concurrency: number;
+  private recentWindowMs: number;
+  /** When each bumped path was bumped; kept until the path is downloaded */
+  private bumped: Map<string, number> = new Map();
+  private waiting: DownloadRequest[] = [];
+
+  constructor(options?: DownloadQueueOptions) {
+    this.concurrency = Math.max(1, options?.concurrency ?? 4);
+    this.recentWindowMs = options?.recentWindowMs ?? DEFAULT_RECENT_WINDOW_MS;
+  }
+
+  /** Move `path` ahead of everything not bumped, now or whenever it is next queued. */
+  prioritize(path: string): void {
+    this.bumped.set(path, Date.now());
+    const index = this.waiting.findIndex((request) => request.path === path);
+    if (index > 0) this.waiting.unshift(...this.waiting.splice(index, 1));
+  }
+
+  /** Paths still waiting for a slot, in the order they will start. */
+  pending(): string[] {
+    return this.waiting.map((request) => request.path);
+  }
+
+  /**
+   * Run `task` for each request in priority order, at most `concurrency` at a time. A failed
+   * task does not stop the others; resolves with the errors of the failed ones, by path.
+   */
+  async run<T extends DownloadRequest>(
+    requests: T[],
+    task: (request: T) => Promise<void>,
+  ): Promise<Map<string, unknown>> {
+    const now = Date.now();
+    const queued = [...requests].sort((a, b) => this.compare(a, b, now));
+    this.waiting.push(...queued);
+    const mine = new Set<DownloadRequest>(queued);
+    const failures = new Map<string, unknown>();
+
+    const next = (): T | null => {
+      const index = this.waiting.findIndex((request) => mine.has(request));
+      if (index === -1) return null;
+      return this.waiting.splice(index, 1)[0] as T;
+    };
+    const worker = async () => {
+      for (let request = next(); request; request = next()) {
+        try {
+          await task(request);
+          this.bumped.delete(request.path);
+        } catch (error) {
+          failures.set(request.path, error);
+        }
+      }
+    };
+
+    try {
+      const workers = Math.min(this.concurrency, queued.length);
+      await Promise.all(Array.from({ length: workers }, worker));
+    } finally {
+      this.waiting = this.waiting.filter((request) => !mine.has(request));
+    }
+    return failures;
+  }
+
+  private compare(a: DownloadRequest, b: DownloadRequest, now: number): number {
+    const bumpA = this.bumped.get(a.path);
+    const bumpB = this.bumped.get(b.path);
+    if (bumpA !== undefined || bumpB !== undefined) {
+      if (bumpA === undefined) return 1;
+      if (bumpB === undefined) return -1;
+      if (bumpA !== bumpB) return bumpB - bumpA;
+    }
+    const recentA = now - a.mtime <= this.recentWindowMs;
+    const recentB = now - b.mtime <= this.recentWindowMs;
+    if (recentA !== recentB) return recentA ? -1 : 1;
+    if (a.size !== b.size) return a.size - b.size;
+    return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+  }
+}
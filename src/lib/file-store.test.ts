@@ -4,7 +4,9 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import Corestore from "corestore";
 import { afterEach, describe, expect, it } from "vitest";
+import { ChunkIndex } from "./chunk-index";
 import { FileStore } from "./file-store";
+import { cdcChunkBuffer } from "./file-utils";
 
 const BLOCK_SIZE = 64 * 1024; // 64KB default
 
@@ -51,7 +53,8 @@ describe("FileStore — core functionality", () => {
     const data = randomBytes(BLOCK_SIZE * 3 + 1000);
     const meta = await fs.writeFile(data);
 
-    expect(meta.length).toBe(4);
+    expect(meta.length).toBe(cdcChunkBuffer(data).length);
+    expect(meta.length).toBeGreaterThan(1);
     expect(meta.size).toBe(data.length);
 
     const result = await fs.readFile(meta.offset, meta.length);
@@ -95,7 +98,7 @@ describe("FileStore — core functionality", () => {
 
     expect(meta1.offset).toBe(0);
     expect(meta2.offset).toBe(1);
-    expect(meta3.offset).toBe(4); // 1 + 3 blocks
+    expect(meta3.offset).toBe(1 + meta2.length);
 
     const result1 = await fs.readFile(meta1.offset, meta1.length);
     const result2 = await fs.readFile(meta2.offset, meta2.length);
@@ -211,6 +214,118 @@ describe("FileStore — chunking", () => {
     await fs.close();
     await store.close();
   });
+
+  it("lists every chunk and appends repeated content once", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const fs = new FileStore(store, { blockSize: 8 });
+    await fs.ready();
+    const index = new ChunkIndex(fs.core.key.toString("hex"));
+
+    const meta = await fs.writeFile(Buffer.from("AAAAAAAABBBBBBBBAAAAAAAA"), index);
+
+    expect(meta.chunks).toHaveLength(3);
+    expect(meta.length).toBe(2);
+    expect(meta.chunks[0]).toEqual(meta.chunks[2]);
+    expect(meta.chunks[0].hash).not.toBe(meta.chunks[1].hash);
+    expect(meta.chunks.map((c) => c.size)).toEqual([8, 8, 8]);
+    expect((await fs.writeFile(Buffer.alloc(0))).chunks).toEqual([]);
+
+    await fs.close();
+    await store.close();
+  });
+});
+
+describe("FileStore — deduplication", () => {
+  it("reuses chunks from the index across files", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const fs = new FileStore(store);
+    await fs.ready();
+    const index = new ChunkIndex(fs.core.key.toString("hex"));
+
+    const shared = randomBytes(BLOCK_SIZE * 4);
+    const first = await fs.writeFile(shared, index);
+    const lengthAfterFirst = fs.core.length;
+
+    const second = await fs.writeFile(shared, index);
+    expect(second.length).toBe(0);
+    expect(second.chunks).toEqual(first.chunks);
+    expect(fs.core.length).toBe(lengthAfterFirst);
+
+    await fs.close();
+    await store.close();
+  });
+
+  it("an insertion near the start only adds the chunks around it", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const fs = new FileStore(store);
+    await fs.ready();
+    const index = new ChunkIndex(fs.core.key.toString("hex"));
+
+    const original = randomBytes(BLOCK_SIZE * 16);
+    const first = await fs.writeFile(original, index);
+    const edited = Buffer.concat([
+      original.subarray(0, 100),
+      Buffer.from("inserted"),
+      original.subarray(100),
+    ]);
+    const second = await fs.writeFile(edited, index);
+
+    expect(second.length).toBeLessThanOrEqual(2);
+    expect(second.length).toBeLessThan(first.length);
+    const parts = await Promise.all(
+      second.chunks.map(async (chunk) => (await fs.core.get(chunk.index)) as Buffer),
+    );
+    expect(Buffer.concat(parts).equals(edited)).toBe(true);
+
+    await fs.close();
+    await store.close();
+  });
+});
+
+describe("FileStore — streaming", () => {
+  it("writeStream matches writeFile for the same bytes in uneven pieces", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const fs = new FileStore(store);
+    await fs.ready();
+
+    const data = randomBytes(BLOCK_SIZE * 10 + 123);
+    const pieces = [data.subarray(0, 1000), data.subarray(1000, 300_000), data.subarray(300_000)];
+    const streamed = await fs.writeStream(pieces);
+    const whole = await fs.writeFile(data);
+
+    expect(streamed.hash).toBe(whole.hash);
+    expect(streamed.size).toBe(data.length);
+    expect(streamed.chunks.map((c) => c.hash)).toEqual(whole.chunks.map((c) => c.hash));
+    expect((await fs.readFile(streamed.offset, streamed.length)).equals(data)).toBe(true);
+
+    await fs.close();
+    await store.close();
+  });
+
+  it("appends large files in several batches as one contiguous range", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const fs = new FileStore(store);
+    await fs.ready();
+    const index = new ChunkIndex(fs.core.key.toString("hex"));
+
+    const data = randomBytes(10 * 1024 * 1024);
+    async function* source() {
+      for (let offset = 0; offset < data.length; offset += BLOCK_SIZE) {
+        yield data.subarray(offset, offset + BLOCK_SIZE);
+      }
+    }
+    const result = await fs.writeStream(source(), index);
+
+    expect(result.length).toBe(result.chunks.length);
+    expect(result.chunks.map((c) => c.index)).toEqual(
+      result.chunks.map((_, i) => result.offset + i),
+    );
+    expect(index.size).toBe(result.chunks.length);
+    expect((await fs.readFile(result.offset, result.length)).equals(data)).toBe(true);
+
+    await fs.close();
+    await store.close();
+  });
 });
 
 describe("FileStore — replication", () => {
@@ -335,8 +450,7 @@ describe("FileStore — edge cases", () => {
     const data = randomBytes(10 * 1024 * 1024 + 42); // ~10MB
     const meta = await fs.writeFile(data);
 
-    const expectedBlocks = Math.ceil(data.length / BLOCK_SIZE);
-    expect(meta.length).toBe(expectedBlocks);
+    expect(meta.length).toBe(cdcChunkBuffer(data).length);
     expect(meta.size).toBe(data.length);
 
     const result = await fs.readFile(meta.offset, meta.length);
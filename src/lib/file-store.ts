@@ -1,16 +1,21 @@
 import { createHash } from "node:crypto";
 import Corestore from "corestore";
+import type { ChunkIndex, ChunkRef } from "./chunk-index";
+import { cdcChunkStream, chunkStream, hashBuffer } from "./file-utils";
 
-const DEFAULT_BLOCK_SIZE = 64 * 1024; // 64KB
+export const DEFAULT_BLOCK_SIZE = 64 * 1024; // 64KB
+const APPEND_BATCH_BYTES = 4 * 1024 * 1024; // 4MB
 
 export interface StoredFile {
-  offset: number; // starting block index
-  length: number; // number of blocks
+  offset: number; // index of the first block appended by this write
+  length: number; // number of blocks appended (chunks already in the index are not)
   size: number; // total bytes
   hash: string; // sha256 of content
+  chunks: ChunkRef[]; // every chunk of the file, in order
 }
 
 export interface FileStoreOptions {
+  /** Use fixed-size blocks instead of content-defined chunks. */
   blockSize?: number;
   name?: string;
 }
@@ -18,11 +23,11 @@ export interface FileStoreOptions {
 export class FileStore {
   private store: InstanceType<typeof Corestore>;
   private _core: ReturnType<InstanceType<typeof Corestore>["get"]>;
-  private blockSize: number;
+  private blockSize: number | null;
 
   constructor(store: InstanceType<typeof Corestore>, options?: FileStoreOptions) {
     this.store = store;
-    this.blockSize = options?.blockSize ?? DEFAULT_BLOCK_SIZE;
+    this.blockSize = options?.blockSize ?? null;
     this._core = store.get({ name: options?.name ?? "file-data" });
   }
 
@@ -34,25 +39,81 @@ export class FileStore {
     await this._core.ready();
   }
 
-  async writeFile(data: Buffer): Promise<StoredFile> {
-    const hash = createHash("sha256").update(data).digest("hex");
+  /**
+   * Store a file as chunks. When a chunk index is given, chunks it already knows about
+   * (from any file, version or writer) and repeats within the file are referenced instead
+   * of appended again. Without one, every chunk is appended in order.
+   */
+  async writeFile(data: Buffer, chunkIndex?: ChunkIndex): Promise<StoredFile> {
+    return this.writeStream([data], chunkIndex);
+  }
 
-    if (data.length === 0) {
-      return { offset: this._core.length, length: 0, size: 0, hash };
-    }
+  /**
+   * Store a file from a byte stream, like `writeFile`. New chunks are appended in batches
+   * of about `APPEND_BATCH_BYTES`, so memory stays bounded regardless of file size.
+   */
+  async writeStream(
+    source: AsyncIterable<Buffer> | Iterable<Buffer>,
+    chunkIndex?: ChunkIndex,
+  ): Promise<StoredFile> {
+    const writerKey = this._core.key.toString("hex");
+    const fileHash = createHash("sha256");
+    const chunks: ChunkRef[] = [];
+    let size = 0;
+    let offset = -1;
+    let appended = 0;
+
+    // Chunks waiting to be appended; their refs get an index once the batch lands.
+    let batch: Buffer[] = [];
+    let batchBytes = 0;
+    let batchRefs: ChunkRef[] = [];
+    const batchByHash = new Map<string, ChunkRef>();
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await this._core.append(batch);
+      const first = result.length - batch.length;
+      if (offset === -1) offset = first;
+      appended += batch.length;
+      batchRefs.forEach((ref, slot) => {
+        ref.index = first + slot;
+        chunkIndex?.add(ref);
+      });
+      batch = [];
+      batchBytes = 0;
+      batchRefs = [];
+      batchByHash.clear();
+    };
 
-    const chunks: Buffer[] = [];
-    for (let i = 0; i < data.length; i += this.blockSize) {
-      chunks.push(data.subarray(i, i + this.blockSize));
-    }
+    const pieces =
+      this.blockSize === null ? cdcChunkStream(source) : chunkStream(source, this.blockSize);
+    for await (const piece of pieces) {
+      fileHash.update(piece);
+      size += piece.length;
+
+      const pieceHash = hashBuffer(piece);
+      const known = chunkIndex ? (chunkIndex.get(pieceHash) ?? batchByHash.get(pieceHash)) : null;
+      if (known) {
+        chunks.push(known);
+        continue;
+      }
 
-    const result = await this._core.append(chunks);
+      const ref: ChunkRef = { hash: pieceHash, size: piece.length, writerKey, index: -1 };
+      batch.push(piece);
+      batchBytes += piece.length;
+      batchRefs.push(ref);
+      batchByHash.set(pieceHash, ref);
+      chunks.push(ref);
+      if (batchBytes >= APPEND_BATCH_BYTES) await flush();
+    }
+    await flush();
 
     return {
-      offset: result.length - chunks.length,
-      length: chunks.length,
-      size: data.length,
-      hash,
+      offset: offset === -1 ? this._core.length : offset,
+      length: appended,
+      size,
+      hash: fileHash.digest("hex"),
+      chunks,
     };
   }
 
@@ -73,6 +134,35 @@ export class FileStore {
     return Buffer.concat(blocks);
   }
 
+  /**
+   * Drop the local copies of the given blocks, skipping any that are already gone.
+   * Returns how many blocks and bytes were freed.
+   */
+  async clearBlocks(indices: number[]): Promise<{ blocks: number; bytes: number }> {
+    const sorted = [...indices].sort((a, b) => a - b);
+    let blocks = 0;
+    let bytes = 0;
+    let runStart = -1;
+    let runEnd = -1;
+
+    for (const index of sorted) {
+      if (index >= this._core.length || !(await this._core.has(index))) continue;
+      const block = await this._core.get(index, { wait: false });
+      bytes += block?.length ?? 0;
+      blocks += 1;
+      if (index === runEnd) {
+        runEnd += 1;
+        continue;
+      }
+      if (runStart !== -1) await this._core.clear(runStart, runEnd);
+      runStart = index;
+      runEnd = index + 1;
+    }
+    if (runStart !== -1) await this._core.clear(runStart, runEnd);
+
+    return { blocks, bytes };
+  }
+
   async close(): Promise<void> {
     await this._core.close();
   }
@@ -1,5 +1,33 @@
+import { randomBytes } from "node:crypto";
 import { describe, expect, it } from "vitest";
-import { chunkBuffer, formatBytes, hashBuffer, normalizePath } from "./file-utils";
+import {
+  CDC_MAX_SIZE,
+  CDC_MIN_SIZE,
+  cdcChunkBuffer,
+  cdcChunkStream,
+  chunkBuffer,
+  chunkStream,
+  formatBytes,
+  hashBuffer,
+  hashStream,
+  normalizePath,
+} from "./file-utils";
+
+/** Feed `data` in pieces of varying size, the way a read stream would. */
+async function* pieces(data: Buffer): AsyncGenerator<Buffer> {
+  let offset = 0;
+  for (let i = 0; offset < data.length; i++) {
+    const size = 1000 + ((i * 7919) % 90_000);
+    yield data.subarray(offset, offset + size);
+    offset += size;
+  }
+}
+
+async function collect(source: AsyncIterable<Buffer>): Promise<Buffer[]> {
+  const out: Buffer[] = [];
+  for await (const piece of source) out.push(Buffer.from(piece));
+  return out;
+}
 
 describe("chunkBuffer", () => {
   it("returns single chunk for small data", () => {
@@ -24,6 +52,63 @@ describe("chunkBuffer", () => {
   });
 });
 
+describe("cdcChunkBuffer", () => {
+  it("returns a single chunk for data below the minimum size", () => {
+    const data = randomBytes(CDC_MIN_SIZE);
+    expect(cdcChunkBuffer(data)).toHaveLength(1);
+    expect(cdcChunkBuffer(Buffer.alloc(0))).toHaveLength(0);
+  });
+
+  it("keeps chunks within the size bounds and reassembles the input", () => {
+    const data = randomBytes(2 * 1024 * 1024);
+    const chunks = cdcChunkBuffer(data);
+    expect(Buffer.concat(chunks).equals(data)).toBe(true);
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.length).toBeGreaterThanOrEqual(CDC_MIN_SIZE);
+      expect(chunk.length).toBeLessThanOrEqual(CDC_MAX_SIZE);
+    }
+  });
+
+  it("cuts at the maximum size when content has no boundaries", () => {
+    const chunks = cdcChunkBuffer(Buffer.alloc(CDC_MAX_SIZE * 2 + 10));
+    expect(chunks.map((c) => c.length)).toEqual([CDC_MAX_SIZE, CDC_MAX_SIZE, 10]);
+  });
+
+  it("an insertion only changes the chunks around it", () => {
+    const data = randomBytes(1024 * 1024);
+    const edited = Buffer.concat([data.subarray(0, 500), Buffer.from("x"), data.subarray(500)]);
+    const before = new Set(cdcChunkBuffer(data).map(hashBuffer));
+    const after = cdcChunkBuffer(edited).map(hashBuffer);
+    const changed = after.filter((h) => !before.has(h));
+    expect(changed.length).toBeLessThanOrEqual(2);
+    expect(after.length - changed.length).toBeGreaterThan(0);
+  });
+});
+
+describe("streaming chunkers", () => {
+  it("cdcChunkStream cuts at the same boundaries as cdcChunkBuffer", async () => {
+    const data = randomBytes(3 * 1024 * 1024 + 17);
+    const streamed = await collect(cdcChunkStream(pieces(data)));
+    expect(streamed.map(hashBuffer)).toEqual(cdcChunkBuffer(data).map(hashBuffer));
+  });
+
+  it("chunkStream yields the same blocks as chunkBuffer", async () => {
+    const data = randomBytes(500_000);
+    const streamed = await collect(chunkStream(pieces(data), 64 * 1024));
+    expect(streamed.map(hashBuffer)).toEqual(chunkBuffer(data, 64 * 1024).map(hashBuffer));
+  });
+
+  it("handles empty input", async () => {
+    expect(await collect(cdcChunkStream([]))).toEqual([]);
+    expect(await collect(chunkStream([Buffer.alloc(0)]))).toEqual([]);
+  });
+
+  it("hashStream matches hashBuffer and counts bytes", async () => {
+    const data = randomBytes(1024 * 1024);
+    expect(await hashStream(pieces(data))).toEqual({ hash: hashBuffer(data), size: data.length });
+  });
+});
+
 describe("hashBuffer", () => {
   it("returns consistent sha256 hex", () => {
     const hash1 = hashBuffer(Buffer.from("hello"));
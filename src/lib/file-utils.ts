@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto";
-import { readFile } from "node:fs/promises";
+import { createReadStream } from "node:fs";
 
 const BLOCK_SIZE = 64 * 1024; // 64KB
 
@@ -11,9 +11,118 @@ export function chunkBuffer(data: Buffer, blockSize = BLOCK_SIZE): Buffer[] {
   return chunks;
 }
 
+/** Fixed-size chunking of a byte stream; yields the same pieces as `chunkBuffer`. */
+export async function* chunkStream(
+  source: AsyncIterable<Buffer> | Iterable<Buffer>,
+  blockSize = BLOCK_SIZE,
+): AsyncGenerator<Buffer> {
+  yield* splitStream(source, blockSize, (data) => Math.min(blockSize, data.length));
+}
+
+/** FastCDC chunk size bounds: chunks average ~64KB and never exceed 256KB. */
+export const CDC_MIN_SIZE = 16 * 1024;
+export const CDC_AVG_SIZE = 64 * 1024;
+export const CDC_MAX_SIZE = 256 * 1024;
+
+// Normalized chunking: a stricter mask before the average size, a looser one after.
+// The fingerprint shifts left per byte, so the high bits cover the most recent 32 bytes.
+const CDC_MASK_SMALL = 0xffffc000 >>> 0; // 18 bits
+const CDC_MASK_LARGE = 0xfffc0000 >>> 0; // 14 bits
+
+/** Gear table shared by every peer so that chunk boundaries agree across machines. */
+const GEAR = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = createHash("sha256").update(`pearsync-gear-${i}`).digest().readUInt32BE(0);
+  }
+  return table;
+})();
+
+function cdcCutPoint(data: Buffer, start: number): number {
+  const remaining = data.length - start;
+  if (remaining <= CDC_MIN_SIZE) return remaining;
+
+  const end = Math.min(remaining, CDC_MAX_SIZE);
+  const normal = Math.min(remaining, CDC_AVG_SIZE);
+  let fp = 0;
+  let i = CDC_MIN_SIZE;
+  for (; i < normal; i++) {
+    fp = ((fp << 1) + GEAR[data[start + i]]) >>> 0;
+    if ((fp & CDC_MASK_SMALL) === 0) return i + 1;
+  }
+  for (; i < end; i++) {
+    fp = ((fp << 1) + GEAR[data[start + i]]) >>> 0;
+    if ((fp & CDC_MASK_LARGE) === 0) return i + 1;
+  }
+  return end;
+}
+
+/**
+ * Split data at content-defined boundaries (FastCDC). An insertion only changes the
+ * chunks around it, so later chunks keep their hashes.
+ */
+export function cdcChunkBuffer(data: Buffer): Buffer[] {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const length = cdcCutPoint(data, offset);
+    chunks.push(data.subarray(offset, offset + length));
+    offset += length;
+  }
+  return chunks;
+}
+
+/**
+ * Content-defined chunking of a byte stream; yields the same pieces as `cdcChunkBuffer`
+ * while holding at most one maximum-size chunk of unconsumed input.
+ */
+export async function* cdcChunkStream(
+  source: AsyncIterable<Buffer> | Iterable<Buffer>,
+): AsyncGenerator<Buffer> {
+  yield* splitStream(source, CDC_MAX_SIZE, (data) => cdcCutPoint(data, 0));
+}
+
+/**
+ * Cut pieces off the front of a stream. `cut` only ever sees a full `window` of bytes,
+ * except for the tail at the end of the stream, so boundaries match whole-buffer cuts.
+ */
+async function* splitStream(
+  source: AsyncIterable<Buffer> | Iterable<Buffer>,
+  window: number,
+  cut: (data: Buffer) => number,
+): AsyncGenerator<Buffer> {
+  let pending: Buffer = Buffer.alloc(0);
+  for await (const data of source) {
+    pending = pending.length === 0 ? data : Buffer.concat([pending, data]);
+    while (pending.length >= window) {
+      const length = cut(pending);
+      yield pending.subarray(0, length);
+      pending = pending.subarray(length);
+    }
+  }
+  while (pending.length > 0) {
+    const length = cut(pending);
+    yield pending.subarray(0, length);
+    pending = pending.subarray(length);
+  }
+}
+
+/** Hash a byte stream without buffering it. */
+export async function hashStream(
+  source: AsyncIterable<Buffer> | Iterable<Buffer>,
+): Promise<{ hash: string; size: number }> {
+  const hasher = createHash("sha256");
+  let size = 0;
+  for await (const data of source) {
+    hasher.update(data);
+    size += data.length;
+  }
+  return { hash: hasher.digest("hex"), size };
+}
+
 export async function hashFile(filePath: string): Promise<string> {
-  const data = await readFile(filePath);
-  return createHash("sha256").update(data).digest("hex");
+  const { hash } = await hashStream(createReadStream(filePath));
+  return hash;
 }
 
 export function hashBuffer(data: Buffer): string {
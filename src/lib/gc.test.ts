@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BLOCK_SIZE } from "./file-store";
+import { expiredRevisions, referencedBlocks, retainedFiles } from "./gc";
+import type { FileMetadata, RevisionMetadata, UserManifestValue } from "./manifest-store";
+
+const LOCAL = "a".repeat(64);
+const REMOTE = "b".repeat(64);
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeFile(overrides?: Partial<Omit<FileMetadata, "kind">>): FileMetadata {
+  return {
+    kind: "file",
+    size: 10,
+    mtime: 0,
+    hash: "f".repeat(64),
+    baseHash: null,
+    seq: 1,
+    writerKey: LOCAL,
+    ...overrides,
+  };
+}
+
+function revision(path: string, entry: UserManifestValue, publishedAt?: number): RevisionMetadata {
+  return { kind: "revision", path, entry, publishedAt };
+}
+
+describe("retainedFiles", () => {
+  it("keeps current files and revisions superseded within the retention window", () => {
+    const v1 = makeFile({ seq: 1, mtime: 0, hash: "1".repeat(64) });
+    const v2 = makeFile({ seq: 2, mtime: 5 * DAY, hash: "2".repeat(64) });
+    const v3 = makeFile({ seq: 3, mtime: 9 * DAY, hash: "3".repeat(64) });
+    const current = new Map<string, UserManifestValue>([["/a.txt", v3]]);
+    const revisions = [revision("/a.txt", v3), revision("/a.txt", v1), revision("/a.txt", v2)];
+
+    // v1 was replaced 5 days ago, v2 only 1 day ago.
+    expect(retainedFiles(current, revisions, 10 * DAY, 3 * DAY)).toEqual([v3, v2]);
+    expect(retainedFiles(current, revisions, 10 * DAY, 0)).toEqual([v3]);
+  });
+
+  it("measures retention from when the next revision was published, not its mtime", () => {
+    // v2 carries an old mtime (e.g. a file copied in with its timestamps preserved) but was
+    // only published a day ago.
+    const v1 = makeFile({ seq: 1, mtime: 0, hash: "1".repeat(64) });
+    const v2 = makeFile({ seq: 2, mtime: DAY, hash: "2".repeat(64) });
+    const current = new Map<string, UserManifestValue>([["/a.txt", v2]]);
+    const revisions = [revision("/a.txt", v1, 0), revision("/a.txt", v2, 9 * DAY)];
+
+    expect(retainedFiles(current, revisions, 10 * DAY, 3 * DAY)).toEqual([v2, v1]);
+    expect(retainedFiles(current, revisions, 13 * DAY, 3 * DAY)).toEqual([v2]);
+  });
+
+  it("keeps the last file version before a deletion until the tombstone ages out", () => {
+    const file = makeFile({ seq: 1, mtime: 0 });
+    const tombstone: UserManifestValue = {
+      kind: "tombstone",
+      deleted: true,
+      mtime: DAY,
+      baseHash: file.hash,
+      seq: 2,
+      writerKey: REMOTE,
+    };
+    const current = new Map<string, UserManifestValue>([["/gone.txt", tombstone]]);
+    const revisions = [revision("/gone.txt", file), revision("/gone.txt", tombstone)];
+
+    expect(retainedFiles(current, revisions, 2 * DAY, 7 * DAY)).toEqual([file]);
+    expect(retainedFiles(current, revisions, 10 * DAY, 7 * DAY)).toEqual([]);
+  });
+
+  it("keeps only the newest superseded revisions of each path", () => {
+    const v1 = makeFile({ seq: 1, hash: "1".repeat(64) });
+    const v2 = makeFile({ seq: 2, hash: "2".repeat(64) });
+    const v3 = makeFile({ seq: 3, hash: "3".repeat(64) });
+    const current = new Map<string, UserManifestValue>([["/a.txt", v3]]);
+    const revisions = [
+      revision("/a.txt", v1, 0),
+      revision("/a.txt", v2, 0),
+      revision("/a.txt", v3, 0),
+    ];
+
+    expect(retainedFiles(current, revisions, DAY, 30 * DAY, 1)).toEqual([v3, v2]);
+    expect(retainedFiles(current, revisions, DAY, 30 * DAY, 0)).toEqual([v3]);
+  });
+});
+
+describe("expiredRevisions", () => {
+  it("returns superseded revisions past the age or count limit, never the current one", () => {
+    const v1 = makeFile({ seq: 1, hash: "1".repeat(64) });
+    const v2 = makeFile({ seq: 2, hash: "2".repeat(64) });
+    const v3 = makeFile({ seq: 3, hash: "3".repeat(64) });
+    const current = new Map<string, UserManifestValue>([["/a.txt", v3]]);
+    const r1 = revision("/a.txt", v1, 0);
+    const r2 = revision("/a.txt", v2, DAY);
+    const r3 = revision("/a.txt", v3, 5 * DAY);
+
+    expect(expiredRevisions(current, [r1, r2, r3], 6 * DAY, 3 * DAY)).toEqual([r1]);
+    expect(expiredRevisions(current, [r1, r2, r3], 6 * DAY, 30 * DAY, 1)).toEqual([r1]);
+    expect(expiredRevisions(current, [r1, r2, r3], 6 * DAY, 0)).toEqual([r2, r1]);
+    expect(expiredRevisions(current, [r3], 6 * DAY, 0, 0)).toEqual([]);
+  });
+});
+
+describe("referencedBlocks", () => {
+  it("collects chunk and legacy block indexes in the given writer's core", () => {
+    const chunked = makeFile({
+      size: 30,
+      chunks: [
+        { hash: "c1", size: 10, writerKey: LOCAL, index: 4 },
+        { hash: "c2", size: 20, writerKey: REMOTE, index: 7 },
+      ],
+    });
+    const legacy = makeFile({
+      size: DEFAULT_BLOCK_SIZE + 5,
+      blocks: { offset: 0, length: 2 },
+    });
+    const remoteLegacy = makeFile({ writerKey: REMOTE, blocks: { offset: 9, length: 1 } });
+
+    const blocks = referencedBlocks(LOCAL, [chunked, legacy, remoteLegacy]);
+    expect([...blocks.entries()].sort((a, b) => a[0] - b[0])).toEqual([
+      [0, DEFAULT_BLOCK_SIZE],
+      [1, 5],
+      [4, 10],
+    ]);
+  });
+});
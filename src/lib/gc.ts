@@ -0,0 +1,101 @@
+import { DEFAULT_BLOCK_SIZE } from "./file-store";
+import type { FileMetadata, RevisionMetadata, UserManifestValue } from "./manifest-store";
+import { isFileMetadata } from "./manifest-store";
+
+/**
+ * Split revision records into the ones to keep and the ones past the history retention:
+ * superseded revisions replaced `retentionMs` ago or more, and all but the newest
+ * `maxRevisions` superseded revisions of each path. The record of a path's current entry
+ * is always kept. A revision counts as replaced when the next revision of the same path
+ * was published; revisions from releases that did not record that fall back to its mtime.
+ */
+function partitionRevisions(
+  current: Map<string, UserManifestValue>,
+  revisions: RevisionMetadata[],
+  now: number,
+  retentionMs: number,
+  maxRevisions: number,
+): { kept: RevisionMetadata[]; expired: RevisionMetadata[] } {
+  const byPath = new Map<string, RevisionMetadata[]>();
+  for (const revision of revisions) {
+    const history = byPath.get(revision.path) ?? [];
+    history.push(revision);
+    byPath.set(revision.path, history);
+  }
+
+  const kept: RevisionMetadata[] = [];
+  const expired: RevisionMetadata[] = [];
+  for (const [path, history] of byPath) {
+    history.sort((a, b) => b.entry.seq - a.entry.seq || b.entry.mtime - a.entry.mtime);
+    const head = current.get(path);
+    let superseded = 0;
+    for (let i = 0; i < history.length; i++) {
+      const entry = history[i].entry;
+      if (head && head.seq === entry.seq && head.writerKey === entry.writerKey) {
+        kept.push(history[i]);
+        continue;
+      }
+      superseded++;
+      const next = history[i - 1];
+      const tooOld = next && now - (next.publishedAt ?? next.entry.mtime) >= retentionMs;
+      if (tooOld || superseded > maxRevisions) expired.push(history[i]);
+      else kept.push(history[i]);
+    }
+  }
+  return { kept, expired };
+}
+
+/**
+ * File versions whose content must be kept: every current entry, plus superseded
+ * revisions still inside the history retention (see `partitionRevisions`).
+ */
+export function retainedFiles(
+  current: Map<string, UserManifestValue>,
+  revisions: RevisionMetadata[],
+  now: number,
+  retentionMs: number,
+  maxRevisions = Number.POSITIVE_INFINITY,
+): FileMetadata[] {
+  const retained: FileMetadata[] = [];
+  for (const entry of current.values()) {
+    if (isFileMetadata(entry)) retained.push(entry);
+  }
+  const { kept } = partitionRevisions(current, revisions, now, retentionMs, maxRevisions);
+  for (const { path, entry } of kept) {
+    const head = current.get(path);
+    if (head && head.seq === entry.seq && head.writerKey === entry.writerKey) continue;
+    if (isFileMetadata(entry)) retained.push(entry);
+  }
+  return retained;
+}
+
+/** Revision records past the history retention, which can be deleted from the manifest. */
+export function expiredRevisions(
+  current: Map<string, UserManifestValue>,
+  revisions: RevisionMetadata[],
+  now: number,
+  retentionMs: number,
+  maxRevisions = Number.POSITIVE_INFINITY,
+): RevisionMetadata[] {
+  return partitionRevisions(current, revisions, now, retentionMs, maxRevisions).expired;
+}
+
+/** Block indexes (with sizes) of `writerKey`'s core that the given file versions reference. */
+export function referencedBlocks(writerKey: string, files: FileMetadata[]): Map<number, number> {
+  const blocks = new Map<number, number>();
+  for (const file of files) {
+    if (file.chunks) {
+      for (const chunk of file.chunks) {
+        if (chunk.writerKey === writerKey) blocks.set(chunk.index, chunk.size);
+      }
+      continue;
+    }
+    if (!file.blocks || file.writerKey !== writerKey) continue;
+    // Legacy entries use fixed-size blocks; only the last one can be short.
+    for (let i = 0; i < file.blocks.length; i++) {
+      const size = Math.min(DEFAULT_BLOCK_SIZE, file.size - DEFAULT_BLOCK_SIZE * i);
+      blocks.set(file.blocks.offset + i, size);
+    }
+  }
+  return blocks;
+}
@@ -0,0 +1,72 @@
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { hashBuffer } from "./file-utils";
+import { HashCache } from "./hash-cache";
+
+let tmpDirs: string[] = [];
+
+async function makeTmpDir(prefix = "pearsync-hash-cache-test-"): Promise<string> {
+	const dir = await mkdtemp(join(tmpdir(), prefix));
+	tmpDirs.push(dir);
+	return dir;
+}
+
+afterEach(async () => {
+	for (const dir of tmpDirs) {
+		await rm(dir, { recursive: true, force: true });
+	}
+	tmpDirs = [];
+});
+
+/** Write a file whose mtime is well outside the racy window. */
+async function writeSettled(path: string, content: string): Promise<void> {
+	await writeFile(path, content);
+	const past = new Date(Date.now() - 60_000);
+	await utimes(path, past, past);
+}
+
+describe("HashCache", () => {
+	it("remembers hashes of settled files across loads", async () => {
+		const syncDir = await makeTmpDir();
+		const file = join(syncDir, "a.txt");
+		await writeSettled(file, "hello");
+
+		const cache = new HashCache(syncDir);
+		await cache.load();
+		expect(await cache.hash("/a.txt", file)).toEqual({
+			hash: hashBuffer(Buffer.from("hello")),
+			size: 5,
+		});
+		expect(await cache.hash("/missing.txt", join(syncDir, "missing.txt"))).toBeNull();
+		await cache.flush();
+
+		const reloaded = new HashCache(syncDir);
+		await reloaded.load();
+		expect(reloaded.size).toBe(1);
+		expect(await reloaded.hash("/a.txt", file)).toEqual({
+			hash: hashBuffer(Buffer.from("hello")),
+			size: 5,
+		});
+	});
+
+	it("rehashes changed files and does not cache recently modified ones", async () => {
+		const syncDir = await makeTmpDir();
+		const file = join(syncDir, "a.txt");
+		await writeSettled(file, "hello");
+
+		const cache = new HashCache(syncDir);
+		await cache.load();
+		await cache.hash("/a.txt", file);
+		expect(cache.size).toBe(1);
+
+		// Same size and a restored mtime still change the ctime.
+		await writeSettled(file, "jello");
+		expect((await cache.hash("/a.txt", file))?.hash).toBe(hashBuffer(Buffer.from("jello")));
+
+		await writeFile(file, "fresh");
+		expect((await cache.hash("/a.txt", file))?.hash).toBe(hashBuffer(Buffer.from("fresh")));
+		expect(cache.size).toBe(0);
+	});
+});
@@ -0,0 +1,164 @@
+import { randomBytes } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { hashStream } from "./file-utils";
+
+interface HashCacheEntry {
+	size: number;
+	mtimeMs: number;
+	/** Catches renames and inode reuse that keep size and (restored) mtime */
+	ctimeMs: number;
+	ino: number;
+	hash: string;
+}
+
+/**
+ * A file modified within this long of being hashed could change again without its mtime
+ * moving (coarse filesystem timestamps), so its hash is not cached yet.
+ */
+const RACY_WINDOW_MS = 2000;
+const SAVE_DELAY_MS = 1000;
+
+type FileStat = Omit<HashCacheEntry, "hash">;
+
+function sameStat(a: FileStat, b: FileStat): boolean {
+	return a.size === b.size && a.mtimeMs === b.mtimeMs && a.ctimeMs === b.ctimeMs && a.ino === b.ino;
+}
+
+/**
+ * Content hashes of files in the sync folder keyed by their size, mtime, ctime and inode,
+ * kept in `.pearsync/hash-cache.json`, so files whose stat is unchanged are not read again.
+ */
+export class HashCache {
+	private entries: Map<string, HashCacheEntry> = new Map();
+	private filePath: string;
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(syncFolder: string) {
+		this.filePath = join(syncFolder, ".pearsync", "hash-cache.json");
+	}
+
+	/** Load the cache; a missing or unreadable file starts an empty one. */
+	async load(): Promise<void> {
+		this.entries = new Map();
+		let raw: unknown;
+		try {
+			raw = JSON.parse(await readFile(this.filePath, "utf-8")) as unknown;
+		} catch (err: unknown) {
+			if (err instanceof SyntaxError || (err as NodeJS.ErrnoException).code === "ENOENT") return;
+			throw err;
+		}
+		if (typeof raw !== "object" || raw === null) return;
+
+		for (const [path, value] of Object.entries(raw as Record<string, unknown>)) {
+			const entry = value as Partial<HashCacheEntry> | null;
+			if (
+				typeof entry?.size === "number" &&
+				typeof entry.mtimeMs === "number" &&
+				typeof entry.ctimeMs === "number" &&
+				typeof entry.ino === "number" &&
+				typeof entry.hash === "string"
+			) {
+				this.entries.set(path, {
+					size: entry.size,
+					mtimeMs: entry.mtimeMs,
+					ctimeMs: entry.ctimeMs,
+					ino: entry.ino,
+					hash: entry.hash,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Hash the file at `absPath` (tracked as `path`), reusing the cached hash while its stat
+	 * is unchanged. Returns null if there is no file.
+	 */
+	async hash(path: string, absPath: string): Promise<{ hash: string; size: number } | null> {
+		const before = await this.stat(absPath);
+		if (!before) {
+			this.forget(path);
+			return null;
+		}
+		const cached = this.entries.get(path);
+		if (cached && sameStat(cached, before)) {
+			return { hash: cached.hash, size: cached.size };
+		}
+
+		const startedAt = Date.now();
+		const result = await hashStream(createReadStream(absPath));
+		const after = await this.stat(absPath);
+		const unchanged = after !== null && after.size === result.size && sameStat(after, before);
+		if (unchanged && startedAt - before.mtimeMs >= RACY_WINDOW_MS) {
+			this.entries.set(path, { ...before, hash: result.hash });
+		} else {
+			this.entries.delete(path);
+		}
+		this.scheduleSave();
+		return result;
+	}
+
+	forget(path: string): void {
+		if (this.entries.delete(path)) this.scheduleSave();
+	}
+
+	/** Drop every cached hash so each file is read again. */
+	clear(): void {
+		this.entries.clear();
+		this.scheduleSave();
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/** Write pending changes now. */
+	async flush(): Promise<void> {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+			await this.persist();
+		}
+		await this.writeQueue;
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer) return;
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			this.persist().catch(() => {});
+		}, SAVE_DELAY_MS);
+		this.saveTimer.unref?.();
+	}
+
+	/** Atomic write of the cache, serialized via queue. */
+	private persist(): Promise<void> {
+		this.writeQueue = this.writeQueue
+			.catch(() => {})
+			.then(async () => {
+				await mkdir(dirname(this.filePath), { recursive: true });
+				const tmpPath = `${this.filePath}.${randomBytes(4).toString("hex")}.tmp`;
+				await writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+				await rename(tmpPath, this.filePath);
+			});
+		return this.writeQueue;
+	}
+
+	private async stat(absPath: string): Promise<FileStat | null> {
+		try {
+			const stats = await stat(absPath);
+			if (!stats.isFile()) return null;
+			return {
+				size: stats.size,
+				mtimeMs: stats.mtimeMs,
+				ctimeMs: stats.ctimeMs,
+				ino: stats.ino,
+			};
+		} catch (err: unknown) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+			throw err;
+		}
+	}
+}
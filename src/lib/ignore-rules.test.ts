@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { IGNORE_FILE, IgnoreMatcher, isSyncIgnored, isTempFile } from "./ignore-rules";
+
+describe("IgnoreMatcher — parsing", () => {
+  it("skips blank lines and comments", () => {
+    const rules = IgnoreMatcher.parse("\n# comment\n   \n*.log\n");
+    expect(rules.size).toBe(1);
+  });
+
+  it("empty matcher ignores nothing", () => {
+    expect(IgnoreMatcher.empty().ignores("/anything.txt")).toBe(false);
+  });
+
+  it("treats escaped leading # and ! as literals", () => {
+    const rules = IgnoreMatcher.parse("\\#notes.txt\n\\!bang.txt");
+    expect(rules.ignores("/#notes.txt")).toBe(true);
+    expect(rules.ignores("/!bang.txt")).toBe(true);
+  });
+});
+
+describe("IgnoreMatcher — matching", () => {
+  it("unanchored patterns match at any depth", () => {
+    const rules = IgnoreMatcher.parse("*.swp");
+    expect(rules.ignores("/a.swp")).toBe(true);
+    expect(rules.ignores("/deep/nested/b.swp")).toBe(true);
+    expect(rules.ignores("/a.swpx")).toBe(false);
+  });
+
+  it("directory patterns ignore everything inside", () => {
+    const rules = IgnoreMatcher.parse("node_modules/");
+    expect(rules.ignores("/node_modules/pkg/index.js")).toBe(true);
+    expect(rules.ignores("/app/node_modules/pkg/index.js")).toBe(true);
+    expect(rules.ignores("/node_modules")).toBe(false);
+  });
+
+  it("leading slash anchors to the sync root", () => {
+    const rules = IgnoreMatcher.parse("/build");
+    expect(rules.ignores("/build/out.js")).toBe(true);
+    expect(rules.ignores("/src/build/out.js")).toBe(false);
+  });
+
+  it("middle slash anchors to the sync root", () => {
+    const rules = IgnoreMatcher.parse("docs/*.md");
+    expect(rules.ignores("/docs/readme.md")).toBe(true);
+    expect(rules.ignores("/docs/api/readme.md")).toBe(false);
+    expect(rules.ignores("/other/docs/readme.md")).toBe(false);
+  });
+
+  it("supports ** globs", () => {
+    const rules = IgnoreMatcher.parse("**/cache/**\nlogs/**/*.txt");
+    expect(rules.ignores("/cache/a.bin")).toBe(true);
+    expect(rules.ignores("/x/y/cache/z/a.bin")).toBe(true);
+    expect(rules.ignores("/logs/a.txt")).toBe(true);
+    expect(rules.ignores("/logs/2024/01/a.txt")).toBe(true);
+    expect(rules.ignores("/logs/a.csv")).toBe(false);
+  });
+
+  it("supports ? and character classes", () => {
+    const rules = IgnoreMatcher.parse("file?.txt\nimg[0-9].png\ntmp[!a].dat");
+    expect(rules.ignores("/file1.txt")).toBe(true);
+    expect(rules.ignores("/file12.txt")).toBe(false);
+    expect(rules.ignores("/img7.png")).toBe(true);
+    expect(rules.ignores("/imgx.png")).toBe(false);
+    expect(rules.ignores("/tmpb.dat")).toBe(true);
+    expect(rules.ignores("/tmpa.dat")).toBe(false);
+  });
+
+  it("negation re-includes a previously ignored file", () => {
+    const rules = IgnoreMatcher.parse("*.log\n!keep.log");
+    expect(rules.ignores("/debug.log")).toBe(true);
+    expect(rules.ignores("/keep.log")).toBe(false);
+  });
+
+  it("later rules override earlier ones", () => {
+    const rules = IgnoreMatcher.parse("!keep.log\n*.log");
+    expect(rules.ignores("/keep.log")).toBe(true);
+  });
+
+  it("negation cannot re-include a file inside an ignored directory", () => {
+    const rules = IgnoreMatcher.parse("build/\n!build/keep.txt");
+    expect(rules.ignores("/build/keep.txt")).toBe(true);
+  });
+
+  it("negation can re-include files when only the contents are ignored", () => {
+    const rules = IgnoreMatcher.parse("build/*\n!build/keep.txt");
+    expect(rules.ignores("/build/other.txt")).toBe(true);
+    expect(rules.ignores("/build/keep.txt")).toBe(false);
+  });
+});
+
+describe("isTempFile", () => {
+  it("matches editor and download temp files at any depth", () => {
+    for (const path of [
+      "/notes.txt.tmp",
+      "/src/.app.ts.swp",
+      "/docs/report.txt~",
+      "/.#draft.md",
+      "/docs/.~lock.sheet.ods#",
+      "/docs/~$letter.docx",
+      "/downloads/movie.mkv.crdownload",
+      "/downloads/archive.zip.part",
+    ]) {
+      expect(isTempFile(path)).toBe(true);
+    }
+    expect(isTempFile("/notes.txt")).toBe(false);
+    expect(isTempFile("/tmp/notes.txt")).toBe(false);
+  });
+});
+
+describe("isSyncIgnored", () => {
+  const rules = IgnoreMatcher.parse("*.log");
+
+  it("skips internal state, temp files, placeholders and ignored paths", () => {
+    expect(isSyncIgnored("/.pearsync/state.json", rules, undefined)).toBe(true);
+    expect(isSyncIgnored("/notes.txt.tmp", rules, undefined)).toBe(true);
+    expect(isSyncIgnored("/docs/a.pdf.pearsync-placeholder", rules, undefined)).toBe(true);
+    expect(isSyncIgnored("/debug.log", rules, undefined)).toBe(true);
+    expect(isSyncIgnored("/notes.txt", rules, undefined)).toBe(false);
+  });
+
+  it("syncs the ignore file unless syncIgnoreFile is off", () => {
+    expect(isSyncIgnored(IGNORE_FILE, rules, undefined)).toBe(false);
+    expect(isSyncIgnored(IGNORE_FILE, rules, true)).toBe(false);
+    expect(isSyncIgnored(IGNORE_FILE, rules, false)).toBe(true);
+  });
+
+  it("checks selective-sync exclusions after the ignore file itself", () => {
+    const excluded = (path: string) => path.startsWith("/media/") || path === IGNORE_FILE;
+    expect(isSyncIgnored("/media/a.mp4", rules, undefined, excluded)).toBe(true);
+    expect(isSyncIgnored("/notes.txt", rules, undefined, excluded)).toBe(false);
+    expect(isSyncIgnored(IGNORE_FILE, rules, undefined, excluded)).toBe(false);
+  });
+});
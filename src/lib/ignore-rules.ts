@@ -0,0 +1,186 @@
+import { isPlaceholder } from "./placeholders";
+
+/** Ignore file at the sync root, using gitignore syntax. */
+export const IGNORE_FILE = "/.pearsyncignore";
+
+interface IgnoreRule {
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+function escapeRegex(ch: string): string {
+  return /[.+^${}()|[\]\\]/.test(ch) ? `\\${ch}` : ch;
+}
+
+function globToRegex(glob: string): string {
+  let out = "";
+  let i = 0;
+  while (i < glob.length) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        if (atSegmentStart && glob[i + 2] === "/") {
+          // "**/" matches zero or more leading directories
+          out += "(?:.*/)?";
+          i += 3;
+          continue;
+        }
+        if (atSegmentStart && i + 2 === glob.length) {
+          // trailing "/**" matches everything inside
+          out += ".*";
+          i += 2;
+          continue;
+        }
+        out += "[^/]*";
+        i += 2;
+        continue;
+      }
+      out += "[^/]*";
+      i += 1;
+    } else if (ch === "?") {
+      out += "[^/]";
+      i += 1;
+    } else if (ch === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        out += "\\[";
+        i += 1;
+        continue;
+      }
+      let body = glob.slice(i + 1, close);
+      if (body.startsWith("!")) body = `^${body.slice(1)}`;
+      out += `[${body.replace(/\\/g, "\\\\")}]`;
+      i = close + 1;
+    } else if (ch === "\\" && i + 1 < glob.length) {
+      out += escapeRegex(glob[i + 1]);
+      i += 2;
+    } else {
+      out += escapeRegex(ch);
+      i += 1;
+    }
+  }
+  return out;
+}
+
+function parseRule(line: string): IgnoreRule | null {
+  // Trailing whitespace is ignored unless escaped with a backslash.
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (pattern === "" || pattern.startsWith("#")) return null;
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, "");
+  }
+  if (pattern === "") return null;
+
+  // A slash anywhere but the end anchors the pattern to the sync root.
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+
+  const body = globToRegex(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+  return { negate, dirOnly, regex };
+}
+
+/**
+ * Matches sync-root-relative paths against gitignore-style rules.
+ *
+ * Later rules override earlier ones, and a file inside an ignored directory
+ * cannot be re-included by a negated pattern (same as git).
+ */
+export class IgnoreMatcher {
+  private rules: IgnoreRule[];
+
+  private constructor(rules: IgnoreRule[]) {
+    this.rules = rules;
+  }
+
+  static parse(source: string): IgnoreMatcher {
+    const rules: IgnoreRule[] = [];
+    for (const line of source.split(/\r?\n/)) {
+      const rule = parseRule(line);
+      if (rule) rules.push(rule);
+    }
+    return new IgnoreMatcher(rules);
+  }
+
+  static empty(): IgnoreMatcher {
+    return new IgnoreMatcher([]);
+  }
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /** Check a normalized file path (e.g. "/src/app.ts"). */
+  ignores(path: string): boolean {
+    if (this.rules.length === 0) return false;
+
+    const segments = path.replace(/^\/+/, "").split("/");
+    for (let i = 1; i < segments.length; i++) {
+      if (this.match(segments.slice(0, i).join("/"), true)) return true;
+    }
+    return this.match(segments.join("/"), false);
+  }
+
+  private match(relativePath: string, isDir: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.regex.test(relativePath)) ignored = !rule.negate;
+    }
+    return ignored;
+  }
+}
+
+/**
+ * Files that editors, office suites and browsers write next to the real file and then rename
+ * over it or delete. They are never synced, so only the finished file reaches peers.
+ */
+export const TEMP_FILE_PATTERNS = [
+  "*.tmp",
+  "*.swp",
+  "*.swx",
+  "*~",
+  ".#*",
+  ".~lock.*#",
+  "~$*",
+  "*.crdownload",
+  "*.part",
+  ".goutputstream-*",
+];
+
+const tempFiles = IgnoreMatcher.parse(TEMP_FILE_PATTERNS.join("\n"));
+
+/** Check a normalized file path against {@link TEMP_FILE_PATTERNS}. */
+export function isTempFile(path: string): boolean {
+  return tempFiles.ignores(path);
+}
+
+/**
+ * Whether a path is kept out of sync: internal state, temp files, placeholder stubs, the ignore
+ * file itself unless `syncIgnoreFile` is on, paths `excluded` by selective sync, and `rules`.
+ */
+export function isSyncIgnored(
+  path: string,
+  rules: IgnoreMatcher,
+  syncIgnoreFile: boolean | undefined,
+  excluded?: (path: string) => boolean,
+): boolean {
+  if (path.startsWith("/.pearsync/")) return true;
+  if (isTempFile(path) || isPlaceholder(path)) return true;
+  if (path === IGNORE_FILE) return syncIgnoreFile === false;
+  if (excluded?.(path)) return true;
+  return rules.ignores(path);
+}
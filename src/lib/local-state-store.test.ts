@@ -1,4 +1,4 @@
-import { copyFile, mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, describe, expect, it } from "vitest";
@@ -19,23 +19,24 @@ afterEach(async () => {
 	tmpDirs = [];
 });
 
+const FOO_STATE = {
+	lastSyncedHash: "abc123",
+	lastSyncedMtime: 1000,
+	lastManifestHash: "abc123",
+	lastManifestWriterKey: "writer-a",
+};
+
 describe("LocalStateStore — corruption recovery", () => {
-	it("recovers from backup when state.json is corrupt", async () => {
+	it("recovers from backup when the snapshot is corrupt", async () => {
 		const syncDir = await makeTmpDir();
 
 		const state = new LocalStateStore(syncDir);
 		await state.load();
-		await state.set("/foo.txt", {
-			lastSyncedHash: "abc123",
-			lastSyncedMtime: 1000,
-			lastManifestHash: "abc123",
-			lastManifestWriterKey: "writer-a",
-		});
+		await state.set("/foo.txt", FOO_STATE);
+		await state.compact();
 
-		const statePath = join(syncDir, ".pearsync", "state.json");
-		const backupPath = join(syncDir, ".pearsync", "state.json.bak");
-		await copyFile(statePath, backupPath);
-		await writeFile(statePath, "{this-is-not-valid-json");
+		const snapshotPath = join(syncDir, ".pearsync", "state.snapshot.json");
+		await writeFile(snapshotPath, "{this-is-not-valid-json");
 
 		const recovered = new LocalStateStore(syncDir);
 		await recovered.load();
@@ -44,25 +45,189 @@ describe("LocalStateStore — corruption recovery", () => {
 		expect(value).toBeDefined();
 		expect(value!.lastSyncedHash).toBe("abc123");
 
-		const repaired = JSON.parse(await readFile(statePath, "utf-8")) as Record<string, unknown>;
-		expect(repaired["/foo.txt"]).toBeDefined();
+		const repaired = JSON.parse(await readFile(snapshotPath, "utf-8")) as {
+			files: Record<string, unknown>;
+		};
+		expect(repaired.files["/foo.txt"]).toBeDefined();
 	});
 
-	it("resets to empty when state and backup are both corrupt", async () => {
+	it("resets to empty when snapshot and backup are both corrupt", async () => {
 		const syncDir = await makeTmpDir();
 
 		const stateDir = join(syncDir, ".pearsync");
 		await mkdir(stateDir, { recursive: true });
-		await writeFile(join(stateDir, "state.json"), "{bad");
-		await writeFile(join(stateDir, "state.json.bak"), "{also-bad");
+		await writeFile(join(stateDir, "state.snapshot.json"), "{bad");
+		await writeFile(join(stateDir, "state.snapshot.json.bak"), "{also-bad");
 
 		const recovered = new LocalStateStore(syncDir);
 		await recovered.load();
 
 		expect(recovered.paths()).toEqual([]);
 		const repaired = JSON.parse(
-			await readFile(join(stateDir, "state.json"), "utf-8"),
+			await readFile(join(stateDir, "state.snapshot.json"), "utf-8"),
 		) as Record<string, unknown>;
-		expect(repaired).toEqual({});
+		expect(repaired).toEqual({ version: 1, files: {}, checkpoint: null });
+	});
+
+	it("replays the journal and ignores a torn final record", async () => {
+		const syncDir = await makeTmpDir();
+
+		const state = new LocalStateStore(syncDir);
+		await state.load();
+		await Promise.all([
+			state.set("/foo.txt", FOO_STATE),
+			state.set("/bar.txt", FOO_STATE),
+			state.remove("/foo.txt"),
+			state.set("/baz.txt", FOO_STATE),
+		]);
+
+		const journalPath = join(syncDir, ".pearsync", "state.journal");
+		const lines = (await readFile(journalPath, "utf-8")).split("\n").filter(Boolean);
+		expect(lines).toHaveLength(4);
+		// Simulate a crash halfway through appending the last record.
+		const last = lines[3];
+		await writeFile(
+			journalPath,
+			`${lines.slice(0, 3).join("\n")}\n${last.slice(0, last.length / 2)}`,
+		);
+
+		const recovered = new LocalStateStore(syncDir);
+		await recovered.load();
+		expect(recovered.paths()).toEqual(["/bar.txt"]);
+		expect(await readFile(journalPath, "utf-8")).toBe("");
+	});
+});
+
+describe("LocalStateStore — batches", () => {
+	it("journals the changes made inside a batch in one append when it ends", async () => {
+		const syncDir = await makeTmpDir();
+
+		const state = new LocalStateStore(syncDir);
+		await state.load();
+		const journalPath = join(syncDir, ".pearsync", "state.journal");
+		await state.batch(async () => {
+			await state.set("/foo.txt", FOO_STATE);
+			await state.set("/bar.txt", FOO_STATE);
+			await state.remove("/foo.txt");
+			await state.setCheckpoint({ length: 3, treeHash: "cd".repeat(32) });
+			expect(await readFile(journalPath, "utf-8")).toBe("");
+		});
+
+		const lines = (await readFile(journalPath, "utf-8")).split("\n").filter(Boolean);
+		expect(lines).toHaveLength(4);
+
+		const reloaded = new LocalStateStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.paths()).toEqual(["/bar.txt"]);
+		expect(reloaded.getCheckpoint()).toEqual({ length: 3, treeHash: "cd".repeat(32) });
+	});
+
+	it("still writes a batch whose callback throws", async () => {
+		const syncDir = await makeTmpDir();
+
+		const state = new LocalStateStore(syncDir);
+		await state.load();
+		await expect(
+			state.batch(async () => {
+				await state.set("/foo.txt", FOO_STATE);
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+
+		const reloaded = new LocalStateStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.paths()).toEqual(["/foo.txt"]);
+	});
+});
+
+describe("LocalStateStore — migration", () => {
+	it("imports a legacy state.json, falling back to its backup", async () => {
+		const syncDir = await makeTmpDir();
+
+		const stateDir = join(syncDir, ".pearsync");
+		await mkdir(stateDir, { recursive: true });
+		await writeFile(join(stateDir, "state.json"), "{this-is-not-valid-json");
+		await writeFile(
+			join(stateDir, "state.json.bak"),
+			JSON.stringify({
+				"/foo.txt": FOO_STATE,
+				__manifestCheckpoint: { length: 7, treeHash: "e".repeat(64) },
+			}),
+		);
+
+		const migrated = new LocalStateStore(syncDir);
+		await migrated.load();
+		expect(migrated.paths()).toEqual(["/foo.txt"]);
+		expect(migrated.getCheckpoint()).toEqual({ length: 7, treeHash: "e".repeat(64) });
+
+		expect((await readdir(stateDir)).sort()).toEqual([
+			"state.journal",
+			"state.snapshot.json",
+			"state.snapshot.json.bak",
+		]);
+		const reloaded = new LocalStateStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.get("/foo.txt")).toEqual(FOO_STATE);
+	});
+});
+
+describe("LocalStateStore — manifest checkpoint", () => {
+	it("persists the checkpoint next to file state without listing it as a path", async () => {
+		const syncDir = await makeTmpDir();
+
+		const state = new LocalStateStore(syncDir);
+		await state.load();
+		expect(state.getCheckpoint()).toBeNull();
+		await state.set("/foo.txt", FOO_STATE);
+		await state.setCheckpoint({ length: 42, treeHash: "f".repeat(64) });
+
+		const reloaded = new LocalStateStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.getCheckpoint()).toEqual({ length: 42, treeHash: "f".repeat(64) });
+		expect(reloaded.paths()).toEqual(["/foo.txt"]);
+	});
+
+	it("persists the paths left unapplied at the checkpoint, in the journal and snapshot", async () => {
+		const syncDir = await makeTmpDir();
+
+		const state = new LocalStateStore(syncDir);
+		await state.load();
+		await state.setCheckpoint({ length: 5, treeHash: "a".repeat(64) }, ["/failed.txt"]);
+
+		const reloaded = new LocalStateStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.getUnapplied()).toEqual(["/failed.txt"]);
+
+		await reloaded.compact();
+		const compacted = new LocalStateStore(syncDir);
+		await compacted.load();
+		expect(compacted.getUnapplied()).toEqual(["/failed.txt"]);
+
+		await compacted.setCheckpoint({ length: 6, treeHash: "b".repeat(64) });
+		expect(compacted.getUnapplied()).toEqual([]);
+	});
+});
+
+describe("LocalStateStore — hash index", () => {
+	it("finds paths by last synced hash across updates, removals and reloads", async () => {
+		const syncDir = await makeTmpDir();
+
+		const state = new LocalStateStore(syncDir);
+		await state.load();
+		await state.set("/foo.txt", FOO_STATE);
+		await state.set("/copy.txt", FOO_STATE);
+		await state.set("/bar.txt", { ...FOO_STATE, lastSyncedHash: "def456" });
+		expect(state.pathsWithHash("abc123").sort()).toEqual(["/copy.txt", "/foo.txt"]);
+
+		await state.set("/copy.txt", { ...FOO_STATE, lastSyncedHash: "def456" });
+		await state.remove("/bar.txt");
+		expect(state.pathsWithHash("abc123")).toEqual(["/foo.txt"]);
+		expect(state.pathsWithHash("def456")).toEqual(["/copy.txt"]);
+
+		const reloaded = new LocalStateStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.pathsWithHash("abc123")).toEqual(["/foo.txt"]);
+		expect(reloaded.pathsWithHash("def456")).toEqual(["/copy.txt"]);
+		expect(reloaded.pathsWithHash("missing")).toEqual([]);
 	});
 });
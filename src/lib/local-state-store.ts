@@ -1,5 +1,6 @@
-import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
+import { mkdir, open, readFile, rename, rm } from "node:fs/promises";
+import { join } from "node:path";
+import type { ManifestCheckpoint } from "./manifest-store";
 
 export interface FileState {
 	/** Hash of the file content when we last completed a sync (upload or download) */
@@ -12,36 +13,91 @@ export interface FileState {
 	lastManifestWriterKey: string;
 }
 
+type JournalRecord =
+	| { op: "set"; path: string; state: FileState }
+	| { op: "remove"; path: string }
+	| { op: "checkpoint"; checkpoint: ManifestCheckpoint | null; unapplied?: string[] };
+
+interface Snapshot {
+	state: Map<string, FileState>;
+	checkpoint: ManifestCheckpoint | null;
+	unapplied: string[];
+}
+
+/** Key of the manifest checkpoint in a legacy state.json; file paths always start with "/". */
+const LEGACY_CHECKPOINT_KEY = "__manifestCheckpoint";
+
+/** The journal is folded into a new snapshot once it holds more records than this, or than tracked files. */
+const COMPACT_MIN_RECORDS = 1000;
+
+/** A batch is written out early once this many records are waiting, to bound what a crash loses. */
+const BATCH_MAX_RECORDS = 500;
+
 let persistCounter = 0;
 
+/**
+ * Per-file sync state, kept in `.pearsync/` as a snapshot plus an append-only journal of
+ * changes since it. Each change is appended and fsynced before its call resolves, except
+ * inside {@link batch}, where changes are written together when the batch ends. A torn last
+ * journal line (crash mid-append) is ignored on load. A legacy `state.json` is migrated on
+ * first load.
+ */
 export class LocalStateStore {
 	private state: Map<string, FileState> = new Map();
-	private filePath: string;
+	/** Tracked paths by `lastSyncedHash`, so rename detection need not scan every path */
+	private byHash: Map<string, Set<string>> = new Map();
+	private checkpoint: ManifestCheckpoint | null = null;
+	/** Paths whose remote changes up to the checkpoint are not applied yet */
+	private unapplied: string[] = [];
+	private snapshotPath: string;
 	private backupPath: string;
+	private journalPath: string;
+	private legacyPath: string;
+	private legacyBackupPath: string;
+	private pending: JournalRecord[] = [];
+	private journalRecords = 0;
+	private batchDepth = 0;
 	private writeQueue: Promise<void> = Promise.resolve();
 
 	constructor(syncFolder: string) {
-		this.filePath = join(syncFolder, ".pearsync", "state.json");
-		this.backupPath = join(syncFolder, ".pearsync", "state.json.bak");
+		const dir = join(syncFolder, ".pearsync");
+		this.snapshotPath = join(dir, "state.snapshot.json");
+		this.backupPath = join(dir, "state.snapshot.json.bak");
+		this.journalPath = join(dir, "state.journal");
+		this.legacyPath = join(dir, "state.json");
+		this.legacyBackupPath = join(dir, "state.json.bak");
 	}
 
-	/** Load state from disk. Creates the file if it doesn't exist. */
+	/**
+	 * Load the snapshot (or its backup) and replay the journal. Without a snapshot, state is
+	 * migrated from a legacy state.json (or its backup). Creates the files if none exist.
+	 */
 	async load(): Promise<void> {
-		const primary = await this.tryLoadFromPath(this.filePath);
-		if (primary) {
-			this.state = primary;
-			return;
+		this.pending = [];
+		const snapshot =
+			(await this.tryLoad(this.snapshotPath, (data) => this.parseSnapshot(data))) ??
+			(await this.tryLoad(this.backupPath, (data) => this.parseSnapshot(data)));
+		let migrated = false;
+		if (snapshot) {
+			({ state: this.state, checkpoint: this.checkpoint, unapplied: this.unapplied } = snapshot);
+		} else {
+			const legacy =
+				(await this.tryLoad(this.legacyPath, (data) => this.parseLegacy(data))) ??
+				(await this.tryLoad(this.legacyBackupPath, (data) => this.parseLegacy(data)));
+			this.state = legacy?.state ?? new Map();
+			this.checkpoint = legacy?.checkpoint ?? null;
+			this.unapplied = [];
+			migrated = legacy !== null;
 		}
 
-		const backup = await this.tryLoadFromPath(this.backupPath);
-		if (backup) {
-			this.state = backup;
-			await this.persist();
-			return;
+		this.byHash = new Map();
+		for (const [path, state] of this.state) this.indexHash(path, state.lastSyncedHash);
+		await this.replayJournal();
+		await this.compact();
+		if (migrated) {
+			await rm(this.legacyPath, { force: true });
+			await rm(this.legacyBackupPath, { force: true });
 		}
-
-		this.state = new Map();
-		await this.persist();
 	}
 
 	/** Get the tracked state for a file path. */
@@ -51,14 +107,14 @@ export class LocalStateStore {
 
 	/** Update state for a file path and persist to disk. */
 	async set(path: string, state: FileState): Promise<void> {
-		this.state.set(path, state);
-		await this.persist();
+		this.setState(path, state);
+		await this.append({ op: "set", path, state });
 	}
 
 	/** Remove state for a file path and persist to disk. */
 	async remove(path: string): Promise<void> {
-		this.state.delete(path);
-		await this.persist();
+		this.deleteState(path);
+		await this.append({ op: "remove", path });
 	}
 
 	/** Check if a path is tracked. */
@@ -71,32 +127,192 @@ export class LocalStateStore {
 		return [...this.state.keys()];
 	}
 
-	/** Atomic write: write to uniquely-named .tmp, then rename over the real file. Serialized via queue. */
-	private persist(): Promise<void> {
-		this.writeQueue = this.writeQueue.then(() => this.doPersist());
-		return this.writeQueue;
+	/** Tracked paths whose last synced content has the given hash. */
+	pathsWithHash(hash: string): string[] {
+		return [...(this.byHash.get(hash) ?? [])];
+	}
+
+	/** The manifest position up to which remote changes have been processed. */
+	getCheckpoint(): ManifestCheckpoint | null {
+		return this.checkpoint;
+	}
+
+	/** Paths whose remote changes up to the checkpoint failed to apply, to retry next pass. */
+	getUnapplied(): string[] {
+		return this.unapplied;
+	}
+
+	/**
+	 * Record the manifest position up to which remote changes have been processed, except
+	 * for the `unapplied` paths.
+	 */
+	async setCheckpoint(
+		checkpoint: ManifestCheckpoint | null,
+		unapplied: string[] = [],
+	): Promise<void> {
+		this.checkpoint = checkpoint;
+		this.unapplied = unapplied;
+		await this.append({
+			op: "checkpoint",
+			checkpoint,
+			...(unapplied.length > 0 ? { unapplied } : {}),
+		});
 	}
 
-	private async doPersist(): Promise<void> {
-		const dir = dirname(this.filePath);
-		await mkdir(dir, { recursive: true });
+	/**
+	 * Run `fn`, journaling the changes it makes with one fsync when it finishes instead of one
+	 * per change. Changes made inside resolve before they are on disk, so a crash can lose the
+	 * last few hundred; they must be safe to redo, as a rescan or a repeated remote pass does.
+	 */
+	async batch<T>(fn: () => Promise<T>): Promise<T> {
+		this.batchDepth++;
+		try {
+			return await fn();
+		} finally {
+			if (--this.batchDepth === 0) await this.flush();
+		}
+	}
+
+	/** Write the current state as a new snapshot and empty the journal. */
+	compact(): Promise<void> {
+		return this.enqueue(async () => {
+			await this.writeJournal();
+			await this.writeSnapshot();
+		});
+	}
+
+	private setState(path: string, state: FileState): void {
+		this.deleteState(path);
+		this.state.set(path, state);
+		this.indexHash(path, state.lastSyncedHash);
+	}
+
+	private deleteState(path: string): void {
+		const previous = this.state.get(path);
+		if (!previous) return;
+		this.state.delete(path);
+		const paths = this.byHash.get(previous.lastSyncedHash);
+		paths?.delete(path);
+		if (paths?.size === 0) this.byHash.delete(previous.lastSyncedHash);
+	}
+
+	private indexHash(path: string, hash: string): void {
+		let paths = this.byHash.get(hash);
+		if (!paths) {
+			paths = new Set();
+			this.byHash.set(hash, paths);
+		}
+		paths.add(path);
+	}
+
+	private append(record: JournalRecord): Promise<void> {
+		this.pending.push(record);
+		if (this.batchDepth > 0 && this.pending.length < BATCH_MAX_RECORDS) return Promise.resolve();
+		return this.flush();
+	}
+
+	private flush(): Promise<void> {
+		return this.enqueue(async () => {
+			await this.writeJournal();
+			if (this.journalRecords > Math.max(COMPACT_MIN_RECORDS, this.state.size)) {
+				await this.writeSnapshot();
+			}
+		});
+	}
+
+	/** Serialize writes; a failed write rejects its callers without blocking later ones. */
+	private enqueue(task: () => Promise<void>): Promise<void> {
+		const run = this.writeQueue.then(task);
+		this.writeQueue = run.then(
+			() => {},
+			() => {},
+		);
+		return run;
+	}
+
+	/** Append every pending record in one write and fsync it. */
+	private async writeJournal(): Promise<void> {
+		if (this.pending.length === 0) return;
+		const records = this.pending;
+		this.pending = [];
+
+		await mkdir(join(this.journalPath, ".."), { recursive: true });
+		const handle = await open(this.journalPath, "a");
+		try {
+			await handle.write(records.map((record) => `${JSON.stringify(record)}\n`).join(""));
+			await handle.datasync();
+		} finally {
+			await handle.close();
+		}
+		this.journalRecords += records.length;
+	}
+
+	/**
+	 * Atomically replace the snapshot and its backup, then truncate the journal. A crash
+	 * before the truncate only replays records the snapshot already contains.
+	 */
+	private async writeSnapshot(): Promise<void> {
+		await mkdir(join(this.snapshotPath, ".."), { recursive: true });
+		const files: Record<string, FileState> = {};
+		for (const [path, state] of this.state) files[path] = state;
+		const serialized = JSON.stringify({
+			version: 1,
+			files,
+			checkpoint: this.checkpoint,
+			...(this.unapplied.length > 0 ? { unapplied: this.unapplied } : {}),
+		});
 
-		const serialized = JSON.stringify(this.toObject(), null, 2);
 		const id = ++persistCounter;
+		for (const path of [this.snapshotPath, this.backupPath]) {
+			const tmpPath = `${path}.${id}.tmp`;
+			const handle = await open(tmpPath, "w");
+			try {
+				await handle.writeFile(serialized);
+				await handle.sync();
+			} finally {
+				await handle.close();
+			}
+			await rename(tmpPath, path);
+		}
 
-		const tmpPath = `${this.filePath}.${id}.tmp`;
-		await writeFile(tmpPath, serialized);
-		await rename(tmpPath, this.filePath);
+		const journal = await open(this.journalPath, "w");
+		await journal.close();
+		this.journalRecords = 0;
+	}
 
-		const tmpBackupPath = `${this.backupPath}.${id}.tmp`;
-		await writeFile(tmpBackupPath, serialized);
-		await rename(tmpBackupPath, this.backupPath);
+	/** Apply journal records in order, stopping at the first unreadable one. */
+	private async replayJournal(): Promise<void> {
+		let data: string;
+		try {
+			data = await readFile(this.journalPath, "utf-8");
+		} catch (err: unknown) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+			throw err;
+		}
+
+		for (const line of data.split("\n")) {
+			if (line === "") continue;
+			let record: JournalRecord | null;
+			try {
+				record = this.parseRecord(JSON.parse(line) as unknown);
+			} catch {
+				record = null;
+			}
+			if (!record) break;
+
+			if (record.op === "set") this.setState(record.path, record.state);
+			else if (record.op === "remove") this.deleteState(record.path);
+			else {
+				this.checkpoint = record.checkpoint;
+				this.unapplied = record.unapplied ?? [];
+			}
+		}
 	}
 
-	private async tryLoadFromPath(path: string): Promise<Map<string, FileState> | null> {
+	private async tryLoad(path: string, parse: (data: string) => Snapshot): Promise<Snapshot | null> {
 		try {
 			const data = await readFile(path, "utf-8");
-			return this.parseState(data);
+			return parse(data);
 		} catch (err: unknown) {
 			if (this.isRecoverableLoadError(err)) return null;
 			throw err;
@@ -109,44 +325,108 @@ export class LocalStateStore {
 		return (err as NodeJS.ErrnoException).code === "ENOENT";
 	}
 
-	private parseState(data: string): Map<string, FileState> {
+	private parseSnapshot(data: string): Snapshot {
+		const parsed = JSON.parse(data) as unknown;
+		if (!this.isObject(parsed) || parsed.version !== 1 || !this.isObject(parsed.files)) {
+			throw this.stateFormatError("Snapshot must be a version 1 object with files");
+		}
+
+		const state = new Map<string, FileState>();
+		for (const [path, value] of Object.entries(parsed.files)) {
+			state.set(path, this.parseFileState(path, value));
+		}
+		const unapplied = this.parseUnapplied(parsed.unapplied);
+		return {
+			state,
+			checkpoint: unapplied ? this.parseCheckpoint(parsed.checkpoint) : null,
+			unapplied: unapplied ?? [],
+		};
+	}
+
+	/** state.json from before the journal: one object keyed by path. */
+	private parseLegacy(data: string): Snapshot {
 		const parsed = JSON.parse(data) as unknown;
 		if (!this.isObject(parsed)) {
 			throw this.stateFormatError("State file root must be an object");
 		}
 
-		const next = new Map<string, FileState>();
+		let checkpoint: ManifestCheckpoint | null = null;
+		const state = new Map<string, FileState>();
 		for (const [path, value] of Object.entries(parsed)) {
-			if (!this.isObject(value)) {
-				throw this.stateFormatError(`Invalid state object for path ${path}`);
+			if (path === LEGACY_CHECKPOINT_KEY) {
+				checkpoint = this.parseCheckpoint(value);
+				continue;
 			}
-			if (
-				typeof value.lastSyncedHash !== "string" ||
-				typeof value.lastSyncedMtime !== "number" ||
-				typeof value.lastManifestHash !== "string" ||
-				typeof value.lastManifestWriterKey !== "string"
-			) {
-				throw this.stateFormatError(`Invalid state fields for path ${path}`);
+			state.set(path, this.parseFileState(path, value));
+		}
+		return { state, checkpoint, unapplied: [] };
+	}
+
+	private parseRecord(value: unknown): JournalRecord | null {
+		if (!this.isObject(value)) return null;
+		try {
+			if (value.op === "set" && typeof value.path === "string") {
+				return { op: "set", path: value.path, state: this.parseFileState(value.path, value.state) };
 			}
+		} catch {
+			return null;
+		}
+		if (value.op === "remove" && typeof value.path === "string") {
+			return { op: "remove", path: value.path };
+		}
+		if (value.op === "checkpoint") {
+			const unapplied = this.parseUnapplied(value.unapplied);
+			return {
+				op: "checkpoint",
+				checkpoint: unapplied ? this.parseCheckpoint(value.checkpoint) : null,
+				unapplied: unapplied ?? [],
+			};
+		}
+		return null;
+	}
 
-			next.set(path, {
-				lastSyncedHash: value.lastSyncedHash,
-				lastSyncedMtime: value.lastSyncedMtime,
-				lastManifestHash: value.lastManifestHash,
-				lastManifestWriterKey: value.lastManifestWriterKey,
-			});
+	private parseFileState(path: string, value: unknown): FileState {
+		if (!this.isObject(value)) {
+			throw this.stateFormatError(`Invalid state object for path ${path}`);
 		}
-		return next;
+		if (
+			typeof value.lastSyncedHash !== "string" ||
+			typeof value.lastSyncedMtime !== "number" ||
+			typeof value.lastManifestHash !== "string" ||
+			typeof value.lastManifestWriterKey !== "string"
+		) {
+			throw this.stateFormatError(`Invalid state fields for path ${path}`);
+		}
+
+		return {
+			lastSyncedHash: value.lastSyncedHash,
+			lastSyncedMtime: value.lastSyncedMtime,
+			lastManifestHash: value.lastManifestHash,
+			lastManifestWriterKey: value.lastManifestWriterKey,
+		};
 	}
 
-	private isObject(value: unknown): value is Record<string, any> {
-		return typeof value === "object" && value !== null;
+	/** A malformed checkpoint only costs one full manifest scan. */
+	private parseCheckpoint(value: unknown): ManifestCheckpoint | null {
+		if (
+			this.isObject(value) &&
+			typeof value.length === "number" &&
+			typeof value.treeHash === "string"
+		) {
+			return { length: value.length, treeHash: value.treeHash };
+		}
+		return null;
 	}
 
-	private toObject(): Record<string, FileState> {
-		const obj: Record<string, FileState> = {};
-		for (const [k, v] of this.state) obj[k] = v;
-		return obj;
+	/** Null when malformed; the checkpoint is then dropped too, costing one full manifest scan. */
+	private parseUnapplied(value: unknown): string[] | null {
+		if (value === undefined) return [];
+		if (Array.isArray(value) && value.every((path) => typeof path === "string")) return value;
+		return null;
+	}
+
+	private isObject(value: unknown): value is Record<string, any> {
+		return typeof value === "object" && value !== null;
 	}
 
 	private stateFormatError(message: string): Error {
@@ -305,6 +305,170 @@ describe("ManifestStore — schema and namespace enforcement", () => {
     await manifest.close();
     await store.close();
   });
+
+  it("round-trips optional block hashes and rejects malformed ones", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const manifest = ManifestStore.create(store, { replicate: false });
+    await manifest.ready();
+
+    const metadata = makeMetadata({ blockHashes: ["aa", "bb"] });
+    await manifest.put("/blocks.bin", metadata);
+    expect(await manifest.get("/blocks.bin")).toEqual(metadata);
+
+    await manifest.autopass.add("/bad-blocks.bin", JSON.stringify({ ...metadata, blockHashes: 1 }));
+    await expect(manifest.get("/bad-blocks.bin")).rejects.toThrow();
+
+    await manifest.close();
+    await store.close();
+  });
+
+  it("stores chunk lists compactly and keeps blocks readable by older releases", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const manifest = ManifestStore.create(store, { replicate: false });
+    await manifest.ready();
+
+    const writerKey = "b".repeat(64);
+    const otherKey = "c".repeat(64);
+    const local = makeMetadata({
+      blocks: undefined,
+      chunks: [
+        { hash: "h1", size: 10, writerKey, index: 4 },
+        { hash: "h2", size: 20, writerKey, index: 5 },
+      ],
+    });
+    await manifest.put("/local.bin", local);
+    expect(await manifest.get("/local.bin")).toEqual(local);
+    const localRaw = JSON.parse((await manifest.autopass.get("/local.bin"))!.value);
+    expect(localRaw.v).toBe(2);
+    expect(localRaw.blocks).toEqual({ offset: 4, length: 2 });
+    expect(localRaw.blockHashes).toEqual(["h1", "h2"]);
+    expect(localRaw.chunkRuns).toEqual([[0, 4, 2]]);
+    expect(localRaw.chunks).toBeUndefined();
+
+    const mixed = makeMetadata({
+      blocks: undefined,
+      chunks: [
+        { hash: "h1", size: 10, writerKey, index: 4 },
+        { hash: "h3", size: 30, writerKey: otherKey, index: 0 },
+        { hash: "h4", size: 40, writerKey: otherKey, index: 1 },
+      ],
+    });
+    await manifest.put("/mixed.bin", mixed);
+    expect(await manifest.get("/mixed.bin")).toEqual(mixed);
+    const mixedRaw = JSON.parse((await manifest.autopass.get("/mixed.bin"))!.value);
+    expect(mixedRaw.blocks).toBeUndefined();
+    expect(mixedRaw.chunkWriters).toEqual([writerKey, otherKey]);
+    expect(mixedRaw.chunkRuns).toEqual([
+      [0, 4, 1],
+      [1, 0, 2],
+    ]);
+
+    await manifest.autopass.add("/future.bin", JSON.stringify({ ...localRaw, v: 3 }));
+    await expect(manifest.get("/future.bin")).rejects.toThrow("unsupported file format");
+    await manifest.autopass.add(
+      "/short.bin",
+      JSON.stringify({ ...localRaw, chunkRuns: [[0, 4, 3]] }),
+    );
+    await expect(manifest.get("/short.bin")).rejects.toThrow();
+
+    await manifest.close();
+    await store.close();
+  });
+
+  it("round-trips movedFrom and rejects non-string values", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const manifest = ManifestStore.create(store, { replicate: false });
+    await manifest.ready();
+
+    const metadata = makeMetadata({ movedFrom: "/old/name.txt" });
+    await manifest.put("/new/name.txt", metadata);
+    expect(await manifest.get("/new/name.txt")).toEqual(metadata);
+
+    await manifest.autopass.add("/bad-move.txt", JSON.stringify({ ...metadata, movedFrom: 7 }));
+    await expect(manifest.get("/bad-move.txt")).rejects.toThrow();
+
+    await manifest.close();
+    await store.close();
+  });
+});
+
+describe("ManifestStore — revision history", () => {
+  it("records every file and tombstone put, newest first, without listing them", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const manifest = ManifestStore.create(store, { replicate: false });
+    await manifest.ready();
+
+    const v1 = makeMetadata({ hash: "1".repeat(64), seq: 1 });
+    const v2 = makeMetadata({ hash: "2".repeat(64), baseHash: v1.hash, seq: 2 });
+    const before = Date.now();
+    await manifest.put("/doc.txt", v1);
+    await manifest.put("/doc.txt", v2);
+    await manifest.putTombstone("/doc.txt", "b".repeat(64));
+    // Shares the `/doc.txt:` key prefix but must not show up in its history
+    await manifest.put("/doc.txt:v2", makeMetadata());
+
+    const history = await manifest.getHistory("/doc.txt");
+    expect(history.map((revision) => revision.entry.seq)).toEqual([3, 2, 1]);
+    expect(history[0].entry.kind).toBe("tombstone");
+    expect(history[1].entry).toEqual(v2);
+    expect(history[2].entry).toEqual(v1);
+    expect(history.every((revision) => revision.path === "/doc.txt")).toBe(true);
+    expect(history.every((revision) => (revision.publishedAt ?? 0) >= before)).toBe(true);
+
+    const paths = (await manifest.list()).map((entry) => entry.path).sort();
+    expect(paths).toEqual(["/doc.txt", "/doc.txt:v2"]);
+
+    await manifest.close();
+    await store.close();
+  });
+
+  it("rejects revision records whose key does not match their entry", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const manifest = ManifestStore.create(store, { replicate: false });
+    await manifest.ready();
+
+    await expect(
+      manifest.put("__rev:/doc.txt:0000000001:x", {
+        kind: "revision",
+        path: "/doc.txt",
+        entry: makeMetadata(),
+      }),
+    ).rejects.toThrow();
+
+    await manifest.close();
+    await store.close();
+  });
+});
+
+describe("ManifestStore — change feed", () => {
+  it("returns the latest put or removal per path since a checkpoint", async () => {
+    const store = new Corestore(await makeTmpDir());
+    const manifest = ManifestStore.create(store, { replicate: false });
+    await manifest.ready();
+
+    await manifest.put("/old.txt", makeMetadata());
+    await manifest.put("/gone.txt", makeMetadata());
+    const start = await manifest.checkpoint();
+    expect(await manifest.changesSince(start, start)).toEqual([]);
+
+    const v2 = makeMetadata({ hash: "2".repeat(64), seq: 2 });
+    await manifest.put("/old.txt", makeMetadata({ seq: 2 }));
+    await manifest.put("/old.txt", v2);
+    await manifest.remove("/gone.txt");
+    const end = await manifest.checkpoint();
+
+    const changes = await manifest.changesSince(start, end);
+    expect(changes?.map((change) => change.path).sort()).toEqual(["/gone.txt", "/old.txt"]);
+    expect(changes?.find((change) => change.path === "/old.txt")?.metadata).toEqual(v2);
+    expect(changes?.find((change) => change.path === "/gone.txt")?.metadata).toBeNull();
+
+    // A checkpoint that is not a prefix of the view cannot be resumed from.
+    expect(await manifest.changesSince({ ...start, treeHash: "0".repeat(64) }, end)).toBeNull();
+    expect(await manifest.changesSince({ ...end, length: end.length + 1 }, end)).toBeNull();
+
+    await manifest.close();
+    await store.close();
+  });
 });
 
 describe("ManifestStore — pairing & replication", () => {
@@ -365,6 +529,33 @@ describe("ManifestStore — pairing & replication", () => {
     await storeB.close();
   });
 
+  it("a read-only invite pairs a peer that replicates but cannot write", async () => {
+    tn = await testnet(10);
+
+    const storeA = new Corestore(await makeTmpDir());
+    const a = ManifestStore.create(storeA, { bootstrap: tn.bootstrap });
+    await a.ready();
+
+    const invite = await a.createInvite({ readOnly: true });
+
+    const storeB = new Corestore(await makeTmpDir());
+    const b = await ManifestStore.pair(storeB, invite, { bootstrap: tn.bootstrap });
+
+    const metadata = makeMetadata({ size: 512, hash: "e".repeat(64) });
+    await a.put("/read-only.txt", metadata);
+    await waitUntil(b, async () => (await b.get("/read-only.txt")) !== null);
+
+    expect(await b.get("/read-only.txt")).toEqual(metadata);
+    expect(a.writable).toBe(true);
+    expect(b.writable).toBe(false);
+    expect(a.autopass.base.system.members).toBe(1);
+
+    await a.close();
+    await b.close();
+    await storeA.close();
+    await storeB.close();
+  });
+
   it("instance A puts an entry, instance B receives it", async () => {
     tn = await testnet(10);
 
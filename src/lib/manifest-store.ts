@@ -1,6 +1,8 @@
 import { EventEmitter } from "node:events";
-import Autopass from "autopass";
+import Autopass, { type SwarmConnection } from "autopass";
+import { encode as encodeCommand } from "autopass/spec/hyperdispatch/index.js";
 import type Corestore from "corestore";
+import type { ChunkRef } from "./chunk-index";
 
 export interface FileMetadata {
   kind: "file";
@@ -10,10 +12,17 @@ export interface FileMetadata {
   baseHash: string | null;
   seq: number;
   writerKey: string;
-  blocks: {
+  /** Chunks that make up the file, in order; each may live in any writer's core */
+  chunks?: ChunkRef[];
+  /** Legacy: contiguous fixed-size blocks in `writerKey`'s core */
+  blocks?: {
     offset: number;
     length: number;
   };
+  /** Legacy: sha256 of each block in `blocks` */
+  blockHashes?: string[];
+  /** Path the content was renamed from; peers holding that file rename it instead of downloading */
+  movedFrom?: string;
 }
 
 export interface TombstoneMetadata {
@@ -30,6 +39,12 @@ export interface PeerMetadata {
   writerKey: string;
   name: string;
   updatedAt: number;
+  /** mtime of the newest tombstone this peer has applied; older tombstones count as acknowledged */
+  watermark?: number;
+  /** Hyperswarm public key this peer connects with, hex-encoded */
+  swarmKey?: string;
+  /** Newest file entry format this peer reads; missing for releases that predate chunking */
+  fileFormat?: number;
 }
 
 export interface ConfigMetadata {
@@ -39,12 +54,22 @@ export interface ConfigMetadata {
   settings?: Record<string, unknown>;
 }
 
+/** One version of a user path, kept under a `__rev:` key so it survives later overwrites. */
+export interface RevisionMetadata {
+  kind: "revision";
+  path: string;
+  entry: UserManifestValue;
+  /** When the writer published this revision; missing on revisions from older releases */
+  publishedAt?: number;
+}
+
 export type UserManifestValue = FileMetadata | TombstoneMetadata;
 export type ManifestValue =
   | FileMetadata
   | TombstoneMetadata
   | PeerMetadata
-  | ConfigMetadata;
+  | ConfigMetadata
+  | RevisionMetadata;
 
 export function isTombstone(value: ManifestValue): value is TombstoneMetadata {
   return value.kind === "tombstone" && value.deleted === true;
@@ -62,11 +87,29 @@ export function isConfigMetadata(value: ManifestValue): value is ConfigMetadata
   return value.kind === "config";
 }
 
+export function isRevisionMetadata(value: ManifestValue): value is RevisionMetadata {
+  return value.kind === "revision";
+}
+
 export interface ManifestEntry {
   path: string;
   metadata: ManifestValue;
 }
 
+/** A position in the manifest's history that `changesSince` can resume from. */
+export interface ManifestCheckpoint {
+  /** Length of the view core */
+  length: number;
+  /** Hex Merkle tree hash of the view up to `length`, to detect reordering */
+  treeHash: string;
+}
+
+/** An entry that was put (`metadata` set) or removed (`metadata` null). */
+export interface ManifestChange {
+  path: string;
+  metadata: ManifestValue | null;
+}
+
 export interface ManifestStoreOptions {
   replicate?: boolean;
   bootstrap?: { host: string; port: number }[];
@@ -93,7 +136,127 @@ function assertNullableString(value: unknown, label: string): string | null {
   return assertString(value, label);
 }
 
+function assertStringArray(path: string, value: unknown, label: string): string[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid manifest value for ${path}: ${label} must be array`);
+  }
+  return value.map((item) => assertString(item, `${label}[]`));
+}
+
+/**
+ * Stored format of chunked file entries. Entries without a `v` field are the legacy format,
+ * where `blocks` is a contiguous range of the entry writer's core.
+ */
+export const FILE_FORMAT_VERSION = 2;
+
+/** Whether `chunks` are one run of consecutive blocks in `writerKey`'s core. */
+export function isSingleRun(writerKey: string, chunks: ChunkRef[]): boolean {
+  return chunks.every(
+    (chunk, i) => chunk.writerKey === writerKey && chunk.index === chunks[0].index + i,
+  );
+}
+
+/** Consecutive blocks of one writer's core: index into `chunkWriters`, first block, count. */
+type ChunkRun = [writer: number, offset: number, length: number];
+
+/**
+ * Chunk lists are stored as a table of writer keys plus runs of block indices, so a large file
+ * costs one hash and one size per chunk rather than a full `ChunkRef` object. Chunk hashes go
+ * in `blockHashes`, and when the whole file is one run in the entry writer's own core `blocks`
+ * is written too, so releases that predate chunking can still read it. Writers keep files in
+ * that shape while any peer has not advertised {@link FILE_FORMAT_VERSION}.
+ */
+function encodeChunks(writerKey: string, chunks: ChunkRef[]): Record<string, unknown> {
+  const writers: string[] = [];
+  const runs: ChunkRun[] = [];
+  for (const chunk of chunks) {
+    let writer = writers.indexOf(chunk.writerKey);
+    if (writer === -1) writer = writers.push(chunk.writerKey) - 1;
+    const last = runs[runs.length - 1];
+    if (last && last[0] === writer && last[1] + last[2] === chunk.index) {
+      last[2] += 1;
+    } else {
+      runs.push([writer, chunk.index, 1]);
+    }
+  }
+
+  let blocks: FileMetadata["blocks"];
+  if (isSingleRun(writerKey, chunks)) {
+    blocks = { offset: chunks[0]?.index ?? 0, length: chunks.length };
+  }
+  return {
+    v: FILE_FORMAT_VERSION,
+    blocks,
+    blockHashes: chunks.map((chunk) => chunk.hash),
+    chunkSizes: chunks.map((chunk) => chunk.size),
+    chunkWriters: writers,
+    chunkRuns: runs,
+  };
+}
+
+function decodeChunks(path: string, raw: Record<string, unknown>): ChunkRef[] {
+  const hashes = assertStringArray(path, raw.blockHashes, "blockHashes");
+  const writers = assertStringArray(path, raw.chunkWriters, "chunkWriters");
+  if (!Array.isArray(raw.chunkSizes) || !Array.isArray(raw.chunkRuns)) {
+    throw new Error(`Invalid manifest value for ${path}: chunkSizes and chunkRuns must be arrays`);
+  }
+  const sizes = raw.chunkSizes.map((size) => assertNumber(size, "chunkSizes[]"));
+
+  const chunks: ChunkRef[] = [];
+  for (const run of raw.chunkRuns) {
+    if (!Array.isArray(run) || run.length !== 3) {
+      throw new Error(`Invalid manifest value for ${path}: chunk run must be a triple`);
+    }
+    const [writer, offset, length] = run.map((n) => assertNumber(n, "chunkRuns[]"));
+    const writerKey = writers[writer];
+    if (writerKey === undefined) {
+      throw new Error(`Invalid manifest value for ${path}: unknown chunk writer ${writer}`);
+    }
+    if (chunks.length + length > hashes.length) {
+      throw new Error(`Invalid manifest value for ${path}: more chunk runs than hashes`);
+    }
+    for (let i = 0; i < length; i++) {
+      const n = chunks.length;
+      chunks.push({ hash: hashes[n], size: sizes[n], writerKey, index: offset + i });
+    }
+  }
+  if (chunks.length !== hashes.length || sizes.length !== hashes.length) {
+    throw new Error(`Invalid manifest value for ${path}: chunk runs, hashes and sizes differ`);
+  }
+  return chunks;
+}
+
+/** Serialize an entry, writing chunk lists in the stored format. */
+function encodeManifestValue(value: ManifestValue): string {
+  return JSON.stringify(storedValue(value));
+}
+
+function storedValue(value: ManifestValue): unknown {
+  if (isRevisionMetadata(value)) return { ...value, entry: storedValue(value.entry) };
+  if (!isFileMetadata(value) || !value.chunks) return value;
+  const { chunks, ...rest } = value;
+  return { ...rest, ...encodeChunks(value.writerKey, chunks) };
+}
+
+const REVISION_PREFIX = "__rev:";
+
+/** Revisions sort by path, then seq (zero-padded), then writer. */
+function revisionKey(path: string, entry: UserManifestValue): string {
+  return `${REVISION_PREFIX}${path}:${String(entry.seq).padStart(10, "0")}:${entry.writerKey}`;
+}
+
 function assertPathCompatibility(path: string, metadata: ManifestValue): void {
+  if (path.startsWith(REVISION_PREFIX)) {
+    if (!isRevisionMetadata(metadata)) {
+      throw new Error(`Invalid manifest path/type pair: ${path} requires revision metadata`);
+    }
+    const expectedPath = revisionKey(metadata.path, metadata.entry);
+    if (path !== expectedPath) {
+      throw new Error(`Invalid revision key: expected ${expectedPath}, got ${path}`);
+    }
+    return;
+  }
+
   if (path.startsWith("__peer:")) {
     if (!isPeerMetadata(metadata)) {
       throw new Error(`Invalid manifest path/type pair: ${path} requires peer metadata`);
@@ -134,11 +297,7 @@ function parseManifestValue(path: string, raw: unknown): ManifestValue {
 
   let value: ManifestValue;
   if (kind === "file") {
-    const blocksRaw = raw.blocks;
-    if (!isRecord(blocksRaw)) {
-      throw new Error(`Invalid manifest value for ${path}: blocks must be object`);
-    }
-    value = {
+    const file: FileMetadata = {
       kind: "file",
       size: assertNumber(raw.size, "size"),
       mtime: assertNumber(raw.mtime, "mtime"),
@@ -146,11 +305,30 @@ function parseManifestValue(path: string, raw: unknown): ManifestValue {
       baseHash: assertNullableString(raw.baseHash, "baseHash"),
       seq: assertNumber(raw.seq, "seq"),
       writerKey: assertString(raw.writerKey, "writerKey"),
-      blocks: {
+    };
+    if (raw.v !== undefined) {
+      const version = assertNumber(raw.v, "v");
+      if (version !== FILE_FORMAT_VERSION) {
+        throw new Error(`Invalid manifest value for ${path}: unsupported file format ${version}`);
+      }
+      file.chunks = decodeChunks(path, raw);
+    } else {
+      const blocksRaw = raw.blocks;
+      if (!isRecord(blocksRaw)) {
+        throw new Error(`Invalid manifest value for ${path}: blocks must be object`);
+      }
+      file.blocks = {
         offset: assertNumber(blocksRaw.offset, "blocks.offset"),
         length: assertNumber(blocksRaw.length, "blocks.length"),
-      },
-    };
+      };
+      if (raw.blockHashes !== undefined) {
+        file.blockHashes = assertStringArray(path, raw.blockHashes, "blockHashes");
+      }
+    }
+    if (raw.movedFrom !== undefined) {
+      file.movedFrom = assertString(raw.movedFrom, "movedFrom");
+    }
+    value = file;
   } else if (kind === "tombstone") {
     if (raw.deleted !== true) {
       throw new Error(`Invalid manifest value for ${path}: tombstone.deleted must be true`);
@@ -169,6 +347,10 @@ function parseManifestValue(path: string, raw: unknown): ManifestValue {
       writerKey: assertString(raw.writerKey, "writerKey"),
       name: assertString(raw.name, "name"),
       updatedAt: assertNumber(raw.updatedAt, "updatedAt"),
+      watermark: raw.watermark === undefined ? undefined : assertNumber(raw.watermark, "watermark"),
+      swarmKey: raw.swarmKey === undefined ? undefined : assertString(raw.swarmKey, "swarmKey"),
+      fileFormat:
+        raw.fileFormat === undefined ? undefined : assertNumber(raw.fileFormat, "fileFormat"),
     };
   } else if (kind === "config") {
     let settings: Record<string, unknown> | undefined;
@@ -186,6 +368,16 @@ function parseManifestValue(path: string, raw: unknown): ManifestValue {
         raw.syncFolder === undefined ? undefined : assertString(raw.syncFolder, "syncFolder"),
       settings,
     };
+  } else if (kind === "revision") {
+    const revisionPath = assertString(raw.path, "path");
+    const entry = parseManifestValue(revisionPath, raw.entry);
+    if (!isFileMetadata(entry) && !isTombstone(entry)) {
+      throw new Error(`Invalid manifest value for ${path}: revision entry must be file/tombstone`);
+    }
+    value = { kind: "revision", path: revisionPath, entry };
+    if (raw.publishedAt !== undefined) {
+      value.publishedAt = assertNumber(raw.publishedAt, "publishedAt");
+    }
   } else {
     throw new Error(`Invalid manifest value for ${path}: unsupported kind ${kind}`);
   }
@@ -222,9 +414,27 @@ export class ManifestStore extends EventEmitter {
     await this.pass.close();
   }
 
+  /** Write an entry. Files and tombstones are also recorded in the path's revision history. */
   async put(path: string, metadata: ManifestValue): Promise<void> {
     assertPathCompatibility(path, metadata);
-    await this.pass.add(path, JSON.stringify(metadata));
+    if (isFileMetadata(metadata) || isTombstone(metadata)) {
+      // One batch, so peers never see the entry without its revision (or the other way round)
+      const revision: RevisionMetadata = {
+        kind: "revision",
+        path,
+        entry: metadata,
+        publishedAt: Date.now(),
+      };
+      await this.pass.base.append([
+        encodeCommand("@autopass/put", {
+          key: revisionKey(path, metadata),
+          value: encodeManifestValue(revision),
+        }),
+        encodeCommand("@autopass/put", { key: path, value: encodeManifestValue(metadata) }),
+      ]);
+      return;
+    }
+    await this.pass.add(path, encodeManifestValue(metadata));
   }
 
   async putTombstone(
@@ -263,12 +473,28 @@ export class ManifestStore extends EventEmitter {
     await this.put(path, tombstone);
   }
 
-  async putPeer(writerKey: string, name: string): Promise<void> {
+  /**
+   * Register or refresh a peer; its tombstone watermark, swarm key and file format are kept unless
+   * new ones are given.
+   */
+  async putPeer(
+    writerKey: string,
+    name: string,
+    opts?: { watermark?: number; swarmKey?: string; fileFormat?: number },
+  ): Promise<void> {
+    const existing = await this.get(`__peer:${writerKey}`);
+    const previous = existing && isPeerMetadata(existing) ? existing : null;
+    const watermark = opts?.watermark ?? previous?.watermark;
+    const swarmKey = opts?.swarmKey ?? previous?.swarmKey;
+    const fileFormat = opts?.fileFormat ?? previous?.fileFormat;
     const metadata: PeerMetadata = {
       kind: "peer",
       writerKey,
       name,
       updatedAt: Date.now(),
+      ...(watermark === undefined ? {} : { watermark }),
+      ...(swarmKey === undefined ? {} : { swarmKey }),
+      ...(fileFormat === undefined ? {} : { fileFormat }),
     };
     await this.put(`__peer:${writerKey}`, metadata);
   }
@@ -287,20 +513,128 @@ export class ManifestStore extends EventEmitter {
     return parseManifestValue(path, JSON.parse(result.value) as unknown);
   }
 
+  /** Current entries; revision records are left out (see getHistory). */
   async list(): Promise<ManifestEntry[]> {
-    const records = await this.pass.list().toArray();
+    // Two key ranges around the `__rev:` namespace (';' sorts right after ':')
+    const records = [
+      ...(await this.findRecords({ lt: { key: REVISION_PREFIX } })),
+      ...(await this.findRecords({ gte: { key: "__rev;" } })),
+    ];
     return records.map((record) => ({
       path: record.key,
       metadata: parseManifestValue(record.key, JSON.parse(record.value) as unknown),
     }));
   }
 
+  /** Every recorded version of a user path, newest first. */
+  async getHistory(path: string): Promise<RevisionMetadata[]> {
+    const prefix = `${REVISION_PREFIX}${path}:`;
+    const records = await this.findRecords({
+      gte: { key: prefix },
+      lt: { key: `${prefix}\uffff` },
+    });
+    const revisions: RevisionMetadata[] = [];
+    for (const record of records) {
+      const value = parseManifestValue(record.key, JSON.parse(record.value) as unknown);
+      // The prefix also matches longer paths that contain ':'
+      if (isRevisionMetadata(value) && value.path === path) revisions.push(value);
+    }
+    return revisions.sort((a, b) => b.entry.seq - a.entry.seq || b.entry.mtime - a.entry.mtime);
+  }
+
+  /** Delete revision records, in one batch; the entries they record are left alone. */
+  async removeRevisions(revisions: RevisionMetadata[]): Promise<void> {
+    if (revisions.length === 0) return;
+    await this.pass.base.append(
+      revisions.map((revision) =>
+        encodeCommand("@autopass/del", { key: revisionKey(revision.path, revision.entry) }),
+      ),
+    );
+  }
+
+  /** Peer entries, in writer key order. */
+  async listPeers(): Promise<PeerMetadata[]> {
+    const records = await this.findRecords({
+      gte: { key: "__peer:" },
+      lt: { key: "__peer;" },
+    });
+    const peers: PeerMetadata[] = [];
+    for (const record of records) {
+      const value = parseManifestValue(record.key, JSON.parse(record.value) as unknown);
+      if (isPeerMetadata(value)) peers.push(value);
+    }
+    return peers;
+  }
+
+  /** The current position of the manifest view. */
+  async checkpoint(): Promise<ManifestCheckpoint> {
+    const core = this.pass.base.view.core;
+    const length = core.length;
+    return { length, treeHash: (await core.treeHash(length)).toString("hex") };
+  }
+
+  /**
+   * Entries put or removed between two checkpoints, latest change per path, revisions left
+   * out. Returns null when `from` is no longer a prefix of the view because Autobase
+   * reordered it; callers then fall back to `list()`.
+   */
+  async changesSince(
+    from: ManifestCheckpoint,
+    to: ManifestCheckpoint,
+  ): Promise<ManifestChange[] | null> {
+    const core = this.pass.base.view.core;
+    if (from.length > to.length || from.length > core.length) return null;
+    if ((await core.treeHash(from.length)).toString("hex") !== from.treeHash) return null;
+
+    const changes = new Map<string, ManifestChange>();
+    for await (const change of this.pass.base.view.changes({ gte: from.length, lt: to.length })) {
+      if (change.collection !== "@autopass/records") continue;
+      const path = change.value.key;
+      if (path.startsWith(REVISION_PREFIX)) continue;
+      changes.delete(path);
+      changes.set(path, {
+        path,
+        metadata:
+          change.type === "insert"
+            ? parseManifestValue(path, JSON.parse(change.value.value) as unknown)
+            : null,
+      });
+    }
+    return [...changes.values()];
+  }
+
+  /** Every revision record of every path, in key order (by path, then seq). */
+  async listRevisions(): Promise<RevisionMetadata[]> {
+    const records = await this.findRecords({
+      gte: { key: REVISION_PREFIX },
+      lt: { key: "__rev;" },
+    });
+    const revisions: RevisionMetadata[] = [];
+    for (const record of records) {
+      const value = parseManifestValue(record.key, JSON.parse(record.value) as unknown);
+      if (isRevisionMetadata(value)) revisions.push(value);
+    }
+    return revisions;
+  }
+
+  private findRecords(query: {
+    gte?: { key: string };
+    lt?: { key: string };
+  }): Promise<{ key: string; value: string }[]> {
+    return this.pass.base.view.find("@autopass/records", query).toArray();
+  }
+
   async remove(path: string): Promise<void> {
     await this.pass.remove(path);
   }
 
-  async createInvite(): Promise<string> {
-    return this.pass.createInvite();
+  /**
+   * Create an invite code. A read-only invite lets the paired peer replicate the manifest and
+   * file blocks without becoming a writer. Only one invite is open at a time, so creating one
+   * with the other role replaces it.
+   */
+  async createInvite(opts?: { readOnly?: boolean }): Promise<string> {
+    return this.pass.createInvite({ readOnly: opts?.readOnly ?? false });
   }
 
   static async pair(
@@ -324,6 +658,35 @@ export class ManifestStore extends EventEmitter {
     return this.pass.writable;
   }
 
+  /** This peer's Hyperswarm public key, or null when not replicating */
+  get swarmKey(): string | null {
+    return this.pass.swarm?.keyPair.publicKey.toString("hex") ?? null;
+  }
+
+  /** Whether `writerKey` is a current writer, i.e. was added to the Autobase and not removed. */
+  async isWriter(writerKey: string): Promise<boolean> {
+    const member = await this.pass.base.system.get(Buffer.from(writerKey, "hex"));
+    return member !== null && !member.isRemoved;
+  }
+
+  /** Hyperswarm public keys of the peers we are connected to, hex-encoded */
+  connectedSwarmKeys(): string[] {
+    const connections = [...(this.pass.swarm?.connections ?? [])];
+    return connections.map((connection) => connection.remotePublicKey.toString("hex"));
+  }
+
+  /**
+   * Call `listener` for every replication connection, current and future. Returns a function
+   * that stops listening.
+   */
+  onConnection(listener: (connection: SwarmConnection) => void): () => void {
+    const swarm = this.pass.swarm;
+    if (!swarm) return () => {};
+    for (const connection of swarm.connections) listener(connection);
+    swarm.on("connection", listener);
+    return () => swarm.off("connection", listener);
+  }
+
   /** Expose underlying Autopass for assertions in tests (e.g. base.system.members) */
   get autopass(): InstanceType<typeof Autopass> {
     return this.pass;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import type { FileMetadata } from "./manifest-store";
+import { isPlaceholder, placeholderContent, placeholderPath } from "./placeholders";
+
+describe("placeholders", () => {
+	it("sits next to the real path and describes the remote file", () => {
+		const metadata: FileMetadata = {
+			kind: "file",
+			size: 12,
+			mtime: 1000,
+			hash: "abc",
+			baseHash: null,
+			seq: 1,
+			writerKey: "writer",
+			blocks: { offset: 0, length: 1 },
+		};
+		const stub = placeholderPath("/docs/a.pdf");
+		expect(stub).toBe("/docs/a.pdf.pearsync-placeholder");
+		expect(isPlaceholder(stub)).toBe(true);
+		expect(isPlaceholder("/docs/a.pdf")).toBe(false);
+		expect(JSON.parse(placeholderContent("/docs/a.pdf", metadata))).toEqual({
+			path: "/docs/a.pdf",
+			size: 12,
+			hash: "abc",
+			mtime: 1000,
+		});
+	});
+});
@@ -0,0 +1,33 @@
+import type { FileMetadata } from "./manifest-store";
+
+/**
+ * Suffix of the stub written next to where a file that has not been hydrated would be, e.g.
+ * `/docs/report.pdf.pearsync-placeholder`. Stubs are never synced.
+ */
+export const PLACEHOLDER_SUFFIX = ".pearsync-placeholder";
+
+/** Contents of a placeholder stub: enough to tell what the real file is without fetching it. */
+export interface PlaceholderInfo {
+	path: string;
+	size: number;
+	hash: string;
+	mtime: number;
+}
+
+export function placeholderPath(path: string): string {
+	return `${path}${PLACEHOLDER_SUFFIX}`;
+}
+
+export function isPlaceholder(path: string): boolean {
+	return path.endsWith(PLACEHOLDER_SUFFIX);
+}
+
+export function placeholderContent(path: string, metadata: FileMetadata): string {
+	const info: PlaceholderInfo = {
+		path,
+		size: metadata.size,
+		hash: metadata.hash,
+		mtime: metadata.mtime,
+	};
+	return `${JSON.stringify(info, null, 2)}\n`;
+}
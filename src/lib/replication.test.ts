@@ -108,8 +108,8 @@ async function readRemoteFile(
 		await remoteCore.ready();
 
 		const blocks: Buffer[] = [];
-		for (let i = 0; i < metadata.blocks.length; i++) {
-			const block = await remoteCore.get(metadata.blocks.offset + i);
+		for (let i = 0; i < metadata.blocks!.length; i++) {
+			const block = await remoteCore.get(metadata.blocks!.offset + i);
 			blocks.push(block!);
 		}
 		return Buffer.concat(blocks);
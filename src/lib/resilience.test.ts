@@ -217,10 +217,12 @@ describe("Resilience and convergence", () => {
 		await engineB.stop();
 		await writeFile(join(syncA, "conflict.txt"), "remote-winner");
 		const remoteWinnerHash = createHash("sha256").update("remote-winner").digest("hex");
-		await waitForCondition(async () => {
-			const meta = await manifestA.get("/conflict.txt");
-			return meta !== null && isFileMetadata(meta) && meta.hash === remoteWinnerHash;
-		}, 20000, 100);
+		for (const manifest of [manifestA, manifestB]) {
+			await waitForCondition(async () => {
+				const meta = await manifest.get("/conflict.txt");
+				return meta !== null && isFileMetadata(meta) && meta.hash === remoteWinnerHash;
+			}, 20000, 100);
+		}
 
 		await writeFile(join(syncB, "conflict.txt"), "offline-local");
 		await engineB.start();
@@ -0,0 +1,70 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { SelectiveSyncStore, listFolders, normalizeExclusions } from "./selective-sync";
+
+let tmpDirs: string[] = [];
+
+async function makeTmpDir(prefix = "pearsync-selective-sync-test-"): Promise<string> {
+	const dir = await mkdtemp(join(tmpdir(), prefix));
+	tmpDirs.push(dir);
+	return dir;
+}
+
+afterEach(async () => {
+	for (const dir of tmpDirs) {
+		await rm(dir, { recursive: true, force: true });
+	}
+	tmpDirs = [];
+});
+
+describe("normalizeExclusions", () => {
+	it("drops the root, duplicates and subtrees of other exclusions", () => {
+		expect(normalizeExclusions(["media/", "/media/clips", "/docs", "/docs", "/", "/b/x"])).toEqual([
+			"/b/x",
+			"/docs",
+			"/media",
+		]);
+	});
+});
+
+describe("listFolders", () => {
+	it("lists every ancestor folder of the given paths", () => {
+		expect(listFolders(["/top.txt", "/a/b/c.txt", "/a/d.txt", "/e/f.txt"])).toEqual([
+			"/a",
+			"/a/b",
+			"/e",
+		]);
+	});
+});
+
+describe("SelectiveSyncStore", () => {
+	it("persists exclusions and matches paths inside them only", async () => {
+		const syncDir = await makeTmpDir();
+		const rules = new SelectiveSyncStore(syncDir);
+		await rules.load();
+		expect(rules.getExcluded()).toEqual([]);
+
+		await rules.setExcluded(["/media"]);
+		expect(rules.excludes("/media")).toBe(true);
+		expect(rules.excludes("/media/clip.bin")).toBe(true);
+		expect(rules.excludes("/media-notes.txt")).toBe(false);
+
+		const reloaded = new SelectiveSyncStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.getExcluded()).toEqual(["/media"]);
+		expect(
+			JSON.parse(await readFile(join(syncDir, ".pearsync", "selective-sync.json"), "utf-8")),
+		).toEqual({ excluded: ["/media"] });
+	});
+
+	it("treats a corrupt rules file as excluding nothing", async () => {
+		const syncDir = await makeTmpDir();
+		const rules = new SelectiveSyncStore(syncDir);
+		await rules.setExcluded(["/media"]);
+		await writeFile(join(syncDir, ".pearsync", "selective-sync.json"), "{not json");
+		await rules.load();
+		expect(rules.getExcluded()).toEqual([]);
+	});
+});
@@ -0,0 +1,85 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { normalizePath } from "./file-utils";
+
+/**
+ * Normalize excluded subtrees: leading slash, no trailing slash, no duplicates and nothing
+ * nested inside another excluded subtree. The root cannot be excluded.
+ */
+export function normalizeExclusions(paths: string[]): string[] {
+	const normalized = [...new Set(paths.map((path) => normalizePath(path).replace(/\/+$/, "")))]
+		.filter((path) => path !== "")
+		.sort();
+	return normalized.filter(
+		(path) => !normalized.some((other) => other !== path && path.startsWith(`${other}/`)),
+	);
+}
+
+/** Whether `path` is one of the `excluded` subtrees or inside one. */
+export function isExcluded(excluded: string[], path: string): boolean {
+	return excluded.some((root) => path === root || path.startsWith(`${root}/`));
+}
+
+/** Every folder that contains one of `paths`, sorted, e.g. for a tree picker. */
+export function listFolders(paths: Iterable<string>): string[] {
+	const folders = new Set<string>();
+	for (const path of paths) {
+		let slash = path.lastIndexOf("/");
+		while (slash > 0) {
+			const folder = path.slice(0, slash);
+			if (folders.has(folder)) break;
+			folders.add(folder);
+			slash = folder.lastIndexOf("/");
+		}
+	}
+	return [...folders].sort();
+}
+
+/**
+ * Subtrees of the shared folder this peer does not materialise, kept per peer in
+ * `.pearsync/selective-sync.json`. Their manifest entries are left alone.
+ */
+export class SelectiveSyncStore {
+	private excluded: string[] = [];
+	private filePath: string;
+
+	constructor(syncFolder: string) {
+		this.filePath = join(syncFolder, ".pearsync", "selective-sync.json");
+	}
+
+	/** Load the rules; a missing or unreadable file excludes nothing. */
+	async load(): Promise<void> {
+		this.excluded = [];
+		let raw: unknown;
+		try {
+			raw = JSON.parse(await readFile(this.filePath, "utf-8")) as unknown;
+		} catch (err: unknown) {
+			if (err instanceof SyntaxError || (err as NodeJS.ErrnoException).code === "ENOENT") return;
+			throw err;
+		}
+		const excluded = (raw as { excluded?: unknown } | null)?.excluded;
+		if (!Array.isArray(excluded)) return;
+		this.excluded = normalizeExclusions(
+			excluded.filter((path): path is string => typeof path === "string"),
+		);
+	}
+
+	getExcluded(): string[] {
+		return [...this.excluded];
+	}
+
+	/** Replace the excluded subtrees and persist them atomically. */
+	async setExcluded(paths: string[]): Promise<void> {
+		this.excluded = normalizeExclusions(paths);
+		await mkdir(dirname(this.filePath), { recursive: true });
+		const tmpPath = `${this.filePath}.${randomBytes(4).toString("hex")}.tmp`;
+		await writeFile(tmpPath, JSON.stringify({ excluded: this.excluded }));
+		await rename(tmpPath, this.filePath);
+	}
+
+	/** Whether `path` is an excluded subtree or inside one. */
+	excludes(path: string): boolean {
+		return isExcluded(this.excluded, path);
+	}
+}
@@ -1,15 +1,22 @@
-import { createHash } from "node:crypto";
-import { existsSync } from "node:fs";
-import { readFile, rm, unlink, writeFile, mkdir, utimes, readdir } from "node:fs/promises";
+import { execFile } from "node:child_process";
+import { createHash, randomBytes } from "node:crypto";
+import { createWriteStream, existsSync } from "node:fs";
+import { readFile, rm, unlink, writeFile, mkdir, utimes, readdir, rename } from "node:fs/promises";
 import { mkdtemp } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
 import Corestore from "corestore";
 import testnet from "hyperdht/testnet";
-import { afterEach, describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FileStore } from "./file-store";
+import { hashBuffer } from "./file-utils";
 import { LocalStateStore } from "./local-state-store";
 import {
 	type FileMetadata,
+	type ManifestChange,
+	type ManifestValue,
 	type TombstoneMetadata,
 	ManifestStore,
 	isFileMetadata,
@@ -18,6 +25,7 @@ import {
 import {
 	type StartupPolicyAuditEvent,
 	type SyncEvent,
+	type TransferProgress,
 	SyncEngine,
 	buildConflictPath,
 } from "./sync-engine";
@@ -149,9 +157,11 @@ describe("SyncEngine — local changes", () => {
 			createHash("sha256").update("hello world").digest("hex"),
 		);
 
-		// Verify FileStore has the blocks
+		// Verify FileStore has the chunks
 		const fileStore = engine.getFileStore();
-		const data = await fileStore.readFile(fileMeta.blocks.offset, fileMeta.blocks.length);
+		const chunks = fileMeta.chunks!;
+		expect(chunks).toHaveLength(1);
+		const data = await fileStore.readFile(chunks[0].index, chunks.length);
 		expect(data.toString()).toBe("hello world");
 
 		await engine.close();
@@ -1548,3 +1558,1548 @@ describe("Reserved manifest key policy", () => {
 		await store.close();
 	});
 });
+
+describe("Ignore patterns", () => {
+	it("initial scan and watcher skip ignored paths", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, ".pearsyncignore"), "node_modules/\n*.log\n!keep.log\n");
+		await mkdir(join(syncDir, "node_modules", "pkg"), { recursive: true });
+		await writeFile(join(syncDir, "node_modules", "pkg", "index.js"), "module");
+		await writeFile(join(syncDir, "debug.log"), "noise");
+		await writeFile(join(syncDir, "keep.log"), "important");
+		await writeFile(join(syncDir, "main.txt"), "main");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const manifest = engine.getManifest();
+		expect(await manifest.get("/main.txt")).not.toBeNull();
+		expect(await manifest.get("/keep.log")).not.toBeNull();
+		expect(await manifest.get("/.pearsyncignore")).not.toBeNull();
+		expect(await manifest.get("/debug.log")).toBeNull();
+		expect(await manifest.get("/node_modules/pkg/index.js")).toBeNull();
+
+		const syncPromise = waitForSync(
+			engine,
+			(e) => e.direction === "local-to-remote" && e.path === "/after.txt",
+		);
+		await writeFile(join(syncDir, "later.log"), "more noise");
+		await writeFile(join(syncDir, "after.txt"), "after");
+		await syncPromise;
+		await sleep(500);
+
+		expect(await manifest.get("/later.log")).toBeNull();
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("hot-reloads rules and publishes newly un-ignored files", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, ".pearsyncignore"), "*.wip\n");
+		await writeFile(join(syncDir, "draft.wip"), "draft");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const manifest = engine.getManifest();
+		expect(await manifest.get("/draft.wip")).toBeNull();
+
+		await writeFile(join(syncDir, ".pearsyncignore"), "# nothing ignored\n");
+		await waitForCondition(async () => (await manifest.get("/draft.wip")) !== null);
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("does not publish the ignore file when syncIgnoreFile is false", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, ".pearsyncignore"), "*.bak\n");
+		await writeFile(join(syncDir, "notes.txt"), "notes");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { syncIgnoreFile: false });
+		await engine.ready();
+		await engine.start();
+
+		const manifest = engine.getManifest();
+		expect(await manifest.get("/notes.txt")).not.toBeNull();
+		expect(await manifest.get("/.pearsyncignore")).toBeNull();
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Receive-only folders", () => {
+	async function putRemoteFile(
+		engine: SyncEngine,
+		store: InstanceType<typeof Corestore>,
+		path: string,
+		content: string,
+	): Promise<void> {
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const data = Buffer.from(content);
+		const result = await remoteCore.append(data);
+		const syncPromise = waitForSync(
+			engine,
+			(e) => e.direction === "remote-to-local" && e.path === path,
+		);
+		await engine.getManifest().put(path, {
+			kind: "file",
+			size: data.length,
+			mtime: Date.now(),
+			hash: createHash("sha256").update(data).digest("hex"),
+			baseHash: null,
+			seq: 1,
+			writerKey: remoteCore.key.toString("hex"),
+			blocks: { offset: result.length - 1, length: 1 },
+		});
+		await syncPromise;
+		// Let the watcher consume the suppressed write before the test edits the file
+		await sleep(500);
+	}
+
+	it("applies remote changes but never publishes local edits", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, "preexisting.txt"), "local only");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { folderMode: "receive-only" });
+		await engine.ready();
+		await engine.start();
+
+		const manifest = engine.getManifest();
+		expect(engine.getFolderMode()).toBe("receive-only");
+		expect(await manifest.get("/preexisting.txt")).toBeNull();
+
+		await putRemoteFile(engine, store, "/shared.txt", "from remote");
+		expect((await readFile(join(syncDir, "shared.txt"))).toString()).toBe("from remote");
+
+		await writeFile(join(syncDir, "shared.txt"), "edited locally");
+		await writeFile(join(syncDir, "added.txt"), "new local file");
+		await waitForCondition(() => engine.getLocalChanges().length === 3);
+		await sleep(300);
+
+		const shared = await manifest.get("/shared.txt");
+		expect(shared && isFileMetadata(shared) && shared.size).toBe("from remote".length);
+		expect(await manifest.get("/added.txt")).toBeNull();
+
+		const changes = new Map(engine.getLocalChanges().map((c) => [c.path, c.type]));
+		expect(changes.get("/shared.txt")).toBe("modified");
+		expect(changes.get("/added.txt")).toBe("added");
+		expect(changes.get("/preexisting.txt")).toBe("added");
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("tracks local deletions and reverts to the manifest state", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { folderMode: "receive-only" });
+		await engine.ready();
+		await engine.start();
+
+		await putRemoteFile(engine, store, "/kept.txt", "canonical");
+		await putRemoteFile(engine, store, "/edited.txt", "original");
+
+		await unlink(join(syncDir, "kept.txt"));
+		await writeFile(join(syncDir, "edited.txt"), "changed");
+		await writeFile(join(syncDir, "extra.txt"), "extra");
+		await waitForCondition(() => engine.getLocalChanges().length === 3);
+
+		const deleted = engine.getLocalChanges().find((c) => c.path === "/kept.txt");
+		expect(deleted?.type).toBe("deleted");
+		expect(await engine.getManifest().get("/kept.txt")).not.toBeNull();
+
+		const reverted = await engine.revertLocalChanges(["/kept.txt", "/extra.txt"]);
+		expect(reverted.sort()).toEqual(["/extra.txt", "/kept.txt"]);
+		expect((await readFile(join(syncDir, "kept.txt"))).toString()).toBe("canonical");
+		expect(existsSync(join(syncDir, "extra.txt"))).toBe(false);
+		expect(engine.getLocalChanges().map((c) => c.path)).toEqual(["/edited.txt"]);
+
+		expect(await engine.revertLocalChanges()).toEqual(["/edited.txt"]);
+		expect((await readFile(join(syncDir, "edited.txt"))).toString()).toBe("original");
+		await sleep(300);
+		expect(engine.getLocalChanges()).toEqual([]);
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Send-only folders", () => {
+	it("records remote changes as divergence without touching disk", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, "golden.txt"), "golden");
+		await writeFile(join(syncDir, "doomed.txt"), "keep me");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { folderMode: "send-only" });
+		await engine.ready();
+		await engine.start();
+
+		const manifest = engine.getManifest();
+		const myWriterKey = engine.getFileStore().core.key.toString("hex");
+		const golden = await manifest.get("/golden.txt");
+		expect(golden && isFileMetadata(golden)).toBe(true);
+		const goldenFile = golden as FileMetadata;
+
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const remoteData = Buffer.from("remote edit");
+		const result = await remoteCore.append(remoteData);
+		const remoteFile: FileMetadata = {
+			kind: "file",
+			size: remoteData.length,
+			mtime: Date.now(),
+			hash: createHash("sha256").update(remoteData).digest("hex"),
+			baseHash: goldenFile.hash,
+			seq: goldenFile.seq + 1,
+			writerKey: remoteCore.key.toString("hex"),
+			blocks: { offset: result.length - 1, length: 1 },
+		};
+		await manifest.put("/golden.txt", remoteFile);
+		await manifest.put("/remote-only.txt", remoteFile);
+		await manifest.putTombstone("/doomed.txt", remoteFile.writerKey);
+
+		await waitForCondition(() => engine.getDivergedPaths().length === 3);
+		const diverged = new Map(engine.getDivergedPaths().map((d) => [d.path, d.type]));
+		expect(diverged.get("/golden.txt")).toBe("modified");
+		expect(diverged.get("/remote-only.txt")).toBe("added");
+		expect(diverged.get("/doomed.txt")).toBe("deleted");
+
+		expect((await readFile(join(syncDir, "golden.txt"))).toString()).toBe("golden");
+		expect((await readFile(join(syncDir, "doomed.txt"))).toString()).toBe("keep me");
+		expect(existsSync(join(syncDir, "remote-only.txt"))).toBe(false);
+
+		const overridden = await engine.overrideRemoteChanges();
+		expect(overridden.sort()).toEqual(["/doomed.txt", "/golden.txt", "/remote-only.txt"]);
+		expect(engine.getDivergedPaths()).toEqual([]);
+
+		const afterGolden = await manifest.get("/golden.txt");
+		expect(afterGolden && isFileMetadata(afterGolden) && afterGolden.writerKey).toBe(myWriterKey);
+		expect(afterGolden && isFileMetadata(afterGolden) && afterGolden.hash).toBe(goldenFile.hash);
+		const afterDoomed = await manifest.get("/doomed.txt");
+		expect(afterDoomed && isFileMetadata(afterDoomed) && afterDoomed.writerKey).toBe(myWriterKey);
+		const afterRemoteOnly = await manifest.get("/remote-only.txt");
+		expect(afterRemoteOnly && isTombstone(afterRemoteOnly)).toBe(true);
+
+		await remoteCore.close();
+		await engine.close();
+		await store.close();
+	});
+
+	it("local edits to a diverged path are published and clear the divergence", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, "artifact.bin"), "v1");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { folderMode: "send-only" });
+		await engine.ready();
+		await engine.start();
+
+		const manifest = engine.getManifest();
+		await manifest.putTombstone("/artifact.bin", "deadbeef".repeat(8));
+		await waitForCondition(() => engine.getDivergedPaths().length === 1);
+		expect(existsSync(join(syncDir, "artifact.bin"))).toBe(true);
+
+		await writeFile(join(syncDir, "artifact.bin"), "v2");
+		await waitForCondition(() => engine.getDivergedPaths().length === 0);
+
+		const entry = await manifest.get("/artifact.bin");
+		expect(entry && isFileMetadata(entry) && entry.size).toBe(2);
+		expect(entry && isFileMetadata(entry) && entry.writerKey).toBe(
+			engine.getFileStore().core.key.toString("hex"),
+		);
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Read-only peers", () => {
+	let tn: Awaited<ReturnType<typeof testnet>>;
+
+	afterEach(async () => {
+		if (tn) {
+			for (const node of tn.nodes) await node.destroy();
+		}
+	});
+
+	it("receives changes and never writes to the manifest", async () => {
+		tn = await testnet(10);
+
+		const storeA = new Corestore(await makeTmpDir());
+		const storeB = new Corestore(await makeTmpDir());
+		const syncDirA = await makeTmpDir("pearsync-folderA-");
+		const syncDirB = await makeTmpDir("pearsync-folderB-");
+
+		const manifestA = ManifestStore.create(storeA, { bootstrap: tn.bootstrap });
+		await manifestA.ready();
+		const invite = await manifestA.createInvite({ readOnly: true });
+		const manifestB = await ManifestStore.pair(storeB, invite, { bootstrap: tn.bootstrap });
+		const put = vi.spyOn(manifestB, "put");
+
+		const engineA = new SyncEngine(storeA, syncDirA, { manifest: manifestA });
+		await engineA.ready();
+		const engineB = new SyncEngine(storeB, syncDirB, {
+			manifest: manifestB,
+			folderMode: "send-receive",
+		});
+		await engineB.ready();
+		await engineA.start();
+		await engineB.start();
+
+		expect(engineB.isReadOnly()).toBe(true);
+		expect(engineB.getFolderMode()).toBe("receive-only");
+
+		const received = waitForSync(
+			engineB,
+			(e) => e.direction === "remote-to-local" && e.path === "/shared.txt",
+			15000,
+		);
+		await writeFile(join(syncDirA, "shared.txt"), "from the writer");
+		await received;
+		expect((await readFile(join(syncDirB, "shared.txt"))).toString()).toBe("from the writer");
+
+		await writeFile(join(syncDirB, "local.txt"), "stays local");
+		await waitForCondition(() => engineB.getLocalChanges().some((c) => c.path === "/local.txt"));
+		await sleep(300);
+
+		expect(put).not.toHaveBeenCalled();
+		expect(await manifestA.get("/local.txt")).toBeNull();
+		expect((await manifestA.listPeers()).map((peer) => peer.writerKey)).toEqual([
+			manifestA.writerKey,
+		]);
+
+		await engineA.close();
+		await engineB.close();
+		await manifestA.close();
+		await manifestB.close();
+		await storeA.close();
+		await storeB.close();
+	}, 30000);
+});
+
+describe("Chunk-level delta transfer", () => {
+	it("reuses unchanged chunks and fetches only the modified one", async () => {
+		const BLOCK = 64 * 1024;
+		const writerStore = new Corestore(await makeTmpDir());
+		const writer = new FileStore(writerStore, { name: "writer" });
+		await writer.ready();
+
+		const store = new Corestore(await makeTmpDir());
+		const syncDir = await makeTmpDir("pearsync-folder-");
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const s1 = writerStore.replicate(true);
+		const s2 = store.replicate(false);
+		s1.pipe(s2).pipe(s1);
+
+		const writerKey = writer.core.key.toString("hex");
+		const toMetadata = (stored: Awaited<ReturnType<FileStore["writeFile"]>>, seq: number) =>
+			({
+				kind: "file",
+				size: stored.size,
+				mtime: Date.now(),
+				hash: stored.hash,
+				baseHash: null,
+				seq,
+				writerKey,
+				chunks: stored.chunks,
+			}) satisfies FileMetadata;
+
+		const v1 = randomBytes(BLOCK * 8);
+		const stored1 = await writer.writeFile(v1);
+		const manifest = engine.getManifest();
+		let synced = waitForSync(engine, (e) => e.path === "/disk.img");
+		await manifest.put("/disk.img", toMetadata(stored1, 1));
+		await synced;
+		expect(engine.getTransferStats()).toEqual({ bytesReused: 0, bytesFetched: v1.length });
+
+		const v2 = Buffer.from(v1);
+		v2[BLOCK + 10] ^= 0xff;
+		const stored2 = await writer.writeFile(v2);
+		synced = waitForSync(engine, (e) => e.path === "/disk.img");
+		await manifest.put("/disk.img", toMetadata(stored2, 2));
+		await synced;
+
+		expect((await readFile(join(syncDir, "disk.img"))).equals(v2)).toBe(true);
+		const v1Hashes = new Set(stored1.chunks.map((c) => c.hash));
+		const changedBytes = stored2.chunks
+			.filter((c) => !v1Hashes.has(c.hash))
+			.reduce((sum, c) => sum + c.size, 0);
+		expect(changedBytes).toBeGreaterThan(0);
+		expect(changedBytes).toBeLessThan(v2.length / 2);
+		expect(engine.getTransferStats()).toEqual({
+			bytesReused: v2.length - changedBytes,
+			bytesFetched: v1.length + changedBytes,
+		});
+
+		// A new path with known content is assembled entirely from local blocks.
+		synced = waitForSync(engine, (e) => e.path === "/copy.img");
+		await manifest.put("/copy.img", toMetadata(stored1, 1));
+		await synced;
+		expect((await readFile(join(syncDir, "copy.img"))).equals(v1)).toBe(true);
+		expect(engine.getTransferStats().bytesFetched).toBe(v1.length + changedBytes);
+
+		s1.destroy();
+		s2.destroy();
+		await engine.close();
+		await store.close();
+		await writer.close();
+		await writerStore.close();
+	});
+});
+
+describe("Transfer progress", () => {
+	it("reports a download as queued, then block by block until it is written", async () => {
+		const BLOCK = 64 * 1024;
+		const writerStore = new Corestore(await makeTmpDir());
+		const writer = new FileStore(writerStore, { name: "writer" });
+		await writer.ready();
+
+		const store = new Corestore(await makeTmpDir());
+		const syncDir = await makeTmpDir("pearsync-folder-");
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const s1 = writerStore.replicate(true);
+		const s2 = store.replicate(false);
+		s1.pipe(s2).pipe(s1);
+
+		const content = randomBytes(BLOCK * 4);
+		const stored = await writer.writeFile(content);
+		const snapshots: TransferProgress[][] = [];
+		engine.on("progress", () => snapshots.push(engine.getTransfers()));
+
+		const synced = waitForSync(engine, (e) => e.path === "/big.bin");
+		await engine.getManifest().put("/big.bin", {
+			kind: "file",
+			size: stored.size,
+			mtime: Date.now(),
+			hash: stored.hash,
+			baseHash: null,
+			seq: 1,
+			writerKey: writer.core.key.toString("hex"),
+			chunks: stored.chunks,
+		});
+		await synced;
+
+		const progress = snapshots.flat().filter((t) => t.path === "/big.bin");
+		expect(progress[0]).toMatchObject({ state: "queued", blocksDone: 0, startedAt: null });
+		const active = progress.filter((t) => t.state === "active");
+		const blocks = stored.chunks.length;
+		expect(active.map((t) => t.blocksDone)).toEqual([...Array(blocks + 1).keys()]);
+		expect(active.at(-1)).toMatchObject({
+			blocksTotal: blocks,
+			bytesDone: content.length,
+			bytesTotal: content.length,
+		});
+		expect(engine.getTransfers()).toEqual([]);
+
+		s1.destroy();
+		s2.destroy();
+		await engine.close();
+		await store.close();
+		await writer.close();
+		await writerStore.close();
+	});
+});
+
+describe("Download failures", () => {
+	it("reports a failed download, finishes the others and retries it on the next pass", async () => {
+		const writerStore = new Corestore(await makeTmpDir());
+		const writer = new FileStore(writerStore, { name: "writer" });
+		await writer.ready();
+
+		const store = new Corestore(await makeTmpDir());
+		const syncDir = await makeTmpDir("pearsync-folder-");
+		const engine = new SyncEngine(store, syncDir, { downloadConcurrency: 1 });
+		await engine.ready();
+		await engine.start();
+
+		const s1 = writerStore.replicate(true);
+		const s2 = store.replicate(false);
+		s1.pipe(s2).pipe(s1);
+
+		const writerKey = writer.core.key.toString("hex");
+		const toMetadata = (stored: Awaited<ReturnType<FileStore["writeFile"]>>) =>
+			({
+				kind: "file",
+				size: stored.size,
+				mtime: Date.now(),
+				hash: stored.hash,
+				baseHash: null,
+				seq: 1,
+				writerKey,
+				chunks: stored.chunks,
+			}) satisfies FileMetadata;
+
+		const errors: Error[] = [];
+		engine.on("error", (err: Error) => errors.push(err));
+		const manifest = engine.getManifest();
+		const bad = toMetadata(await writer.writeFile(randomBytes(1024)));
+		const good = await writer.writeFile(randomBytes(2048));
+
+		// Both land in one pass; the smaller, broken file is tried first.
+		engine.pause();
+		await manifest.put("/bad.bin", { ...bad, hash: "0".repeat(64) });
+		await manifest.put("/good.bin", toMetadata(good));
+		let synced = waitForSync(engine, (e) => e.path === "/good.bin");
+		const failed = new Promise<Error>((resolve) => engine.once("error", resolve));
+		await engine.resume();
+		await synced;
+		await failed;
+		expect(errors.map((err) => err.message)).toEqual([
+			expect.stringContaining("Failed to download /bad.bin"),
+		]);
+
+		// A later pass retries it even though its entry did not change again.
+		synced = waitForSync(engine, (e) => e.path === "/other.bin");
+		const retried = new Promise<Error>((resolve) => engine.once("error", resolve));
+		await manifest.put("/other.bin", toMetadata(good));
+		await synced;
+		expect((await retried).message).toContain("Failed to download /bad.bin");
+
+		s1.destroy();
+		s2.destroy();
+		await engine.close();
+		await store.close();
+		await writer.close();
+		await writerStore.close();
+	});
+});
+
+describe("Chunk deduplication", () => {
+	it("identical content in two files is stored once", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const content = randomBytes(256 * 1024);
+		await writeFile(join(syncDir, "a.bin"), content);
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const core = engine.getFileStore().core;
+		const lengthAfterFirst = core.length;
+		expect(lengthAfterFirst).toBeGreaterThan(0);
+
+		const synced = waitForSync(engine, (e) => e.path === "/b.bin");
+		await writeFile(join(syncDir, "b.bin"), content);
+		await synced;
+
+		expect(core.length).toBe(lengthAfterFirst);
+		const a = (await engine.getManifest().get("/a.bin")) as FileMetadata;
+		const b = (await engine.getManifest().get("/b.bin")) as FileMetadata;
+		expect(b.chunks).toEqual(a.chunks);
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("stores one contiguous run while a writer cannot read chunked entries", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const shared = randomBytes(256 * 1024);
+		await writeFile(join(syncDir, "a.bin"), shared);
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+		const manifest = engine.getManifest();
+		expect(await manifest.get(`__peer:${manifest.writerKey}`)).toMatchObject({ fileFormat: 2 });
+
+		// A writer on an older release advertises no file format.
+		const remoteKey = "c".repeat(64);
+		await manifest.put(`__peer:${remoteKey}`, {
+			kind: "peer",
+			writerKey: remoteKey,
+			name: "remote",
+			updatedAt: Date.now(),
+		});
+		await sleep(300);
+
+		const synced = waitForSync(engine, (e) => e.path === "/b.bin");
+		await writeFile(join(syncDir, "b.bin"), Buffer.concat([randomBytes(128 * 1024), shared]));
+		await synced;
+
+		const raw = JSON.parse((await manifest.autopass.get("/b.bin"))!.value);
+		expect(raw.chunkRuns).toHaveLength(1);
+		expect(raw.blocks).toEqual({ offset: raw.chunkRuns[0][1], length: raw.chunkRuns[0][2] });
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Rename detection", () => {
+	it("publishes a local rename as a move without re-storing content", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const content = randomBytes(128 * 1024);
+		await mkdir(join(syncDir, "photos"));
+		await writeFile(join(syncDir, "photos", "a.jpg"), content);
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const core = engine.getFileStore().core;
+		const lengthBefore = core.length;
+		const manifest = engine.getManifest();
+		const original = (await manifest.get("/photos/a.jpg")) as FileMetadata;
+
+		const events: SyncEvent[] = [];
+		engine.on("sync", (e: SyncEvent) => events.push(e));
+		const renamed = waitForSync(engine, (e) => e.type === "rename");
+		await rename(join(syncDir, "photos"), join(syncDir, "album"));
+		const event = await renamed;
+
+		expect(event).toEqual({
+			direction: "local-to-remote",
+			type: "rename",
+			path: "/album/a.jpg",
+			fromPath: "/photos/a.jpg",
+		});
+		const moved = (await manifest.get("/album/a.jpg")) as FileMetadata;
+		expect(moved.movedFrom).toBe("/photos/a.jpg");
+		expect(moved.chunks).toEqual(original.chunks);
+		const old = await manifest.get("/photos/a.jpg");
+		expect(old && isTombstone(old)).toBe(true);
+		expect(core.length).toBe(lengthBefore);
+
+		// The watcher's delete for the old path must not publish a second event.
+		await sleep(1500);
+		expect(events.filter((e) => e.type !== "rename")).toEqual([]);
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("applies a remote move by renaming the local file", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const manifest = engine.getManifest();
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const data = Buffer.from("holiday photo");
+		const result = await remoteCore.append(data);
+		const metadata: FileMetadata = {
+			kind: "file",
+			size: data.length,
+			mtime: Date.now(),
+			hash: createHash("sha256").update(data).digest("hex"),
+			baseHash: null,
+			seq: 1,
+			writerKey: remoteCore.key.toString("hex"),
+			blocks: { offset: result.length - 1, length: 1 },
+		};
+
+		const downloaded = waitForSync(engine, (e) => e.path === "/photos/a.jpg");
+		await manifest.put("/photos/a.jpg", metadata);
+		await downloaded;
+		await sleep(500);
+
+		const events: SyncEvent[] = [];
+		engine.on("sync", (e: SyncEvent) => events.push(e));
+		const renamed = waitForSync(engine, (e) => e.type === "rename");
+		await manifest.put("/album/a.jpg", { ...metadata, movedFrom: "/photos/a.jpg" });
+		await manifest.putTombstone("/photos/a.jpg", metadata.writerKey, {
+			baseHash: metadata.hash,
+			seq: 2,
+		});
+		const event = await renamed;
+
+		expect(event).toEqual({
+			direction: "remote-to-local",
+			type: "rename",
+			path: "/album/a.jpg",
+			fromPath: "/photos/a.jpg",
+		});
+		expect(await readFile(join(syncDir, "album", "a.jpg"), "utf-8")).toBe("holiday photo");
+		expect(existsSync(join(syncDir, "photos", "a.jpg"))).toBe(false);
+
+		// Neither the follow-up tombstone nor the watcher produce further events.
+		await sleep(1500);
+		expect(events).toEqual([event]);
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Streaming large files", () => {
+	const FILE_SIZE = 256 * 1024 * 1024;
+	const HEAP_LIMIT_MB = 64;
+
+	/** Publishes the file from one engine and downloads it into another, reporting memory use. */
+	function childScript(dirs: { source: string; target: string; storeA: string; storeB: string }) {
+		const engineModule = fileURLToPath(new URL("./sync-engine.ts", import.meta.url));
+		const utilsModule = fileURLToPath(new URL("./file-utils.ts", import.meta.url));
+		return `
+			import Corestore from "corestore";
+			import { SyncEngine } from ${JSON.stringify(engineModule)};
+			import { hashFile } from ${JSON.stringify(utilsModule)};
+			const dirs = ${JSON.stringify(dirs)};
+
+			let peakBuffers = 0;
+			const sample = () => {
+				peakBuffers = Math.max(peakBuffers, process.memoryUsage().arrayBuffers);
+			};
+			const timer = setInterval(sample, 10);
+
+			const storeA = new Corestore(dirs.storeA);
+			const a = new SyncEngine(storeA, dirs.source);
+			await a.ready();
+			await a.start();
+
+			const storeB = new Corestore(dirs.storeB);
+			const b = new SyncEngine(storeB, dirs.target);
+			await b.ready();
+			await b.start();
+			const s1 = storeA.replicate(true);
+			const s2 = storeB.replicate(false);
+			s1.pipe(s2).pipe(s1);
+
+			const entry = await a.getManifest().get("/video.bin");
+			const synced = new Promise((resolve, reject) => {
+				b.on("sync", (e) => e.path === "/video.bin" && resolve());
+				b.on("error", reject);
+			});
+			await b.getManifest().put("/video.bin", entry);
+			await synced;
+			sample();
+			clearInterval(timer);
+
+			const downloaded = await hashFile(dirs.target + "/video.bin");
+			s1.destroy();
+			s2.destroy();
+			await a.close();
+			await b.close();
+			await storeA.close();
+			await storeB.close();
+			console.log(JSON.stringify({ published: entry.hash, downloaded, peakBuffers }));
+		`;
+	}
+
+	it("syncs a file far bigger than the heap limit with bounded memory", async () => {
+		const dirs = {
+			source: await makeTmpDir("pearsync-folder-"),
+			target: await makeTmpDir("pearsync-folder-"),
+			storeA: await makeTmpDir(),
+			storeB: await makeTmpDir(),
+		};
+
+		const hasher = createHash("sha256");
+		const out = createWriteStream(join(dirs.source, "video.bin"));
+		for (let written = 0; written < FILE_SIZE; written += 1024 * 1024) {
+			const piece = randomBytes(1024 * 1024);
+			hasher.update(piece);
+			if (!out.write(piece)) await new Promise((resolve) => out.once("drain", resolve));
+		}
+		await new Promise((resolve) => out.end(resolve));
+		const expected = hasher.digest("hex");
+
+		const { stdout } = await promisify(execFile)(
+			process.execPath,
+			[
+				`--max-old-space-size=${HEAP_LIMIT_MB}`,
+				"--import",
+				"tsx",
+				"--input-type=module",
+				"-e",
+				childScript(dirs),
+			],
+			{ timeout: 240_000 },
+		);
+		const result = JSON.parse(stdout.trim().split("\n").pop()!);
+
+		expect(result.published).toBe(expected);
+		expect(result.downloaded).toBe(expected);
+		// Loading the file whole would need at least FILE_SIZE of buffers.
+		expect(result.peakBuffers).toBeLessThan(FILE_SIZE / 2);
+	}, 300_000);
+});
+
+describe("Atomic downloads", () => {
+	it("removes leftover temp files on startup", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+		await mkdir(join(syncDir, ".pearsync", "tmp"), { recursive: true });
+		await writeFile(join(syncDir, ".pearsync", "tmp", "interrupted"), "half a file");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		expect(existsSync(join(syncDir, ".pearsync", "tmp"))).toBe(false);
+		expect(await engine.getManifest().list()).not.toContainEqual(
+			expect.objectContaining({ path: "/.pearsync/tmp/interrupted" }),
+		);
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("never places content that does not match the manifest hash", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const result = await remoteCore.append(Buffer.from("tampered content"));
+
+		const failed = new Promise<Error>((resolve) => engine.once("error", resolve));
+		await engine.getManifest().put("/doc.txt", {
+			kind: "file",
+			size: 16,
+			mtime: Date.now(),
+			hash: createHash("sha256").update("original content").digest("hex"),
+			baseHash: null,
+			seq: 1,
+			writerKey: remoteCore.key.toString("hex"),
+			blocks: { offset: result.length - 1, length: 1 },
+		});
+
+		expect((await failed).message).toMatch(/does not match the manifest hash/);
+		expect(existsSync(join(syncDir, "doc.txt"))).toBe(false);
+		expect(await readdir(join(syncDir, ".pearsync", "tmp"))).toEqual([]);
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("replaces an existing file in one step", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const writerKey = remoteCore.key.toString("hex");
+		const putRemote = async (data: Buffer, seq: number) => {
+			const result = await remoteCore.append(data);
+			await engine.getManifest().put("/big.bin", {
+				kind: "file",
+				size: data.length,
+				mtime: Date.now(),
+				hash: createHash("sha256").update(data).digest("hex"),
+				baseHash: null,
+				seq,
+				writerKey,
+				blocks: { offset: result.length - 1, length: 1 },
+			});
+		};
+
+		const v1 = randomBytes(4 * 1024 * 1024);
+		let synced = waitForSync(engine, (e) => e.path === "/big.bin");
+		await putRemote(v1, 1);
+		await synced;
+		await sleep(500);
+
+		// Every read during the update sees either the old or the new content in full.
+		const v2 = randomBytes(4 * 1024 * 1024);
+		const seen = new Set<string>();
+		let polling = true;
+		const poller = (async () => {
+			while (polling) {
+				seen.add(hashBuffer(await readFile(join(syncDir, "big.bin"))));
+				await sleep(1);
+			}
+		})();
+		synced = waitForSync(engine, (e) => e.path === "/big.bin");
+		await putRemote(v2, 2);
+		await synced;
+		polling = false;
+		await poller;
+
+		const allowed = new Set([hashBuffer(v1), hashBuffer(v2)]);
+		expect([...seen].every((hash) => allowed.has(hash))).toBe(true);
+		expect((await readFile(join(syncDir, "big.bin"))).equals(v2)).toBe(true);
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Version history", () => {
+	it("restores an old revision as a new revision on top of the current one", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { renameWindowMs: 0 });
+		await engine.ready();
+		await engine.start();
+
+		const uploaded = (path: string) =>
+			waitForSync(engine, (e) => e.path === path && e.direction === "local-to-remote");
+		let synced = uploaded("/notes.txt");
+		await writeFile(join(syncDir, "notes.txt"), "first draft");
+		await synced;
+		synced = uploaded("/notes.txt");
+		await writeFile(join(syncDir, "notes.txt"), "second draft");
+		await synced;
+		synced = uploaded("/notes.txt");
+		await unlink(join(syncDir, "notes.txt"));
+		await synced;
+
+		const history = await engine.getFileHistory("/notes.txt");
+		expect(history.map((r) => r.entry.seq)).toEqual([3, 2, 1]);
+		expect(isTombstone(history[0].entry)).toBe(true);
+		const first = history[2].entry as FileMetadata;
+
+		await expect(
+			engine.restoreRevision("/notes.txt", { seq: 3, writerKey: history[0].entry.writerKey }),
+		).rejects.toThrow("is a deletion");
+
+		const restored = await engine.restoreRevision("/notes.txt", {
+			seq: 1,
+			writerKey: first.writerKey,
+		});
+		expect(restored.seq).toBe(4);
+		expect(restored.hash).toBe(first.hash);
+		expect(restored.baseHash).toBe((history[1].entry as FileMetadata).hash);
+		expect(await readFile(join(syncDir, "notes.txt"), "utf-8")).toBe("first draft");
+		expect(await engine.getManifest().get("/notes.txt")).toEqual(restored);
+		expect((await engine.getFileHistory("/notes.txt")).map((r) => r.entry.seq)).toEqual([
+			4, 3, 2, 1,
+		]);
+
+		// The restore's own write to disk must not be re-published.
+		await sleep(500);
+		expect((await engine.getFileHistory("/notes.txt")).length).toBe(4);
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Trash", () => {
+	it("keeps remotely deleted and overwritten files and restores them", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir);
+		await engine.ready();
+		await engine.start();
+
+		let synced = waitForSync(engine, (e) => e.path === "/report.txt");
+		await writeFile(join(syncDir, "report.txt"), "my report");
+		await synced;
+
+		// A remote peer overwrites the file...
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const remoteData = Buffer.from("their report");
+		const result = await remoteCore.append(remoteData);
+		const local = (await engine.getManifest().get("/report.txt")) as FileMetadata;
+		synced = waitForSync(engine, (e) => e.direction === "remote-to-local");
+		await engine.getManifest().put("/report.txt", {
+			kind: "file",
+			size: remoteData.length,
+			mtime: Date.now(),
+			hash: hashBuffer(remoteData),
+			baseHash: local.hash,
+			seq: local.seq + 1,
+			writerKey: remoteCore.key.toString("hex"),
+			blocks: { offset: result.length - 1, length: 1 },
+		});
+		await synced;
+		expect(await readFile(join(syncDir, "report.txt"), "utf-8")).toBe("their report");
+
+		// ...and then deletes it.
+		synced = waitForSync(engine, (e) => e.type === "delete");
+		await engine.getManifest().putTombstone("/report.txt", remoteCore.key.toString("hex"));
+		await synced;
+		expect(existsSync(join(syncDir, "report.txt"))).toBe(false);
+
+		const [deleted, overwritten] = engine.getTrash();
+		expect(deleted).toMatchObject({ path: "/report.txt", cause: "remote-delete", size: 12 });
+		expect(overwritten).toMatchObject({ path: "/report.txt", cause: "remote-overwrite", size: 9 });
+
+		// Restoring puts the bytes back and publishes them as a local change.
+		synced = waitForSync(engine, (e) => e.direction === "local-to-remote");
+		await engine.restoreFromTrash(overwritten.id);
+		await synced;
+		expect(await readFile(join(syncDir, "report.txt"), "utf-8")).toBe("my report");
+		expect(engine.getTrash().map((entry) => entry.id)).toEqual([deleted.id]);
+		const restored = await engine.getManifest().get("/report.txt");
+		expect(restored && isFileMetadata(restored) && restored.hash).toBe(
+			hashBuffer(Buffer.from("my report")),
+		);
+
+		await expect(engine.restoreFromTrash(overwritten.id)).rejects.toThrow("No trash entry");
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Garbage collection", () => {
+	it("clears blocks of superseded versions once they leave retention and the grace period", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, {
+			historyRetentionMs: 0,
+			gcIntervalMs: 0,
+			gcGraceMs: 200,
+		});
+		await engine.ready();
+		await engine.start();
+
+		const v1 = randomBytes(200 * 1024);
+		const v2 = randomBytes(150 * 1024);
+		let synced = waitForSync(engine, (e) => e.path === "/data.bin");
+		await writeFile(join(syncDir, "data.bin"), v1);
+		await synced;
+		const first = (await engine.getManifest().get("/data.bin")) as FileMetadata;
+		synced = waitForSync(engine, (e) => e.path === "/data.bin");
+		await writeFile(join(syncDir, "data.bin"), v2);
+		await synced;
+
+		// The first run drops v1 from the history and only marks its blocks; they are cleared
+		// after the grace period.
+		const marked = await engine.collectGarbage();
+		expect(marked.clearedBlocks).toBe(0);
+		expect(marked.pendingBlocks).toBe(first.chunks!.length);
+		expect((await engine.getManifest().getHistory("/data.bin")).map((r) => r.entry.seq)).toEqual([
+			2,
+		]);
+
+		await sleep(250);
+		const swept = await engine.collectGarbage();
+		expect(swept.clearedBlocks).toBe(first.chunks!.length);
+		expect(swept.reclaimedBytes).toBe(v1.length);
+		expect(swept.pendingBlocks).toBe(0);
+
+		const stats = await engine.getStorageStats();
+		expect(stats.referencedBytes).toBe(v2.length);
+		expect(stats.reclaimedBytes).toBe(v1.length);
+		expect(stats.lastGc).toEqual(swept);
+
+		expect((await readFile(join(syncDir, "data.bin"))).equals(v2)).toBe(true);
+		await expect(
+			engine.restoreRevision("/data.bin", { seq: first.seq, writerKey: first.writerKey }),
+		).rejects.toThrow("No revision");
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("keeps only the newest superseded revisions of each path", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, {
+			historyMaxRevisions: 1,
+			gcIntervalMs: 0,
+			gcGraceMs: 0,
+		});
+		await engine.ready();
+		await engine.start();
+
+		const versions = [randomBytes(100 * 1024), randomBytes(110 * 1024), randomBytes(120 * 1024)];
+		for (const content of versions) {
+			const synced = waitForSync(engine, (e) => e.path === "/data.bin");
+			await writeFile(join(syncDir, "data.bin"), content);
+			await synced;
+		}
+
+		const swept = await engine.collectGarbage();
+		expect(swept.reclaimedBytes).toBe(versions[0].length);
+		const history = await engine.getManifest().getHistory("/data.bin");
+		expect(history.map((revision) => revision.entry.seq)).toEqual([3, 2]);
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Tombstone expiry", () => {
+	it("purges expired tombstones once every recently seen peer has acknowledged them", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, {
+			renameWindowMs: 0,
+			gcIntervalMs: 0,
+			tombstoneRetentionMs: 500,
+		});
+		await engine.ready();
+		await engine.start();
+		const manifest = engine.getManifest();
+
+		const remoteKey = "c".repeat(64);
+		const putRemotePeer = (watermark: number, updatedAt = Date.now()) =>
+			manifest.put(`__peer:${remoteKey}`, {
+				kind: "peer",
+				writerKey: remoteKey,
+				name: "remote",
+				updatedAt,
+				watermark,
+			});
+		await putRemotePeer(0);
+
+		let synced = waitForSync(engine, (e) => e.path === "/old.txt");
+		await writeFile(join(syncDir, "old.txt"), "soon deleted");
+		await synced;
+		synced = waitForSync(engine, (e) => e.path === "/old.txt" && e.type === "delete");
+		await unlink(join(syncDir, "old.txt"));
+		await synced;
+		const tombstone = (await manifest.get("/old.txt")) as TombstoneMetadata;
+		expect(isTombstone(tombstone)).toBe(true);
+
+		// Our own entry acknowledges the tombstone right away.
+		await waitUntil(manifest, async () => {
+			const self = await manifest.get(`__peer:${manifest.writerKey}`);
+			return self?.kind === "peer" && self.watermark === tombstone.mtime;
+		});
+
+		// Past the retention period, the remote peer still holds it back...
+		await sleep(600);
+		await putRemotePeer(0);
+		await sleep(300);
+		expect(await manifest.get("/old.txt")).toEqual(tombstone);
+
+		// ...until it acknowledges it.
+		await putRemotePeer(tombstone.mtime);
+		await waitUntil(manifest, async () => (await manifest.get("/old.txt")) === null);
+		const revisions = await manifest.listRevisions();
+		expect(revisions.filter((revision) => revision.path === "/old.txt")).toEqual([]);
+
+		await engine.close();
+		await store.close();
+	});
+
+	it("runs a full reconciliation after being away longer than the retention period", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const manifest = ManifestStore.create(store, { replicate: false });
+		await manifest.ready();
+		const engine = new SyncEngine(store, syncDir, {
+			manifest,
+			gcIntervalMs: 0,
+			tombstoneRetentionMs: 60_000,
+		});
+		await engine.ready();
+		await engine.start();
+
+		for (const name of ["kept.txt", "gone.txt", "edited.txt"]) {
+			const synced = waitForSync(engine, (e) => e.path === `/${name}`);
+			await writeFile(join(syncDir, name), `${name} v1`);
+			await synced;
+		}
+		await sleep(200);
+		await engine.stop();
+
+		// While we were away, the other peers deleted two files and purged the tombstones.
+		await manifest.remove("/gone.txt");
+		await manifest.remove("/edited.txt");
+		await writeFile(join(syncDir, "edited.txt"), "edited.txt v2");
+		const self = await manifest.get(`__peer:${manifest.writerKey}`);
+		await manifest.put(`__peer:${manifest.writerKey}`, {
+			...self!,
+			updatedAt: Date.now() - 120_000,
+		} as ManifestValue);
+
+		await engine.start();
+
+		expect(existsSync(join(syncDir, "gone.txt"))).toBe(false);
+		expect(engine.getTrash().map((entry) => entry.path)).toEqual(["/gone.txt"]);
+		expect(await manifest.get("/gone.txt")).toBeNull();
+		// An edit made while away wins over the purged deletion.
+		const edited = await manifest.get("/edited.txt");
+		expect(edited && isFileMetadata(edited) && edited.hash).toBe(
+			hashBuffer(Buffer.from("edited.txt v2")),
+		);
+		expect(await readFile(join(syncDir, "kept.txt"), "utf-8")).toBe("kept.txt v1");
+		const refreshed = await manifest.get(`__peer:${manifest.writerKey}`);
+		expect(refreshed?.kind === "peer" && Date.now() - refreshed.updatedAt).toBeLessThan(60_000);
+
+		await engine.close();
+		await manifest.close();
+		await store.close();
+	});
+});
+
+describe("Incremental remote processing", () => {
+	it("handles only entries changed since the last checkpoint, including across restarts", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const manifest = ManifestStore.create(store, { replicate: false });
+		await manifest.ready();
+		const engine = new SyncEngine(store, syncDir, { manifest, gcIntervalMs: 0 });
+		await engine.ready();
+		await engine.start();
+
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const putRemote = async (path: string, content: string) => {
+			const data = Buffer.from(content);
+			const result = await remoteCore.append(data);
+			await manifest.put(path, {
+				kind: "file",
+				size: data.length,
+				mtime: Date.now(),
+				hash: hashBuffer(data),
+				baseHash: null,
+				seq: 1,
+				writerKey: remoteCore.key.toString("hex"),
+				blocks: { offset: result.length - 1, length: 1 },
+			});
+		};
+
+		const list = vi.spyOn(manifest, "list");
+		const changesSince = vi.spyOn(manifest, "changesSince");
+		let synced = waitForSync(engine, (e) => e.path === "/a.txt");
+		await putRemote("/a.txt", "first");
+		await synced;
+		expect(list).not.toHaveBeenCalled();
+		const live: ManifestChange[] | null = await changesSince.mock.results.at(-1)?.value;
+		expect(live?.map((change) => change.path)).toEqual(["/a.txt"]);
+
+		await engine.stop();
+		await putRemote("/b.txt", "second");
+		changesSince.mockClear();
+		synced = waitForSync(engine, (e) => e.path === "/b.txt");
+		await engine.start();
+		await synced;
+		const resumed: ManifestChange[] | null = await changesSince.mock.results[0]?.value;
+		expect(resumed?.map((change) => change.path)).toEqual(["/b.txt"]);
+		expect(await readFile(join(syncDir, "a.txt"), "utf-8")).toBe("first");
+		expect(await readFile(join(syncDir, "b.txt"), "utf-8")).toBe("second");
+
+		await engine.close();
+		await manifest.close();
+		await store.close();
+	});
+});
+
+describe("Watcher settling", () => {
+	it("publishes a file once it stops changing, and never its temp file", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { settleWindowMs: 400 });
+		await engine.ready();
+		await engine.start();
+		const manifest = engine.getManifest();
+
+		const events: SyncEvent[] = [];
+		engine.on("sync", (e: SyncEvent) => events.push(e));
+
+		// A slow writer: the file grows for well over the settle window.
+		const path = join(syncDir, "download.bin");
+		for (let i = 0; i < 8; i++) {
+			await writeFile(path, `part-${i}\n`, { flag: "a" });
+			await sleep(150);
+		}
+		// An editor-style save: write a temp file, then rename it over the real one.
+		await writeFile(join(syncDir, "notes.txt.tmp"), "draft");
+		await rename(join(syncDir, "notes.txt.tmp"), join(syncDir, "notes.txt"));
+		// A file that is created and deleted again before it settles.
+		await writeFile(join(syncDir, "scratch.txt"), "gone soon");
+		await unlink(join(syncDir, "scratch.txt"));
+
+		await waitForCondition(async () => (await manifest.get("/notes.txt")) !== null);
+		await waitForCondition(async () => (await manifest.get("/download.bin")) !== null);
+		await sleep(1000);
+
+		const expected = Array.from({ length: 8 }, (_, i) => `part-${i}\n`).join("");
+		const download = (await manifest.get("/download.bin")) as FileMetadata;
+		expect(download.hash).toBe(hashBuffer(Buffer.from(expected)));
+		expect(download.seq).toBe(1);
+		expect(await manifest.get("/notes.txt.tmp")).toBeNull();
+		expect(await manifest.get("/scratch.txt")).toBeNull();
+		expect(events.map((e) => `${e.type} ${e.path}`).sort()).toEqual([
+			"update /download.bin",
+			"update /notes.txt",
+		]);
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Periodic rescan", () => {
+	it("publishes changes the watcher missed and reports them as an audit event", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, "edited.txt"), "v1");
+		await writeFile(join(syncDir, "removed.txt"), "soon gone");
+		await writeFile(join(syncDir, "same.txt"), "unchanged");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { renameWindowMs: 0, rescanIntervalMs: 0 });
+		await engine.ready();
+		await engine.start();
+		const manifest = engine.getManifest();
+
+		// Simulate an event overflow: the watcher never reports these changes.
+		(engine as unknown as { onWatcherChange: () => void }).onWatcherChange = () => {};
+		await writeFile(join(syncDir, "edited.txt"), "v2");
+		await unlink(join(syncDir, "removed.txt"));
+		await writeFile(join(syncDir, "added.txt"), "new");
+		await sleep(300);
+		expect(await manifest.get("/added.txt")).toBeNull();
+
+		const audits: unknown[] = [];
+		engine.on("audit", (event) => audits.push(event));
+		const result = await engine.rescan();
+		expect(result).toMatchObject({ kind: "rescan", scannedFiles: 3, discrepancies: 3 });
+		expect(audits).toEqual([result]);
+
+		const edited = (await manifest.get("/edited.txt")) as FileMetadata;
+		expect(edited.hash).toBe(hashBuffer(Buffer.from("v2")));
+		expect((await manifest.get("/added.txt")) as FileMetadata).toMatchObject({ seq: 1 });
+		const removed = await manifest.get("/removed.txt");
+		expect(removed && isTombstone(removed)).toBe(true);
+
+		expect(await engine.rescan()).toMatchObject({ scannedFiles: 3, discrepancies: 0 });
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Pause and resume", () => {
+	it("holds back local and remote changes while paused and applies them on resume", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+
+		await writeFile(join(syncDir, "shared.txt"), "base");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { settleWindowMs: 100 });
+		await engine.ready();
+		await engine.start();
+		const manifest = engine.getManifest();
+		const base = (await manifest.get("/shared.txt")) as FileMetadata;
+
+		engine.pause();
+		expect(engine.isPaused()).toBe(true);
+
+		// A remote peer edits shared.txt while we edit it locally and add a file.
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const remoteData = Buffer.from("remote edit");
+		const appended = await remoteCore.append(remoteData);
+		await manifest.put("/shared.txt", {
+			kind: "file",
+			size: remoteData.length,
+			mtime: Date.now(),
+			hash: hashBuffer(remoteData),
+			baseHash: base.hash,
+			seq: base.seq + 1,
+			writerKey: remoteCore.key.toString("hex"),
+			blocks: { offset: appended.length - 1, length: 1 },
+		});
+		await writeFile(join(syncDir, "shared.txt"), "local edit");
+		await writeFile(join(syncDir, "added.txt"), "new");
+		await sleep(800);
+
+		expect(await manifest.get("/added.txt")).toBeNull();
+		expect((await readFile(join(syncDir, "shared.txt"))).toString()).toBe("local edit");
+
+		const events: SyncEvent[] = [];
+		engine.on("sync", (e: SyncEvent) => events.push(e));
+		await engine.resume();
+		expect(engine.isPaused()).toBe(false);
+
+		// Remote changes are applied first, so the local edit becomes a conflict copy.
+		expect((await readFile(join(syncDir, "shared.txt"))).toString()).toBe("remote edit");
+		const conflict = events.find((e) => e.type === "conflict");
+		expect(conflict?.path).toBe("/shared.txt");
+		expect((await readFile(join(syncDir, conflict!.conflictPath!.slice(1)))).toString()).toBe(
+			"local edit",
+		);
+		expect(await manifest.get("/added.txt")).not.toBeNull();
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("Selective sync", () => {
+	it("leaves excluded subtrees unmaterialised without touching their manifest entries", async () => {
+		const storeDir = await makeTmpDir();
+		const syncDir = await makeTmpDir("pearsync-folder-");
+		await mkdir(join(syncDir, "media"));
+		await mkdir(join(syncDir, "docs"));
+		await writeFile(join(syncDir, "media", "clip.bin"), "clip");
+		await writeFile(join(syncDir, "media", "edited.bin"), "original");
+		await writeFile(join(syncDir, "docs", "a.txt"), "a");
+
+		const store = new Corestore(storeDir);
+		const engine = new SyncEngine(store, syncDir, { settleWindowMs: 0 });
+		await engine.ready();
+		await engine.start();
+		const manifest = engine.getManifest();
+		const clip = await manifest.get("/media/clip.bin");
+		const edited = await manifest.get("/media/edited.bin");
+
+		// Unchanged copies go and unpublished edits stay; the manifest keeps every entry.
+		engine.pause();
+		await writeFile(join(syncDir, "media", "edited.bin"), "edited");
+		expect(await engine.setSelectiveSync(["/media/", "/media/sub"])).toEqual(["/media"]);
+		await engine.resume();
+		expect(existsSync(join(syncDir, "media", "clip.bin"))).toBe(false);
+		expect(existsSync(join(syncDir, "media", "edited.bin"))).toBe(true);
+		expect(await manifest.get("/media/clip.bin")).toEqual(clip);
+
+		// A local delete inside an excluded subtree is not published as a tombstone.
+		await unlink(join(syncDir, "media", "edited.bin"));
+		await writeFile(join(syncDir, "media", "local.txt"), "local");
+		await sleep(500);
+		expect(await manifest.get("/media/edited.bin")).toEqual(edited);
+		expect(await manifest.get("/media/local.txt")).toBeNull();
+
+		// Remote changes under the excluded subtree are skipped, others applied.
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const putRemote = async (path: string, content: string) => {
+			const data = Buffer.from(content);
+			const appended = await remoteCore.append(data);
+			await manifest.put(path, {
+				kind: "file",
+				size: data.length,
+				mtime: Date.now(),
+				hash: hashBuffer(data),
+				baseHash: null,
+				seq: 1,
+				writerKey: remoteCore.key.toString("hex"),
+				blocks: { offset: appended.length - 1, length: 1 },
+			});
+		};
+		const synced = waitForSync(engine, (e) => e.path === "/docs/b.txt");
+		await putRemote("/media/new.bin", "new");
+		await putRemote("/docs/b.txt", "b");
+		await synced;
+		expect(existsSync(join(syncDir, "media", "new.bin"))).toBe(false);
+
+		// Including the subtree again downloads it.
+		await engine.setSelectiveSync([]);
+		await waitForCondition(() => existsSync(join(syncDir, "media", "new.bin")));
+		expect((await readFile(join(syncDir, "media", "clip.bin"))).toString()).toBe("clip");
+
+		await engine.close();
+		await store.close();
+	});
+});
+
+describe("On-demand files", () => {
+	it("keeps remote files as placeholders until hydrated and evicts without a tombstone", async () => {
+		const store = new Corestore(await makeTmpDir());
+		const syncDir = await makeTmpDir("pearsync-folder-");
+		const engine = new SyncEngine(store, syncDir, { onDemand: true, settleWindowMs: 0 });
+		await engine.ready();
+		await engine.start();
+		const manifest = engine.getManifest();
+
+		const remoteCore = store.get({ name: "remote-peer-data" });
+		await remoteCore.ready();
+		const data = Buffer.from("remote report");
+		const appended = await remoteCore.append(data);
+		await manifest.put("/docs/report.txt", {
+			kind: "file",
+			size: data.length,
+			mtime: Date.now(),
+			hash: hashBuffer(data),
+			baseHash: null,
+			seq: 1,
+			writerKey: remoteCore.key.toString("hex"),
+			blocks: { offset: appended.length - 1, length: 1 },
+		});
+		const stub = join(syncDir, "docs", "report.txt.pearsync-placeholder");
+		await waitForCondition(() => existsSync(stub));
+		expect(JSON.parse(await readFile(stub, "utf-8"))).toMatchObject({
+			path: "/docs/report.txt",
+			size: data.length,
+			hash: hashBuffer(data),
+		});
+		expect(existsSync(join(syncDir, "docs", "report.txt"))).toBe(false);
+		expect(engine.isHydrated("/docs/report.txt")).toBe(false);
+
+		await engine.hydrate("/docs/report.txt");
+		expect((await readFile(join(syncDir, "docs", "report.txt"))).toString()).toBe("remote report");
+		expect(existsSync(stub)).toBe(false);
+		expect(engine.isHydrated("/docs/report.txt")).toBe(true);
+
+		const entry = await manifest.get("/docs/report.txt");
+		await engine.evict("/docs/report.txt");
+		await sleep(500);
+		expect(existsSync(join(syncDir, "docs", "report.txt"))).toBe(false);
+		expect(existsSync(stub)).toBe(true);
+		expect(await manifest.get("/docs/report.txt")).toEqual(entry);
+
+		// A remote delete removes the placeholder.
+		await manifest.putTombstone("/docs/report.txt", remoteCore.key.toString("hex"), {
+			baseHash: hashBuffer(data),
+			seq: 2,
+		});
+		await waitForCondition(() => !existsSync(stub));
+
+		await engine.close();
+		await store.close();
+	});
+});
@@ -0,0 +1,66 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { TrashStore } from "./trash-store";
+
+let tmpDirs: string[] = [];
+
+async function makeTmpDir(prefix = "pearsync-trash-test-"): Promise<string> {
+	const dir = await mkdtemp(join(tmpdir(), prefix));
+	tmpDirs.push(dir);
+	return dir;
+}
+
+afterEach(async () => {
+	for (const dir of tmpDirs) {
+		await rm(dir, { recursive: true, force: true });
+	}
+	tmpDirs = [];
+});
+
+describe("TrashStore", () => {
+	it("keeps a file's content and remembers it across loads", async () => {
+		const syncDir = await makeTmpDir();
+		await writeFile(join(syncDir, "notes.txt"), "old content");
+
+		const trash = new TrashStore(syncDir);
+		await trash.load();
+		const entry = await trash.add(join(syncDir, "notes.txt"), "/notes.txt", "remote-overwrite");
+		// The original stays in place for the caller to delete or replace.
+		expect(await readFile(join(syncDir, "notes.txt"), "utf-8")).toBe("old content");
+		await rm(join(syncDir, "notes.txt"));
+
+		const reloaded = new TrashStore(syncDir);
+		await reloaded.load();
+		expect(reloaded.list()).toEqual([entry]);
+		expect(entry).toMatchObject({ path: "/notes.txt", cause: "remote-overwrite", size: 11 });
+		expect(await readFile(reloaded.filePath(entry.id), "utf-8")).toBe("old content");
+	});
+
+	it("purges entries past the age limit and the oldest ones over the size limit", async () => {
+		const syncDir = await makeTmpDir();
+		for (const name of ["a", "b", "c"]) {
+			await writeFile(join(syncDir, name), "x".repeat(10));
+		}
+
+		const trash = new TrashStore(syncDir, { maxAgeMs: 60_000, maxBytes: 20 });
+		await trash.load();
+		const a = await trash.add(join(syncDir, "a"), "/a", "remote-delete");
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const b = await trash.add(join(syncDir, "b"), "/b", "remote-delete");
+		await trash.prune(Date.now() + 1);
+		expect(trash.list().map((e) => e.id)).toEqual([b.id, a.id]);
+
+		// A third 10-byte entry pushes the total over 20 bytes; the oldest goes.
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const c = await trash.add(join(syncDir, "c"), "/c", "remote-delete");
+		expect(trash.list().map((e) => e.id)).toEqual([c.id, b.id]);
+		expect(existsSync(trash.filePath(a.id))).toBe(false);
+
+		await trash.prune(Date.now() + 120_000);
+		expect(trash.list()).toEqual([]);
+		expect(existsSync(trash.filePath(c.id))).toBe(false);
+	});
+});
@@ -0,0 +1,164 @@
+import { randomBytes } from "node:crypto";
+import { copyFile, link, mkdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** Why a file's previous local bytes were moved to the trash. */
+export type TrashCause = "remote-delete" | "remote-overwrite" | "restore";
+
+export interface TrashEntry {
+	id: string;
+	/** Original path in the sync folder */
+	path: string;
+	/** When the file was moved to the trash (ms since epoch) */
+	trashedAt: number;
+	cause: TrashCause;
+	size: number;
+}
+
+export interface TrashRetention {
+	/** Entries older than this are purged. Default: 30 days */
+	maxAgeMs?: number;
+	/** The oldest entries are purged while the trash holds more than this. Default: 1 GiB */
+	maxBytes?: number;
+}
+
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 1024 * 1024 * 1024;
+
+const causes: TrashCause[] = ["remote-delete", "remote-overwrite", "restore"];
+
+/**
+ * Previous versions of files that sync removed or replaced, kept in `.pearsync/trash/`.
+ * Each file is stored under a random id; `index.json` records its original path,
+ * timestamp and cause.
+ */
+export class TrashStore {
+	private entries: Map<string, TrashEntry> = new Map();
+	private dir: string;
+	private indexPath: string;
+	private retention: TrashRetention;
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(syncFolder: string, retention?: TrashRetention) {
+		this.dir = join(syncFolder, ".pearsync", "trash");
+		this.indexPath = join(this.dir, "index.json");
+		this.retention = retention ?? {};
+	}
+
+	/** Load the index, forget entries whose file is gone, and apply retention. */
+	async load(): Promise<void> {
+		this.entries = new Map();
+		let raw: unknown = [];
+		try {
+			raw = JSON.parse(await readFile(this.indexPath, "utf-8")) as unknown;
+		} catch (err: unknown) {
+			if (!(err instanceof SyntaxError) && (err as NodeJS.ErrnoException).code !== "ENOENT") {
+				throw err;
+			}
+		}
+
+		for (const value of Array.isArray(raw) ? raw : []) {
+			const entry = this.parseEntry(value);
+			if (!entry) continue;
+			try {
+				await stat(this.filePath(entry.id));
+			} catch {
+				continue;
+			}
+			this.entries.set(entry.id, entry);
+		}
+		await this.prune();
+	}
+
+	/** All entries, most recently trashed first. */
+	list(): TrashEntry[] {
+		return [...this.entries.values()].sort((a, b) => b.trashedAt - a.trashedAt);
+	}
+
+	get(id: string): TrashEntry | undefined {
+		return this.entries.get(id);
+	}
+
+	/** Where the content of a trash entry is stored on disk. */
+	filePath(id: string): string {
+		return join(this.dir, id);
+	}
+
+	/**
+	 * Keep the current content of the file at `absPath`. The file is hard-linked (or copied
+	 * where links are unsupported) and left in place for the caller to delete or atomically
+	 * replace.
+	 */
+	async add(absPath: string, path: string, cause: TrashCause): Promise<TrashEntry> {
+		await mkdir(this.dir, { recursive: true });
+		const id = randomBytes(8).toString("hex");
+		const target = this.filePath(id);
+		try {
+			await link(absPath, target);
+		} catch {
+			await copyFile(absPath, target);
+		}
+
+		const { size } = await stat(target);
+		const entry: TrashEntry = { id, path, trashedAt: Date.now(), cause, size };
+		this.entries.set(id, entry);
+		await this.prune();
+		return entry;
+	}
+
+	/** Forget an entry whose file the caller has moved out of the trash. */
+	async forget(id: string): Promise<void> {
+		this.entries.delete(id);
+		await this.persist();
+	}
+
+	/** Purge entries past the age limit, then the oldest ones until the size limit is met. */
+	async prune(now = Date.now()): Promise<void> {
+		const maxAgeMs = this.retention.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+		const maxBytes = this.retention.maxBytes ?? DEFAULT_MAX_BYTES;
+
+		const newestFirst = this.list();
+		let total = 0;
+		for (const entry of newestFirst) {
+			total += entry.size;
+			if (now - entry.trashedAt > maxAgeMs || total > maxBytes) {
+				this.entries.delete(entry.id);
+				await rm(this.filePath(entry.id), { force: true });
+			}
+		}
+		await this.persist();
+	}
+
+	/** Atomic write of the index, serialized via queue. */
+	private persist(): Promise<void> {
+		this.writeQueue = this.writeQueue.then(async () => {
+			await mkdir(this.dir, { recursive: true });
+			const tmpPath = `${this.indexPath}.${randomBytes(4).toString("hex")}.tmp`;
+			await writeFile(tmpPath, JSON.stringify(this.list(), null, 2));
+			await rename(tmpPath, this.indexPath);
+		});
+		return this.writeQueue;
+	}
+
+	private parseEntry(value: unknown): TrashEntry | null {
+		if (typeof value !== "object" || value === null) return null;
+		const entry = value as Record<string, unknown>;
+		if (
+			typeof entry.id !== "string" ||
+			!/^[0-9a-f]+$/.test(entry.id) ||
+			typeof entry.path !== "string" ||
+			typeof entry.trashedAt !== "number" ||
+			typeof entry.size !== "number" ||
+			!causes.includes(entry.cause as TrashCause)
+		) {
+			return null;
+		}
+		return {
+			id: entry.id,
+			path: entry.path,
+			trashedAt: entry.trashedAt,
+			cause: entry.cause as TrashCause,
+			size: entry.size,
+		};
+	}
+}
@@ -14,6 +14,10 @@ declare module "corestore" {
     append(data: Buffer | Buffer[]): Promise<{ length: number; byteLength: number }>;
     get(index: number, options?: { wait?: boolean }): Promise<Buffer | null>;
     has(index: number): Promise<boolean>;
+    clear(start: number, end?: number): Promise<unknown>;
+    /** Fetch a block range from peers in the background, until done or destroyed */
+    download(range: { start: number; end: number }): { done(): Promise<void>; destroy(): void };
+    treeHash(length?: number): Promise<Buffer>;
     close(): Promise<void>;
   }
 
@@ -33,6 +37,7 @@ declare module "corestore" {
 declare module "autopass" {
   import type { EventEmitter } from "node:events";
   import type Corestore from "corestore";
+  import type { Hypercore } from "corestore";
 
   interface AutopassOptions {
     replicate?: boolean;
@@ -58,8 +63,29 @@ declare module "autopass" {
 
   interface AutobaseSystem {
     members: number;
+    /** Membership of a writer core, or null if it was never added */
+    get(key: Buffer): Promise<{ isRemoved: boolean; isIndexer: boolean; length: number } | null>;
   }
 
+  interface AutobaseView {
+    find(
+      collection: string,
+      query?: {
+        gt?: { key: string };
+        gte?: { key: string };
+        lt?: { key: string };
+        lte?: { key: string };
+      },
+    ): AutopassListStream;
+    /** History of the view, one change per Hyperbee node (`seq` is the node's block index) */
+    changes(range?: { gte?: number; lt?: number }): AsyncIterable<AutobaseViewChange>;
+    core: Hypercore;
+  }
+
+  type AutobaseViewChange =
+    | { type: "insert"; seq: number; collection: string; value: AutopassRecord }
+    | { type: "delete"; seq: number; collection: string; value: { key: string } };
+
   interface Autobase {
     writable: boolean;
     key: Buffer;
@@ -67,6 +93,8 @@ declare module "autopass" {
     encryptionKey: Buffer;
     local: { key: Buffer };
     system: AutobaseSystem;
+    view: AutobaseView;
+    append(value: Buffer | Buffer[]): Promise<void>;
     replicate(connection: unknown): void;
     ready(): Promise<void>;
     close(): Promise<void>;
@@ -79,6 +107,23 @@ declare module "autopass" {
     [Symbol.asyncIterator](): AsyncIterableIterator<AutopassRecord>;
   }
 
+  /** A Hyperswarm connection (`@hyperswarm/secret-stream`, a streamx duplex) */
+  export interface SwarmConnection {
+    remotePublicKey: Buffer;
+    rawBytesRead: number;
+    rawBytesWritten: number;
+    cork(): void;
+    uncork(): void;
+    once(event: "close", listener: () => void): this;
+  }
+
+  interface Hyperswarm {
+    keyPair: { publicKey: Buffer; secretKey: Buffer };
+    connections: Set<SwarmConnection>;
+    on(event: "connection", listener: (connection: SwarmConnection) => void): this;
+    off(event: "connection", listener: (connection: SwarmConnection) => void): this;
+  }
+
   interface AutopassPairer {
     finished(): Promise<Autopass>;
     close(): Promise<void>;
@@ -89,6 +134,8 @@ declare module "autopass" {
 
     store: Corestore;
     base: Autobase;
+    /** Null until replication starts, and when created with `replicate: false` */
+    swarm: Hyperswarm | null;
 
     ready(): Promise<void>;
     close(): Promise<void>;
@@ -111,7 +158,15 @@ declare module "autopass" {
   export = Autopass;
 }
 
+declare module "autopass/spec/hyperdispatch/index.js" {
+  /** Encode an Autopass command (e.g. `@autopass/put`) for `base.append` */
+  export function encode(name: "@autopass/del", value: { key: string }): Buffer;
+  export function encode(name: string, value: { key: string; value: string }): Buffer;
+}
+
 declare module "localdrive" {
+  import type { Readable, Writable } from "node:stream";
+
   interface LocaldriveEntry {
     key: string;
     value: {
@@ -144,6 +199,8 @@ declare module "localdrive" {
     put(key: string, buffer: Buffer, opts?: { executable?: boolean }): Promise<void>;
     del(key: string): Promise<void>;
     exists(key: string): Promise<boolean>;
+    createReadStream(key: string, opts?: { start?: number; end?: number }): Readable;
+    createWriteStream(key: string, opts?: { executable?: boolean }): Writable;
     list(folder?: string): AsyncIterable<LocaldriveEntry>;
     toPath(key: string): string;
     compare(a: LocaldriveEntry, b: LocaldriveEntry): number;
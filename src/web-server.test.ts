@@ -39,7 +39,15 @@ describe("Web Server API", () => {
     const server = await makeServer();
     const res = await fetch(`${server.url}/api/status`);
     const data = await res.json();
-    expect(data).toEqual({ state: "setup", folder: null, startupConflictPolicy: null });
+    expect(data).toEqual({
+      state: "setup",
+      folder: null,
+      startupConflictPolicy: null,
+      folderMode: null,
+      onDemand: false,
+      divergedPaths: 0,
+      paused: false,
+    });
   });
 
   it("POST /api/setup creates engine and starts sync", async () => {
@@ -92,6 +100,30 @@ describe("Web Server API", () => {
     expect(res.status).toBe(400);
   });
 
+  it("POST /api/revert rejects non-string paths", async () => {
+    const folder = await makeTmpDir();
+    const server = await makeServer(folder);
+
+    const res = await fetch(`${server.url}/api/revert`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ paths: ["/a.txt", 42] }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("POST /api/override rejects non-string paths", async () => {
+    const folder = await makeTmpDir();
+    const server = await makeServer(folder);
+
+    const res = await fetch(`${server.url}/api/override`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ paths: [null] }),
+    });
+    expect(res.status).toBe(400);
+  });
+
   it("POST /api/setup/preview validates join input", async () => {
     const folder = await makeTmpDir();
     const server = await makeServer();
@@ -193,6 +225,75 @@ describe("Web Server API", () => {
     expect(restartStatus.startupConflictPolicy).toBe("keep-both");
   });
 
+  it("syncs several folders, each behind its own scoped routes", async () => {
+    const folderA = await makeTmpDir();
+    const folderB = await makeTmpDir();
+    await writeFile(join(folderA, "a.txt"), "in A");
+    await writeFile(join(folderB, "b.txt"), "in B");
+    const server = await makeServer(folderA);
+
+    const addRes = await fetch(`${server.url}/api/folders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ folder: folderB, mode: "create" }),
+    });
+    expect(addRes.status).toBe(200);
+    const { id: idB } = (await addRes.json()) as { id: string };
+
+    const duplicateRes = await fetch(`${server.url}/api/folders`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ folder: folderB, mode: "create" }),
+    });
+    expect(duplicateRes.status).toBe(409);
+
+    const folders = (await (await fetch(`${server.url}/api/folders`)).json()) as {
+      id: string;
+      folder: string;
+    }[];
+    expect(folders.map((f) => f.folder)).toEqual([folderA, folderB]);
+    const idA = folders[0].id;
+
+    const pathsOf = async (id: string) => {
+      const files = (await (await fetch(`${server.url}/api/folders/${id}/files`)).json()) as {
+        path: string;
+      }[];
+      return files.map((f) => f.path);
+    };
+    await waitFor(async () => (await pathsOf(idB)).includes("/b.txt"), 10_000);
+    await waitFor(async () => (await pathsOf(idA)).includes("/a.txt"), 10_000);
+    expect(await pathsOf(idA)).not.toContain("/b.txt");
+    expect(await pathsOf(idB)).not.toContain("/a.txt");
+
+    const unknownRes = await fetch(`${server.url}/api/folders/nope/files`);
+    expect(unknownRes.status).toBe(404);
+
+    const removeRes = await fetch(`${server.url}/api/folders/${idB}/remove`, { method: "POST" });
+    expect(removeRes.status).toBe(200);
+    const remaining = (await (await fetch(`${server.url}/api/folders`)).json()) as unknown[];
+    expect(remaining).toHaveLength(1);
+  });
+
+  it("POST /api/invite creates an invite for the requested role", async () => {
+    const folder = await makeTmpDir();
+    const server = await makeServer(folder);
+
+    const invite = (role: string) =>
+      fetch(`${server.url}/api/invite`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+
+    const readOnlyRes = await invite("read-only");
+    expect(readOnlyRes.status).toBe(200);
+    const readOnlyData = (await readOnlyRes.json()) as { inviteCode: string; role: string };
+    expect(readOnlyData.role).toBe("read-only");
+    expect(typeof readOnlyData.inviteCode).toBe("string");
+
+    expect((await invite("admin")).status).toBe(400);
+  });
+
   it("GET /api/files returns file list after sync", async () => {
     const folder = await makeTmpDir();
     await writeFile(join(folder, "hello.txt"), "hello world");
@@ -3,20 +3,21 @@ import http from "node:http";
 import type { AddressInfo } from "node:net";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
-import type Corestore from "corestore";
 import express from "express";
 import { type WebSocket, WebSocketServer } from "ws";
-import type { StartupConflictPolicy } from "./api-types.js";
-import { EngineBridge } from "./engine-bridge.js";
+import type { FolderMode, PeerRole, StartupConflictPolicy, StatusInfo } from "./api-types.js";
+import type { EngineBridge } from "./engine-bridge.js";
 import {
+  folderModes,
   type PreparedJoinSession,
+  peerRoles,
   prepareJoinPreview,
   resolveFolder,
   startEngine,
   startEngineFromPreparedJoin,
   startupConflictPolicies,
 } from "./engine-manager.js";
-import { loadLastFolder, saveLastFolder } from "./last-folder-config.js";
+import { FolderRegistry, type FolderSession } from "./folder-registry.js";
 import type { SyncEngine } from "./lib/sync-engine.js";
 
 export interface ServerOptions {
@@ -34,15 +35,34 @@ export interface PearSyncServer {
   httpServer: http.Server;
 }
 
+const SETUP_STATUS: StatusInfo = {
+  state: "setup",
+  folder: null,
+  startupConflictPolicy: null,
+  folderMode: null,
+  onDemand: false,
+  divergedPaths: 0,
+  paused: false,
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/** The engine and bridge of the folder a scoped route acts on, if any. */
+function sessionOf(res: express.Response): {
+  engine: SyncEngine | null;
+  bridge: EngineBridge | null;
+} {
+  const session = res.locals.session as FolderSession | null;
+  return { engine: session?.engine ?? null, bridge: session?.bridge ?? null };
+}
+
 export async function createServer(opts: ServerOptions): Promise<PearSyncServer> {
   const app = express();
   app.use(express.json());
 
-  let engine: SyncEngine | null = null;
-  let bridge: EngineBridge | null = null;
-  let store: InstanceType<typeof Corestore> | null = null;
-  let resolvedFolder: string | null = null;
-  let currentStartupConflictPolicy: StartupConflictPolicy | null = null;
+  const registry = new FolderRegistry();
   let pendingJoinPreview: PreparedJoinSession | null = null;
 
   async function clearPendingJoinPreview(): Promise<void> {
@@ -52,23 +72,22 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
     pendingJoinPreview = null;
   }
 
-  // If folder provided, start engine immediately; otherwise try saved config
-  const folderToStart = opts.folder ?? (opts.autoStart !== false ? loadLastFolder() : null);
-  if (folderToStart) {
+  // If folder provided, start its engine immediately; otherwise restore the saved folders
+  const foldersToStart = opts.folder
+    ? [opts.folder]
+    : opts.autoStart !== false
+      ? registry.savedFolders().map((saved) => saved.folder)
+      : [];
+  for (const folder of foldersToStart) {
     try {
-      resolvedFolder = resolveFolder(folderToStart);
-      const result = await startEngine(resolvedFolder, "create", undefined, opts.bootstrap);
-      engine = result.engine;
-      store = result.store;
-      currentStartupConflictPolicy = result.startupConflictPolicy;
-      bridge = new EngineBridge(engine, resolvedFolder, currentStartupConflictPolicy);
-      bridge.attach();
+      const resolved = resolveFolder(folder);
+      if (registry.has(resolved)) continue;
+      const overlapping = registry.overlapping(resolved);
+      if (overlapping) throw new Error(`Folder overlaps ${overlapping}, which is already syncing`);
+      const result = await startEngine(resolved, "create", undefined, opts.bootstrap);
+      registry.add(resolved, result, false);
     } catch (err) {
-      console.error("[auto-start] Failed to restore previous session:", err);
-      engine = null;
-      bridge = null;
-      store = null;
-      resolvedFolder = null;
+      console.error(`[auto-start] Failed to restore ${folder}:`, err);
     }
   }
 
@@ -85,32 +104,32 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
     }
   });
 
+  // Every client hears from every folder; messages carry the folder id
   wss.on("connection", (ws: WebSocket) => {
-    bridge?.addWsClient(ws);
-    ws.on("close", () => bridge?.removeWsClient(ws));
+    for (const session of registry.list()) session.bridge.addWsClient(ws);
+    ws.on("close", () => {
+      for (const session of registry.list()) session.bridge.removeWsClient(ws);
+    });
   });
 
   // --- REST API routes ---
 
-  app.get("/api/status", (_req, res) => {
-    if (bridge) {
-      res.json(bridge.getStatus());
-    } else {
-      res.json({ state: "setup", folder: null, startupConflictPolicy: null });
-    }
+  app.get("/api/folders", (_req, res) => {
+    res.json(registry.list().map((session) => registry.info(session)));
   });
 
-  app.post("/api/setup", async (req, res) => {
-    if (engine) {
-      res.status(409).json({ error: "Already configured" });
-      return;
-    }
-    const { folder, mode, inviteCode, startupConflictPolicy } = req.body as {
-      folder?: string;
-      mode?: "create" | "join";
-      inviteCode?: string;
-      startupConflictPolicy?: StartupConflictPolicy;
-    };
+  /** Validate a setup request, start the folder's engine and register it. */
+  async function setupFolder(req: express.Request, res: express.Response): Promise<void> {
+    const { folder, mode, inviteCode, startupConflictPolicy, folderMode, excluded, onDemand } =
+      req.body as {
+        folder?: string;
+        mode?: "create" | "join";
+        inviteCode?: string;
+        startupConflictPolicy?: StartupConflictPolicy;
+        folderMode?: FolderMode;
+        excluded?: unknown;
+        onDemand?: unknown;
+      };
     if (!folder || !mode) {
       res.status(400).json({ error: "folder and mode are required" });
       return;
@@ -119,8 +138,29 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
       res.status(400).json({ error: "invalid startupConflictPolicy" });
       return;
     }
+    if (folderMode && !folderModes.includes(folderMode)) {
+      res.status(400).json({ error: "invalid folderMode" });
+      return;
+    }
+    if (excluded !== undefined && !isStringArray(excluded)) {
+      res.status(400).json({ error: "excluded must be an array of paths" });
+      return;
+    }
+    if (onDemand !== undefined && typeof onDemand !== "boolean") {
+      res.status(400).json({ error: "onDemand must be a boolean" });
+      return;
+    }
     try {
-      resolvedFolder = resolveFolder(folder);
+      const resolvedFolder = resolveFolder(folder);
+      if (registry.has(resolvedFolder)) {
+        res.status(409).json({ error: "Folder is already syncing" });
+        return;
+      }
+      const overlapping = registry.overlapping(resolvedFolder);
+      if (overlapping) {
+        res.status(409).json({ error: `Folder overlaps ${overlapping}, which is already syncing` });
+        return;
+      }
       let result:
         | Awaited<ReturnType<typeof startEngine>>
         | Awaited<ReturnType<typeof startEngineFromPreparedJoin>>;
@@ -133,7 +173,13 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
       ) {
         const prepared = pendingJoinPreview;
         pendingJoinPreview = null;
-        result = await startEngineFromPreparedJoin(prepared, startupConflictPolicy);
+        result = await startEngineFromPreparedJoin(
+          prepared,
+          startupConflictPolicy,
+          folderMode,
+          excluded,
+          onDemand,
+        );
       } else {
         await clearPendingJoinPreview();
         result = await startEngine(
@@ -142,30 +188,35 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
           inviteCode,
           opts.bootstrap,
           startupConflictPolicy,
+          folderMode,
+          excluded,
+          onDemand,
         );
       }
-      engine = result.engine;
-      store = result.store;
-      currentStartupConflictPolicy = result.startupConflictPolicy;
-      bridge = new EngineBridge(engine, resolvedFolder, currentStartupConflictPolicy);
-      bridge.attach();
+      const session = registry.add(resolvedFolder, result);
       // Register existing WS clients with the new bridge
       for (const ws of wss.clients) {
-        bridge.addWsClient(ws as WebSocket);
+        session.bridge.addWsClient(ws as WebSocket);
       }
-      saveLastFolder(resolvedFolder);
-      res.json({ ok: true, writerKey: engine.getManifest().writerKey });
+      res.json({ ok: true, id: session.id, writerKey: session.engine.getManifest().writerKey });
     } catch (err) {
       await clearPendingJoinPreview();
       res.status(500).json({ error: String(err) });
     }
-  });
+  }
 
-  app.post("/api/setup/preview", async (req, res) => {
-    if (engine) {
+  app.post("/api/folders", setupFolder);
+
+  // First-run setup, kept for clients that predate multiple folders
+  app.post("/api/setup", async (req, res) => {
+    if (registry.primary()) {
       res.status(409).json({ error: "Already configured" });
       return;
     }
+    await setupFolder(req, res);
+  });
+
+  app.post("/api/setup/preview", async (req, res) => {
     const { folder, mode, inviteCode } = req.body as {
       folder?: string;
       mode?: "create" | "join";
@@ -178,7 +229,16 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
     }
 
     try {
-      resolvedFolder = resolveFolder(folder);
+      const resolvedFolder = resolveFolder(folder);
+      if (registry.has(resolvedFolder)) {
+        res.status(409).json({ error: "Folder is already syncing" });
+        return;
+      }
+      const overlapping = registry.overlapping(resolvedFolder);
+      if (overlapping) {
+        res.status(409).json({ error: `Folder overlaps ${overlapping}, which is already syncing` });
+        return;
+      }
       await clearPendingJoinPreview();
       pendingJoinPreview = await prepareJoinPreview(resolvedFolder, inviteCode, opts.bootstrap);
       res.json(pendingJoinPreview.preview);
@@ -188,20 +248,69 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
     }
   });
 
-  app.post("/api/invite", async (_req, res) => {
+  app.post("/api/folders/:id/remove", async (req, res) => {
+    try {
+      if (!(await registry.remove(req.params.id))) {
+        res.status(404).json({ error: "Unknown folder" });
+        return;
+      }
+      res.json({ ok: true });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  // Routes below act on one folder: `/api/folders/:id/...`, or the first folder at `/api/...`
+  const folderRoutes = express.Router({ mergeParams: true });
+
+  folderRoutes.use((req, res, next) => {
+    const { id } = req.params as { id?: string };
+    if (id === undefined) {
+      res.locals.session = registry.primary();
+      next();
+      return;
+    }
+    const session = registry.get(id);
+    if (!session) {
+      res.status(404).json({ error: "Unknown folder" });
+      return;
+    }
+    res.locals.session = session;
+    next();
+  });
+
+  folderRoutes.get("/status", (_req, res) => {
+    const { bridge } = sessionOf(res);
+    res.json(bridge ? bridge.getStatus() : SETUP_STATUS);
+  });
+
+  folderRoutes.post("/invite", async (req, res) => {
+    const { engine } = sessionOf(res);
     if (!engine) {
       res.status(400).json({ error: "Not configured" });
       return;
     }
+    const { role = "writer" } = (req.body ?? {}) as { role?: PeerRole };
+    if (!peerRoles.includes(role)) {
+      res.status(400).json({ error: "invalid role" });
+      return;
+    }
+    if (engine.isReadOnly()) {
+      res.status(400).json({ error: "Read-only peers cannot create invites" });
+      return;
+    }
     try {
-      const inviteCode = await engine.getManifest().createInvite();
-      res.json({ inviteCode });
+      const inviteCode = await engine.getManifest().createInvite({
+        readOnly: role === "read-only",
+      });
+      res.json({ inviteCode, role });
     } catch (err) {
       res.status(500).json({ error: String(err) });
     }
   });
 
-  app.get("/api/files", async (_req, res) => {
+  folderRoutes.get("/files", async (_req, res) => {
+    const { bridge } = sessionOf(res);
     if (!bridge) {
       res.json([]);
       return;
@@ -213,7 +322,256 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
     }
   });
 
-  app.get("/api/peers", async (_req, res) => {
+  folderRoutes.get("/transfers", (_req, res) => {
+    const { bridge } = sessionOf(res);
+    res.json(bridge ? bridge.getTransfers() : []);
+  });
+
+  folderRoutes.post("/transfers/prioritize", (req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { path } = (req.body ?? {}) as { path?: unknown };
+    if (typeof path !== "string") {
+      res.status(400).json({ error: "path is required" });
+      return;
+    }
+    engine.prioritizeDownload(path);
+    res.json({ ok: true });
+  });
+
+  folderRoutes.post("/hydrate", async (req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { path } = (req.body ?? {}) as { path?: unknown };
+    if (typeof path !== "string") {
+      res.status(400).json({ error: "path is required" });
+      return;
+    }
+    try {
+      await engine.hydrate(path);
+      res.json({ ok: true });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.post("/evict", async (req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { path } = (req.body ?? {}) as { path?: unknown };
+    if (typeof path !== "string") {
+      res.status(400).json({ error: "path is required" });
+      return;
+    }
+    try {
+      await engine.evict(path);
+      res.json({ ok: true });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.get("/selective-sync", async (_req, res) => {
+    const { bridge } = sessionOf(res);
+    if (!bridge) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    try {
+      res.json(await bridge.getSelectiveSync());
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.put("/selective-sync", async (req, res) => {
+    const { engine, bridge } = sessionOf(res);
+    if (!engine || !bridge) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { excluded } = (req.body ?? {}) as { excluded?: unknown };
+    if (!isStringArray(excluded)) {
+      res.status(400).json({ error: "excluded must be an array of paths" });
+      return;
+    }
+    try {
+      await engine.setSelectiveSync(excluded);
+      res.json(await bridge.getSelectiveSync());
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.get("/files/:path/history", async (req, res) => {
+    const { bridge } = sessionOf(res);
+    if (!bridge) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    try {
+      res.json(await bridge.getFileHistory(req.params.path));
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.post("/files/:path/restore", async (req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { seq, writerKey } = (req.body ?? {}) as { seq?: unknown; writerKey?: unknown };
+    if (typeof seq !== "number" || typeof writerKey !== "string") {
+      res.status(400).json({ error: "seq and writerKey are required" });
+      return;
+    }
+    try {
+      const restored = await engine.restoreRevision(req.params.path, { seq, writerKey });
+      res.json({ ok: true, seq: restored.seq, hash: restored.hash });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.post("/revert", async (req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { paths } = (req.body ?? {}) as { paths?: unknown };
+    if (paths !== undefined && !isStringArray(paths)) {
+      res.status(400).json({ error: "paths must be an array of strings" });
+      return;
+    }
+    try {
+      const reverted = await engine.revertLocalChanges(paths);
+      res.json({ reverted });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.post("/override", async (req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { paths } = (req.body ?? {}) as { paths?: unknown };
+    if (paths !== undefined && !isStringArray(paths)) {
+      res.status(400).json({ error: "paths must be an array of strings" });
+      return;
+    }
+    try {
+      const overridden = await engine.overrideRemoteChanges(paths);
+      res.json({ overridden });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.post("/pause", (_req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    engine.pause();
+    res.json({ ok: true });
+  });
+
+  folderRoutes.post("/resume", async (_req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    try {
+      await engine.resume();
+      res.json({ ok: true });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.get("/storage", async (_req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    try {
+      res.json(await engine.getStorageStats());
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.post("/storage/gc", async (_req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    try {
+      res.json(await engine.collectGarbage());
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.post("/rehash", async (_req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    try {
+      const files = await engine.rehash();
+      res.json({ ok: true, files });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.get("/trash", (_req, res) => {
+    const { engine } = sessionOf(res);
+    res.json(engine ? engine.getTrash() : []);
+  });
+
+  folderRoutes.post("/trash/restore", async (req, res) => {
+    const { engine } = sessionOf(res);
+    if (!engine) {
+      res.status(400).json({ error: "Not configured" });
+      return;
+    }
+    const { id } = (req.body ?? {}) as { id?: unknown };
+    if (typeof id !== "string") {
+      res.status(400).json({ error: "id is required" });
+      return;
+    }
+    try {
+      const entry = await engine.restoreFromTrash(id);
+      res.json({ ok: true, path: entry.path });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
+  folderRoutes.get("/peers", async (_req, res) => {
+    const { bridge } = sessionOf(res);
     if (!bridge) {
       res.json([]);
       return;
@@ -225,12 +583,16 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
     }
   });
 
-  app.get("/api/events", (req, res) => {
+  folderRoutes.get("/events", (req, res) => {
+    const { bridge } = sessionOf(res);
     const limit = Number.parseInt(String(req.query.limit ?? "100"), 10);
     const offset = Number.parseInt(String(req.query.offset ?? "0"), 10);
     res.json(bridge ? bridge.getEvents(offset, limit) : []);
   });
 
+  app.use("/api/folders/:id", folderRoutes);
+  app.use("/api", folderRoutes);
+
   app.post("/api/shutdown", (_req, res) => {
     res.json({ ok: true });
     setImmediate(async () => {
@@ -256,18 +618,10 @@ export async function createServer(opts: ServerOptions): Promise<PearSyncServer>
     if (shutdownCalled) return;
     shutdownCalled = true;
 
-    if (bridge) bridge.detach();
     for (const client of wss.clients) client.close();
     wss.close();
     await clearPendingJoinPreview();
-    let activeManifest: ReturnType<SyncEngine["getManifest"]> | null = null;
-    if (engine) {
-      activeManifest = engine.getManifest();
-      await engine.stop();
-      await engine.close();
-    }
-    if (activeManifest) await activeManifest.close();
-    if (store) await store.close();
+    await registry.closeAll();
     httpServer.closeAllConnections();
     await new Promise<void>((resolve) => httpServer.close(() => resolve()));
   }
@@ -1,14 +1,48 @@
-import { getStatus, type StatusInfo } from "./api";
+import { useState } from "react";
+import { type FolderInfo, listFolders, selectFolder } from "./api";
 import { Dashboard } from "./components/Dashboard";
+import { FolderSwitcher } from "./components/FolderSwitcher";
 import { Setup } from "./components/Setup";
 import { useApi } from "./hooks/useApi";
 
 export function App() {
-  const { data: status, refetch } = useApi<StatusInfo>(getStatus, 3000);
+  const { data: folders, refetch } = useApi<FolderInfo[]>(listFolders, 3000);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
 
-  if (!status || status.state === "setup") {
-    return <Setup onComplete={refetch} />;
+  const current = folders?.find((f) => f.id === selected) ?? folders?.[0] ?? null;
+  selectFolder(current?.id ?? null);
+
+  const handleSetupComplete = (id: string) => {
+    setSelected(id);
+    setAdding(false);
+    refetch();
+  };
+
+  if (!folders || !current || adding) {
+    return (
+      <Setup
+        onComplete={handleSetupComplete}
+        onCancel={current && adding ? () => setAdding(false) : undefined}
+      />
+    );
   }
 
-  return <Dashboard />;
+  return (
+    <Dashboard
+      key={current.id}
+      folderSwitcher={
+        <FolderSwitcher
+          folders={folders}
+          selected={current.id}
+          onSelect={setSelected}
+          onAdd={() => setAdding(true)}
+          onRemoved={() => {
+            setSelected(null);
+            refetch();
+          }}
+        />
+      }
+    />
+  );
 }
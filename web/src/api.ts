@@ -2,10 +2,22 @@ import { transport } from "./transport";
 
 export type StartupConflictPolicy = "remote-wins" | "local-wins" | "keep-both";
 
+export type FolderMode = "send-receive" | "receive-only" | "send-only";
+
+export type PeerRole = "writer" | "read-only";
+
 export interface StatusInfo {
   state: "idle" | "syncing" | "watching" | "setup";
   folder: string | null;
   startupConflictPolicy: StartupConflictPolicy | null;
+  folderMode: FolderMode | null;
+  onDemand: boolean;
+  divergedPaths: number;
+  paused: boolean;
+}
+
+export interface FolderInfo extends StatusInfo {
+  id: string;
 }
 
 export interface FileInfo {
@@ -15,7 +27,34 @@ export interface FileInfo {
   mtime: number;
   writerKey: string;
   peerName: string;
-  syncState: "synced" | "syncing" | "conflict" | "local-only";
+  syncState: "synced" | "syncing" | "conflict" | "local-only" | "locally-changed" | "excluded";
+  hydrated: boolean;
+}
+
+export interface FileRevision {
+  seq: number;
+  writerKey: string;
+  peerName: string;
+  mtime: number;
+  hash: string | null;
+  size: number;
+  current: boolean;
+}
+
+export interface TransferInfo {
+  path: string;
+  state: "queued" | "active";
+  blocksDone: number;
+  blocksTotal: number;
+  bytesDone: number;
+  bytesTotal: number;
+  bytesPerSec: number;
+  etaMs: number | null;
+}
+
+export interface SelectiveSyncInfo {
+  excluded: string[];
+  folders: string[];
 }
 
 export interface PeerInfo {
@@ -23,6 +62,7 @@ export interface PeerInfo {
   name: string;
   isLocal: boolean;
   isConnected: boolean;
+  role: PeerRole;
 }
 
 export interface AppEvent {
@@ -33,6 +73,7 @@ export interface AppEvent {
     | "download"
     | "delete"
     | "conflict"
+    | "rename"
     | "peer-join"
     | "peer-leave"
     | "error"
@@ -63,19 +104,48 @@ export interface SetupPreviewResponse {
     localOnly: string[];
     remoteOnly: string[];
   };
+  folders: string[];
+}
+
+let selectedFolder: string | null = null;
+
+/** Point the folder-scoped calls below at one sync folder. */
+export function selectFolder(id: string | null): void {
+  selectedFolder = id;
+}
+
+export function getSelectedFolder(): string | null {
+  return selectedFolder;
+}
+
+/** Scope an `/api/...` route to the selected folder. */
+function folderPath(path: string): string {
+  if (!selectedFolder) return path;
+  return `/api/folders/${encodeURIComponent(selectedFolder)}${path.slice("/api".length)}`;
+}
+
+export function listFolders(): Promise<FolderInfo[]> {
+  return transport.get("/api/folders");
+}
+
+export function removeFolder(id: string): Promise<{ ok: boolean }> {
+  return transport.post(`/api/folders/${encodeURIComponent(id)}/remove`);
 }
 
 export function getStatus(): Promise<StatusInfo> {
-  return transport.get("/api/status");
+  return transport.get(folderPath("/api/status"));
 }
 
-export function setup(body: {
+export function addFolder(body: {
   folder: string;
   mode: "create" | "join";
   inviteCode?: string;
   startupConflictPolicy?: StartupConflictPolicy;
-}): Promise<{ ok: boolean; writerKey: string }> {
-  return transport.post("/api/setup", body);
+  folderMode?: FolderMode;
+  excluded?: string[];
+  onDemand?: boolean;
+}): Promise<{ ok: boolean; id: string; writerKey: string }> {
+  return transport.post("/api/folders", body);
 }
 
 export function previewSetup(body: {
@@ -86,20 +156,71 @@ export function previewSetup(body: {
   return transport.post("/api/setup/preview", body);
 }
 
-export function createInvite(): Promise<{ inviteCode: string }> {
-  return transport.post("/api/invite");
+export function createInvite(role: PeerRole): Promise<{ inviteCode: string; role: PeerRole }> {
+  return transport.post(folderPath("/api/invite"), { role });
 }
 
 export function getFiles(): Promise<FileInfo[]> {
-  return transport.get("/api/files");
+  return transport.get(folderPath("/api/files"));
+}
+
+export function getFileHistory(path: string): Promise<FileRevision[]> {
+  return transport.get(folderPath(`/api/files/${encodeURIComponent(path)}/history`));
+}
+
+export function restoreFileRevision(
+  path: string,
+  revision: { seq: number; writerKey: string },
+): Promise<{ ok: boolean; seq: number; hash: string }> {
+  return transport.post(folderPath(`/api/files/${encodeURIComponent(path)}/restore`), revision);
+}
+
+export function revertLocalChanges(paths?: string[]): Promise<{ reverted: string[] }> {
+  return transport.post(folderPath("/api/revert"), paths ? { paths } : {});
+}
+
+export function overrideRemoteChanges(paths?: string[]): Promise<{ overridden: string[] }> {
+  return transport.post(folderPath("/api/override"), paths ? { paths } : {});
+}
+
+export function pauseSync(): Promise<{ ok: boolean }> {
+  return transport.post(folderPath("/api/pause"));
+}
+
+export function resumeSync(): Promise<{ ok: boolean }> {
+  return transport.post(folderPath("/api/resume"));
+}
+
+export function getTransfers(): Promise<TransferInfo[]> {
+  return transport.get(folderPath("/api/transfers"));
+}
+
+export function prioritizeTransfer(path: string): Promise<{ ok: boolean }> {
+  return transport.post(folderPath("/api/transfers/prioritize"), { path });
+}
+
+export function hydrateFile(path: string): Promise<{ ok: boolean }> {
+  return transport.post(folderPath("/api/hydrate"), { path });
+}
+
+export function evictFile(path: string): Promise<{ ok: boolean }> {
+  return transport.post(folderPath("/api/evict"), { path });
+}
+
+export function getSelectiveSync(): Promise<SelectiveSyncInfo> {
+  return transport.get(folderPath("/api/selective-sync"));
+}
+
+export function setSelectiveSync(excluded: string[]): Promise<SelectiveSyncInfo> {
+  return transport.put(folderPath("/api/selective-sync"), { excluded });
 }
 
 export function getPeers(): Promise<PeerInfo[]> {
-  return transport.get("/api/peers");
+  return transport.get(folderPath("/api/peers"));
 }
 
 export function getEvents(limit = 100, offset = 0): Promise<AppEvent[]> {
-  return transport.get("/api/events", {
+  return transport.get(folderPath("/api/events"), {
     limit: String(limit),
     offset: String(offset),
   });
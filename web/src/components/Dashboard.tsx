@@ -1,5 +1,15 @@
-import { useCallback, useState } from "react";
-import { type FileInfo, getFiles, getPeers, type PeerInfo } from "../api";
+import { type ReactNode, useCallback, useEffect, useState } from "react";
+import {
+  type FileInfo,
+  getFiles,
+  getPeers,
+  getStatus,
+  getTransfers,
+  type PeerInfo,
+  revertLocalChanges,
+  type StatusInfo,
+  type TransferInfo,
+} from "../api";
 import { useApi } from "../hooks/useApi";
 import { useEvents } from "../hooks/useEvents";
 import { useWebSocket, type WsMessage } from "../hooks/useWebSocket";
@@ -9,39 +19,77 @@ import { EventLog } from "./EventLog";
 import { FileTable } from "./FileTable";
 import { InviteModal } from "./InviteModal";
 import { PeerList } from "./PeerList";
+import { SelectiveSync } from "./SelectiveSync";
 import { StatusBar } from "./StatusBar";
 
-type Tab = "files" | "peers" | "activity" | "conflicts";
+type Tab = "files" | "folders" | "peers" | "activity" | "conflicts";
 
-export function Dashboard() {
+interface DashboardProps {
+  /** Picker for the sync folder this dashboard shows */
+  folderSwitcher?: ReactNode;
+}
+
+export function Dashboard({ folderSwitcher }: DashboardProps) {
   const [tab, setTab] = useState<Tab>("files");
   const [showInvite, setShowInvite] = useState(false);
+  const [reverting, setReverting] = useState(false);
 
   const { data: files, refetch: refetchFiles } = useApi<FileInfo[]>(getFiles, 5000);
   const { data: peers, refetch: refetchPeers } = useApi<PeerInfo[]>(getPeers, 5000);
+  const { data: status } = useApi<StatusInfo>(getStatus, 5000);
+  const { data: polledTransfers } = useApi<TransferInfo[]>(getTransfers, 5000);
+  const [transfers, setTransfers] = useState<TransferInfo[]>([]);
   const events = useEvents();
 
-  // Refetch data when sync events arrive via WebSocket
+  useEffect(() => {
+    if (polledTransfers) setTransfers(polledTransfers);
+  }, [polledTransfers]);
+
+  // Refetch data when sync events arrive via WebSocket; progress messages carry all transfers
   const onWsMessage = useCallback(
     (msg: WsMessage) => {
       if (msg.type === "sync") {
         refetchFiles();
         refetchPeers();
+      } else if (msg.type === "progress") {
+        setTransfers((msg.payload as { transfers: TransferInfo[] }).transfers);
       }
     },
     [refetchFiles, refetchPeers],
   );
   useWebSocket(onWsMessage);
 
+  const changedCount = files?.filter((f) => f.syncState === "locally-changed").length ?? 0;
+  // Read-only peers cannot invite anyone
+  const readOnly = peers?.some((p) => p.isLocal && p.role === "read-only") ?? false;
+
+  const handleRevert = async () => {
+    setReverting(true);
+    try {
+      await revertLocalChanges();
+      refetchFiles();
+    } finally {
+      setReverting(false);
+    }
+  };
+
   const tabClass = (t: Tab) => `${styles.tab} ${tab === t ? styles.tabActive : ""}`;
 
   return (
     <div className={styles.dashboard}>
-      <StatusBar peerCount={peers?.length ?? 0} fileCount={files?.length ?? 0} />
+      {folderSwitcher}
+      <StatusBar
+        peerCount={peers?.length ?? 0}
+        fileCount={files?.length ?? 0}
+        transfers={transfers}
+      />
       <div className={styles.tabBar}>
         <button type="button" className={tabClass("files")} onClick={() => setTab("files")}>
           Files
         </button>
+        <button type="button" className={tabClass("folders")} onClick={() => setTab("folders")}>
+          Folders
+        </button>
         <button type="button" className={tabClass("peers")} onClick={() => setTab("peers")}>
           Peers
         </button>
@@ -52,12 +100,32 @@ export function Dashboard() {
           Conflicts
         </button>
         <span className={styles.tabSpacer} />
-        <button type="button" className={styles.inviteBtn} onClick={() => setShowInvite(true)}>
-          + Invite
-        </button>
+        {changedCount > 0 && (
+          <button
+            type="button"
+            className={styles.revertBtn}
+            onClick={handleRevert}
+            disabled={reverting}
+          >
+            {reverting ? "Reverting..." : `Revert ${changedCount} local change(s)`}
+          </button>
+        )}
+        {!readOnly && (
+          <button type="button" className={styles.inviteBtn} onClick={() => setShowInvite(true)}>
+            + Invite
+          </button>
+        )}
       </div>
       <div className={styles.content}>
-        {tab === "files" && <FileTable files={files ?? []} />}
+        {tab === "files" && (
+          <FileTable
+            files={files ?? []}
+            transfers={transfers}
+            onDemand={status?.onDemand ?? false}
+            onFilesChanged={refetchFiles}
+          />
+        )}
+        {tab === "folders" && <SelectiveSync />}
         {tab === "peers" && <PeerList peers={peers ?? []} />}
         {tab === "activity" && <EventLog events={events} />}
         {tab === "conflicts" && <ConflictList files={files ?? []} />}
@@ -11,6 +11,7 @@ const EVENT_TYPES = [
   "download",
   "delete",
   "conflict",
+  "rename",
   "error",
   "audit",
   "peer-join",
@@ -22,6 +23,7 @@ const ICONS: Record<string, string> = {
   download: "\u2193",
   delete: "\u2716",
   conflict: "\u26A0",
+  rename: "\u21C4",
   error: "\u2718",
   audit: "i",
   "peer-join": "\u25CF",
@@ -33,6 +35,7 @@ const STYLE_MAP: Record<string, string> = {
   download: styles.download,
   delete: styles.delete,
   conflict: styles.conflict,
+  rename: styles.rename,
   error: styles.error,
   audit: styles.audit,
   "peer-join": styles.peerEvent,
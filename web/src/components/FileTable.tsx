@@ -1,9 +1,23 @@
-import { useMemo, useState } from "react";
-import type { FileInfo } from "../api";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  evictFile,
+  type FileInfo,
+  type FileRevision,
+  getFileHistory,
+  hydrateFile,
+  prioritizeTransfer,
+  restoreFileRevision,
+  type TransferInfo,
+} from "../api";
 import styles from "./FileTable.module.css";
 
 interface FileTableProps {
   files: FileInfo[];
+  transfers?: TransferInfo[];
+  /** Whether remote files stay placeholders until downloaded */
+  onDemand?: boolean;
+  /** Called after a file was downloaded or evicted */
+  onFilesChanged?: () => void;
 }
 
 type SortKey = "path" | "size" | "mtime" | "syncState" | "peerName";
@@ -14,6 +28,43 @@ function formatSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+function formatEta(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s left`;
+  return `${Math.ceil(seconds / 60)} min left`;
+}
+
+function TransferProgress({ transfer }: { transfer: TransferInfo | undefined }) {
+  if (!transfer) return null;
+  if (transfer.state === "queued") {
+    return (
+      <>
+        <span className={styles.transferText}>queued</span>
+        <button
+          type="button"
+          className={styles.prioritizeBtn}
+          onClick={() => prioritizeTransfer(transfer.path)}
+        >
+          Download first
+        </button>
+      </>
+    );
+  }
+  const percent =
+    transfer.bytesTotal > 0 ? Math.floor((transfer.bytesDone / transfer.bytesTotal) * 100) : 0;
+  return (
+    <span data-testid="transfer-progress">
+      <span className={styles.progress}>
+        <span className={styles.progressFill} style={{ width: `${percent}%` }} />
+      </span>
+      <span className={styles.transferText}>
+        {percent}% · {formatSize(transfer.bytesPerSec)}/s
+        {transfer.etaMs !== null && ` · ${formatEta(transfer.etaMs)}`}
+      </span>
+    </span>
+  );
+}
+
 function formatTime(ms: number): string {
   const diff = Date.now() - ms;
   if (diff < 60_000) return "just now";
@@ -22,10 +73,116 @@ function formatTime(ms: number): string {
   return new Date(ms).toLocaleDateString();
 }
 
-export function FileTable({ files }: FileTableProps) {
+interface HistoryPanelProps {
+  path: string;
+  onClose: () => void;
+}
+
+function HistoryPanel({ path, onClose }: HistoryPanelProps) {
+  const [revisions, setRevisions] = useState<FileRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setRevisions(await getFileHistory(path));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [path]);
+
+  useEffect(() => {
+    setRevisions(null);
+    load();
+  }, [load]);
+
+  const handleRestore = async (revision: FileRevision) => {
+    setRestoring(revision.seq);
+    try {
+      await restoreFileRevision(path, { seq: revision.seq, writerKey: revision.writerKey });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className={styles.history} data-testid="history-panel">
+      <div className={styles.historyHeader}>
+        <span className={styles.historyTitle}>History of {path}</span>
+        <button type="button" className={styles.historyClose} onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {error && <div className={styles.historyError}>{error}</div>}
+      {revisions === null ? (
+        <div className={styles.empty}>Loading...</div>
+      ) : (
+        <table className={styles.table}>
+          <tbody>
+            {revisions.map((revision) => (
+              <tr key={`${revision.seq}:${revision.writerKey}`} data-testid="history-row">
+                <td>#{revision.seq}</td>
+                <td>{formatTime(revision.mtime)}</td>
+                <td>{revision.hash === null ? "deleted" : formatSize(revision.size)}</td>
+                <td className={styles.mono}>{revision.hash?.slice(0, 12) ?? ""}</td>
+                <td className={styles.mono}>{revision.peerName}</td>
+                <td>
+                  {revision.current ? (
+                    <span className={styles.currentTag}>current</span>
+                  ) : (
+                    revision.hash !== null && (
+                      <button
+                        type="button"
+                        className={styles.restoreBtn}
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoring !== null}
+                      >
+                        {restoring === revision.seq ? "Restoring..." : "Restore"}
+                      </button>
+                    )
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export function FileTable({
+  files,
+  transfers = [],
+  onDemand = false,
+  onFilesChanged,
+}: FileTableProps) {
   const [search, setSearch] = useState("");
+  const [historyPath, setHistoryPath] = useState<string | null>(null);
   const [sortKey, setSortKey] = useState<SortKey>("path");
   const [sortAsc, setSortAsc] = useState(true);
+  const [busyPath, setBusyPath] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Download a placeholder, or evict a downloaded file back to a placeholder
+  const handleStorage = async (file: FileInfo) => {
+    setBusyPath(file.path);
+    setStorageError(null);
+    try {
+      await (file.hydrated ? evictFile(file.path) : hydrateFile(file.path));
+      onFilesChanged?.();
+    } catch (err) {
+      setStorageError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyPath(null);
+    }
+  };
+
+  const transferByPath = useMemo(() => new Map(transfers.map((t) => [t.path, t])), [transfers]);
 
   const filtered = useMemo(() => {
     const q = search.toLowerCase();
@@ -70,6 +227,8 @@ export function FileTable({ files }: FileTableProps) {
         return styles.syncingDot;
       case "conflict":
         return styles.conflictDot;
+      case "locally-changed":
+        return styles.locallyChangedDot;
       default:
         return styles.localOnly;
     }
@@ -84,6 +243,7 @@ export function FileTable({ files }: FileTableProps) {
         value={search}
         onChange={(e) => setSearch(e.target.value)}
       />
+      {storageError && <div className={styles.historyError}>{storageError}</div>}
       {sorted.length === 0 ? (
         <div className={styles.empty}>
           {files.length === 0 ? "No files synced yet" : "No files match filter"}
@@ -107,6 +267,7 @@ export function FileTable({ files }: FileTableProps) {
               <th onClick={() => handleSort("peerName")}>
                 Peer<span className={styles.sortArrow}>{arrow("peerName")}</span>
               </th>
+              <th />
             </tr>
           </thead>
           <tbody>
@@ -117,14 +278,37 @@ export function FileTable({ files }: FileTableProps) {
                 <td>{formatTime(file.mtime)}</td>
                 <td>
                   <span className={`${styles.statusDot} ${dotClass(file.syncState)}`} />
-                  {file.syncState}
+                  {onDemand && !file.hydrated && file.syncState === "synced"
+                    ? "placeholder"
+                    : file.syncState}
+                  <TransferProgress transfer={transferByPath.get(file.path)} />
                 </td>
                 <td className={styles.mono}>{file.peerName}</td>
+                <td>
+                  {onDemand && file.syncState === "synced" && (
+                    <button
+                      type="button"
+                      className={styles.hydrateBtn}
+                      disabled={busyPath === file.path}
+                      onClick={() => handleStorage(file)}
+                    >
+                      {file.hydrated ? "Free up space" : "Download"}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className={styles.historyBtn}
+                    onClick={() => setHistoryPath(file.path)}
+                  >
+                    History
+                  </button>
+                </td>
               </tr>
             ))}
           </tbody>
         </table>
       )}
+      {historyPath && <HistoryPanel path={historyPath} onClose={() => setHistoryPath(null)} />}
       <div className={styles.footer}>
         {files.length} file{files.length !== 1 ? "s" : ""}, {formatSize(totalSize)} total
       </div>
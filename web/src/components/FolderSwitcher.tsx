@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { type FolderInfo, removeFolder } from "../api";
+import styles from "./FolderSwitcher.module.css";
+
+interface FolderSwitcherProps {
+  folders: FolderInfo[];
+  selected: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemoved: () => void;
+}
+
+export function FolderSwitcher({
+  folders,
+  selected,
+  onSelect,
+  onAdd,
+  onRemoved,
+}: FolderSwitcherProps) {
+  const [removing, setRemoving] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleRemove = async () => {
+    const folder = folders.find((f) => f.id === selected)?.folder ?? selected;
+    if (!window.confirm(`Stop syncing ${folder}? Its files stay on disk.`)) return;
+    setRemoving(true);
+    setError("");
+    try {
+      await removeFolder(selected);
+      onRemoved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  return (
+    <div className={styles.bar}>
+      <label className={styles.label} htmlFor="folder-switcher">
+        Folder
+      </label>
+      <select
+        id="folder-switcher"
+        className={styles.select}
+        value={selected}
+        onChange={(e) => onSelect(e.target.value)}
+      >
+        {folders.map((f) => (
+          <option key={f.id} value={f.id}>
+            {f.folder}
+          </option>
+        ))}
+      </select>
+      <button type="button" className={styles.btn} onClick={onAdd}>
+        + Add folder
+      </button>
+      <button
+        type="button"
+        className={`${styles.btn} ${styles.removeBtn}`}
+        onClick={handleRemove}
+        disabled={removing}
+      >
+        {removing ? "Removing..." : "Remove"}
+      </button>
+      {error && <span className={styles.error}>{error}</span>}
+    </div>
+  );
+}
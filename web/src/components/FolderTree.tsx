@@ -0,0 +1,49 @@
+import styles from "./FolderTree.module.css";
+
+interface FolderTreeProps {
+  folders: string[];
+  excluded: string[];
+  onChange: (excluded: string[]) => void;
+  disabled?: boolean;
+}
+
+function isExcluded(excluded: string[], path: string): boolean {
+  return excluded.some((root) => path === root || path.startsWith(`${root}/`));
+}
+
+/** Checkbox tree of shared folders; unchecking one leaves its whole subtree off this device. */
+export function FolderTree({ folders, excluded, onChange, disabled }: FolderTreeProps) {
+  if (folders.length === 0) {
+    return <div className={styles.empty}>No folders to choose from</div>;
+  }
+
+  const toggle = (folder: string, include: boolean) => {
+    const rest = excluded.filter((path) => path !== folder && !path.startsWith(`${folder}/`));
+    onChange(include ? rest : [...rest, folder]);
+  };
+
+  return (
+    <ul className={styles.tree}>
+      {folders.map((folder) => {
+        const depth = folder.split("/").length - 2;
+        const name = folder.slice(folder.lastIndexOf("/") + 1);
+        const checked = !isExcluded(excluded, folder);
+        // Folders inside an excluded one follow it
+        const inherited = !checked && !excluded.includes(folder);
+        return (
+          <li key={folder} className={styles.row} style={{ paddingLeft: `${depth * 1.25}rem` }}>
+            <label className={inherited ? styles.inherited : undefined}>
+              <input
+                type="checkbox"
+                checked={checked}
+                disabled={disabled || inherited}
+                onChange={(e) => toggle(folder, e.target.checked)}
+              />
+              <span className={styles.name}>{name}</span>
+            </label>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
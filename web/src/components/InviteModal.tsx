@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { createInvite } from "../api";
+import { createInvite, type PeerRole } from "../api";
 import styles from "./InviteModal.module.css";
 
 interface InviteModalProps {
@@ -7,21 +7,36 @@ interface InviteModalProps {
 }
 
 export function InviteModal({ onClose }: InviteModalProps) {
+  const [role, setRole] = useState<PeerRole>("writer");
   const [code, setCode] = useState("");
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
 
+  // Only one invite is open at a time, so choosing the other role replaces the code
   useEffect(() => {
-    createInvite()
+    let cancelled = false;
+    createInvite(role)
       .then(({ inviteCode }) => {
+        if (cancelled) return;
         setCode(inviteCode);
         setLoading(false);
       })
       .catch(() => {
+        if (cancelled) return;
         setCode("Failed to generate invite code");
         setLoading(false);
       });
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [role]);
+
+  const handleRoleChange = (next: PeerRole) => {
+    if (next === role) return;
+    setLoading(true);
+    setCopied(false);
+    setRole(next);
+  };
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -54,6 +69,31 @@ export function InviteModal({ onClose }: InviteModalProps) {
         <p className={styles.subtitle}>
           Share this code with your other device. They have 10 minutes to enter it.
         </p>
+        <div className={styles.roleGroup}>
+          <label className={styles.roleLabel}>
+            <input
+              type="radio"
+              name="invite-role"
+              checked={role === "writer"}
+              onChange={() => handleRoleChange("writer")}
+            />
+            Writer
+          </label>
+          <label className={styles.roleLabel}>
+            <input
+              type="radio"
+              name="invite-role"
+              checked={role === "read-only"}
+              onChange={() => handleRoleChange("read-only")}
+            />
+            Read-only
+          </label>
+        </div>
+        <p className={styles.roleHint}>
+          {role === "writer"
+            ? "The peer can add, change and delete files."
+            : "The peer receives files but never publishes its own changes."}
+        </p>
         {loading ? (
           <div className={styles.loading}>Generating invite code...</div>
         ) : (
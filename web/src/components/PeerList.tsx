@@ -25,6 +25,7 @@ export function PeerList({ peers }: PeerListProps) {
         <tr>
           <th>Peer</th>
           <th>Writer Key</th>
+          <th>Role</th>
           <th>Status</th>
         </tr>
       </thead>
@@ -45,6 +46,7 @@ export function PeerList({ peers }: PeerListProps) {
                 {peer.writerKey.slice(0, 16)}...
               </button>
             </td>
+            <td>{peer.role === "read-only" ? "Read-only" : "Writer"}</td>
             <td>
               <span
                 className={`${styles.statusDot} ${peer.isConnected ? styles.online : styles.offline}`}
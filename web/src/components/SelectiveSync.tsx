@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { getSelectiveSync, type SelectiveSyncInfo, setSelectiveSync } from "../api";
+import { useApi } from "../hooks/useApi";
+import { FolderTree } from "./FolderTree";
+import styles from "./SelectiveSync.module.css";
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((path) => b.includes(path));
+}
+
+export function SelectiveSync() {
+  const { data, refetch } = useApi<SelectiveSyncInfo>(getSelectiveSync, 10000);
+  const [draft, setDraft] = useState<string[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!data) {
+    return <div className={styles.empty}>Loading folders...</div>;
+  }
+
+  const excluded = draft ?? data.excluded;
+  const dirty = draft !== null && !sameSet(draft, data.excluded);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      await setSelectiveSync(excluded);
+      setDraft(null);
+      refetch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.title}>Folders on this device</div>
+      <div className={styles.hint}>
+        Unchecked folders stay shared but are not downloaded here. Unchanged local copies are
+        removed; deleting them never deletes them for other peers.
+      </div>
+      <FolderTree
+        folders={data.folders}
+        excluded={excluded}
+        onChange={setDraft}
+        disabled={saving}
+      />
+      {error && <div className={styles.error}>{error}</div>}
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.saveBtn}
+          onClick={handleSave}
+          disabled={!dirty || saving}
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+        {dirty && (
+          <button
+            type="button"
+            className={styles.cancelBtn}
+            onClick={() => setDraft(null)}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
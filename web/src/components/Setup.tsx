@@ -1,23 +1,35 @@
 import { useState } from "react";
-import { pickFolder, previewSetup, type SetupPreviewResponse, setup } from "../api";
+import {
+  addFolder,
+  type FolderMode,
+  pickFolder,
+  previewSetup,
+  type SetupPreviewResponse,
+} from "../api";
 import { runtime } from "../runtime";
+import { FolderTree } from "./FolderTree";
 import styles from "./Setup.module.css";
 
 interface SetupProps {
-  onComplete: () => void;
+  onComplete: (folderId: string) => void;
+  /** Shown as a Cancel button when adding a folder next to ones already syncing */
+  onCancel?: () => void;
 }
 
-export function Setup({ onComplete }: SetupProps) {
+export function Setup({ onComplete, onCancel }: SetupProps) {
   const [folder, setFolder] = useState("~/PearSync");
   const [mode, setMode] = useState<"create" | "join">("create");
   const [inviteCode, setInviteCode] = useState("");
   const [startupConflictPolicy, setStartupConflictPolicy] = useState<
     "remote-wins" | "local-wins" | "keep-both"
   >("remote-wins");
+  const [folderMode, setFolderMode] = useState<FolderMode>("send-receive");
+  const [onDemand, setOnDemand] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [previewLoading, setPreviewLoading] = useState(false);
   const [preview, setPreview] = useState<SetupPreviewResponse | null>(null);
+  const [excluded, setExcluded] = useState<string[]>([]);
   const handleBrowse = async () => {
     try {
       const { folder: picked } = await pickFolder();
@@ -40,13 +52,16 @@ export function Setup({ onComplete }: SetupProps) {
     setError("");
     setLoading(true);
     try {
-      await setup({
+      const { id } = await addFolder({
         folder: folder.trim(),
         mode,
         inviteCode: mode === "join" ? inviteCode.trim() : undefined,
         startupConflictPolicy: mode === "join" ? startupConflictPolicy : undefined,
+        folderMode,
+        excluded: mode === "join" && excluded.length > 0 ? excluded : undefined,
+        onDemand: onDemand || undefined,
       });
-      onComplete();
+      onComplete(id);
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     } finally {
@@ -73,6 +88,7 @@ export function Setup({ onComplete }: SetupProps) {
         inviteCode: inviteCode.trim(),
       });
       setPreview(nextPreview);
+      setExcluded([]);
     } catch (err) {
       setPreview(null);
       setError(err instanceof Error ? err.message : String(err));
@@ -128,6 +144,29 @@ export function Setup({ onComplete }: SetupProps) {
             </label>
           </div>
 
+          <label className={styles.label} htmlFor="folder-mode">
+            Folder mode
+          </label>
+          <select
+            id="folder-mode"
+            className={styles.input}
+            value={folderMode}
+            onChange={(e) => setFolderMode(e.target.value as FolderMode)}
+          >
+            <option value="send-receive">Send &amp; receive</option>
+            <option value="receive-only">Receive only (never publish local edits)</option>
+            <option value="send-only">Send only (never apply remote edits)</option>
+          </select>
+
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={onDemand}
+              onChange={(e) => setOnDemand(e.target.checked)}
+            />
+            Download files on demand (keep placeholders until a file is downloaded)
+          </label>
+
           {mode === "join" && (
             <>
               <label className={styles.label} htmlFor="invite">
@@ -191,6 +230,17 @@ export function Setup({ onComplete }: SetupProps) {
                   </div>
                 </div>
               )}
+
+              {preview && preview.folders.length > 0 && (
+                <div className={styles.previewBox}>
+                  <div className={styles.previewTitle}>Folders to sync</div>
+                  <FolderTree
+                    folders={preview.folders}
+                    excluded={excluded}
+                    onChange={setExcluded}
+                  />
+                </div>
+              )}
             </>
           )}
 
@@ -199,6 +249,11 @@ export function Setup({ onComplete }: SetupProps) {
           <button type="submit" className={styles.button} disabled={loading}>
             {loading ? "Setting up..." : "Start Syncing"}
           </button>
+          {onCancel && (
+            <button type="button" className={styles.cancelBtn} onClick={onCancel}>
+              Cancel
+            </button>
+          )}
         </form>
       </div>
     </div>
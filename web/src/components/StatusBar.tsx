@@ -1,4 +1,12 @@
-import { getStatus, type StatusInfo } from "../api";
+import { useState } from "react";
+import {
+  getStatus,
+  overrideRemoteChanges,
+  pauseSync,
+  resumeSync,
+  type StatusInfo,
+  type TransferInfo,
+} from "../api";
 import { useApi } from "../hooks/useApi";
 import { useTheme } from "../hooks/useTheme";
 import styles from "./StatusBar.module.css";
@@ -6,20 +14,55 @@ import styles from "./StatusBar.module.css";
 interface StatusBarProps {
   peerCount: number;
   fileCount: number;
+  transfers: TransferInfo[];
 }
 
-export function StatusBar({ peerCount, fileCount }: StatusBarProps) {
-  const { data: status } = useApi<StatusInfo>(getStatus, 3000);
+export function StatusBar({ peerCount, fileCount, transfers }: StatusBarProps) {
+  const { data: status, refetch } = useApi<StatusInfo>(getStatus, 3000);
   const { theme, toggle } = useTheme();
+  const [overriding, setOverriding] = useState(false);
+  const [toggling, setToggling] = useState(false);
 
   const state = status?.state ?? "idle";
   const folder = status?.folder ?? "";
   const policy = status?.startupConflictPolicy ?? null;
+  const folderMode = status?.folderMode ?? null;
+  const divergedPaths = status?.divergedPaths ?? 0;
+  const paused = status?.paused ?? false;
+  const bytesTotal = transfers.reduce((sum, t) => sum + t.bytesTotal, 0);
+  const bytesDone = transfers.reduce((sum, t) => sum + t.bytesDone, 0);
+  const percent = bytesTotal > 0 ? Math.floor((bytesDone / bytesTotal) * 100) : 0;
+
+  const handleOverride = async () => {
+    setOverriding(true);
+    try {
+      await overrideRemoteChanges();
+      refetch();
+    } finally {
+      setOverriding(false);
+    }
+  };
+
+  const handlePauseToggle = async () => {
+    setToggling(true);
+    try {
+      await (paused ? resumeSync() : pauseSync());
+      refetch();
+    } finally {
+      setToggling(false);
+    }
+  };
 
   const badgeClass =
     state === "watching" ? styles.watching : state === "syncing" ? styles.syncing : styles.offline;
 
-  const stateLabel = state === "watching" ? "Watching" : state === "syncing" ? "Syncing" : "Idle";
+  const stateLabel = paused
+    ? "Paused"
+    : state === "watching"
+      ? "Watching"
+      : state === "syncing"
+        ? "Syncing"
+        : "Idle";
 
   return (
     <div className={styles.bar}>
@@ -35,8 +78,42 @@ export function StatusBar({ peerCount, fileCount }: StatusBarProps) {
       <span className={styles.stat}>
         {fileCount} file{fileCount !== 1 ? "s" : ""}
       </span>
+      {transfers.length > 0 && (
+        <span className={styles.stat} data-testid="transfer-queue">
+          <span className={styles.progress}>
+            <span className={styles.progressFill} style={{ width: `${percent}%` }} />
+          </span>
+          {transfers.length} in queue, {percent}%
+        </span>
+      )}
       {policy && <span className={styles.stat}>policy: {policy}</span>}
+      {folderMode && folderMode !== "send-receive" && (
+        <span className={styles.stat}>mode: {folderMode}</span>
+      )}
+      {divergedPaths > 0 && (
+        <>
+          <span className={styles.stat}>{divergedPaths} diverged</span>
+          <button
+            type="button"
+            className={styles.overrideBtn}
+            onClick={handleOverride}
+            disabled={overriding}
+          >
+            {overriding ? "Overriding..." : "Override"}
+          </button>
+        </>
+      )}
       <span className={styles.spacer} />
+      {status && (
+        <button
+          type="button"
+          className={styles.pauseBtn}
+          onClick={handlePauseToggle}
+          disabled={toggling}
+        >
+          {paused ? "Resume" : "Pause"}
+        </button>
+      )}
       <button type="button" className={styles.themeBtn} onClick={toggle} title="Toggle theme">
         {theme === "dark" ? "\u2600" : "\u263E"}
       </button>
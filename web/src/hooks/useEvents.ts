@@ -39,6 +39,9 @@ export function useEvents() {
       if (action === "conflict") {
         type = "conflict";
         detail = `Conflict: ${path} → ${payload.conflictPath}`;
+      } else if (action === "rename") {
+        type = "rename";
+        detail = `Renamed ${payload.fromPath} → ${path}`;
       } else if (action === "delete") {
         type = "delete";
         detail = `Deleted ${path}`;
@@ -1,22 +1,31 @@
 import { useEffect, useRef } from "react";
+import { getSelectedFolder } from "../api";
 import { runtime } from "../runtime";
 import { subscribeToPush } from "../transport";
 
 export interface WsMessage {
-  type: "sync" | "status" | "peer" | "error" | "stats";
+  type: "sync" | "status" | "peer" | "error" | "stats" | "progress";
   payload: unknown;
   timestamp: number;
+  /** The sync folder the message is about */
+  folderId?: string;
 }
 
+/** Subscribe to push messages about the selected sync folder. */
 export function useWebSocket(onMessage: (msg: WsMessage) => void) {
   const onMessageRef = useRef(onMessage);
   onMessageRef.current = onMessage;
 
   useEffect(() => {
+    function deliver(msg: WsMessage) {
+      if (msg.folderId && msg.folderId !== getSelectedFolder()) return;
+      onMessageRef.current(msg);
+    }
+
     // In Pear mode, use pipe transport for push messages
     if (runtime.isPear) {
       const unsub = subscribeToPush((msg) => {
-        onMessageRef.current(msg as WsMessage);
+        deliver(msg as WsMessage);
       });
       return () => {
         if (unsub) unsub();
@@ -41,7 +50,7 @@ export function useWebSocket(onMessage: (msg: WsMessage) => void) {
       ws.onmessage = (event) => {
         try {
           const msg = JSON.parse(event.data) as WsMessage;
-          onMessageRef.current(msg);
+          deliver(msg);
         } catch {
           // ignore malformed messages
         }
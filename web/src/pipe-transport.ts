@@ -2,7 +2,7 @@ import type { Transport } from "./transport";
 
 interface PipeRequest {
   id: number;
-  method: "get" | "post";
+  method: "get" | "post" | "put";
   params: { path: string; body?: unknown; query?: Record<string, string> };
 }
 
@@ -129,6 +129,11 @@ export class PipeTransport implements Transport {
     return this.send({ id, method: "post", params: { path, body } }) as Promise<T>;
   }
 
+  async put<T>(path: string, body?: unknown): Promise<T> {
+    const id = this.nextId++;
+    return this.send({ id, method: "put", params: { path, body } }) as Promise<T>;
+  }
+
   subscribe(fn: PushCallback): () => void {
     this.pushListeners.add(fn);
     return () => this.pushListeners.delete(fn);
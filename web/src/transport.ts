@@ -6,6 +6,7 @@ export type { PushCallback } from "./pipe-transport";
 export interface Transport {
   get<T>(path: string, params?: Record<string, string>): Promise<T>;
   post<T>(path: string, body?: unknown): Promise<T>;
+  put<T>(path: string, body?: unknown): Promise<T>;
 }
 
 class HttpTransport implements Transport {
@@ -20,8 +21,16 @@ class HttpTransport implements Transport {
   }
 
   async post<T>(path: string, body?: unknown): Promise<T> {
+    return this.send("POST", path, body);
+  }
+
+  async put<T>(path: string, body?: unknown): Promise<T> {
+    return this.send("PUT", path, body);
+  }
+
+  private async send<T>(method: "POST" | "PUT", path: string, body?: unknown): Promise<T> {
     const res = await fetch(path, {
-      method: "POST",
+      method,
       headers: body != null ? { "Content-Type": "application/json" } : {},
       body: body != null ? JSON.stringify(body) : undefined,
     });